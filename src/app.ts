@@ -0,0 +1,409 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import express, { type Express, type Request, type Response } from "express";
+
+import { getServer } from "./server.js";
+import type { Services } from "./services.js";
+import type { Tenants } from "./tenants.js";
+import type { Teacher } from "./classroom/auth/teacherRegistry.js";
+import type { AuthManager } from "./classroom/auth/authManager.js";
+import { googleOAuthFlow, type OAuthFlow } from "./classroom/auth/oauthFlow.js";
+import { getEncryption } from "./security/encryption.js";
+import { config } from "./config.js";
+
+// One teacher (the process-wide Google account) or many, each with their own account
+export type AppOptions = ({ services: Services; } | { tenants: Tenants; }) & {
+  oauth?: OAuthFlow; // Default: Google with the configured OAuth client
+  adminToken?: string; // Guards the sign-in routes of the shared account. Default: ADMIN_TOKEN
+};
+
+const SIGN_IN_TIMEOUT_MS = 10 * 60 * 1000;
+// Binds a pending sign-in to the browser that started it
+const STATE_COOKIE = "eduadapt_oauth_state";
+
+interface TeacherSession {
+  teacherId: string;
+  transport: StreamableHTTPServerTransport;
+}
+
+function sendJsonRpcError(res: Response, status: number, code: number, message: string): void {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code, message },
+    id: null,
+  });
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+// A minimal page for the browser side of the Google sign-in; the body is trusted HTML
+function sendPage(res: Response, status: number, title: string, body: string): void {
+  res.status(status).type("html").send(
+    `<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>` +
+    `<body><h1>${escapeHtml(title)}</h1>${body}</body></html>`
+  );
+}
+
+function bearerToken(req: Request): string {
+  const header = req.headers.authorization || "";
+  return header.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : "";
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const cookie of (req.headers.cookie || "").split(";")) {
+    const [key, ...value] = cookie.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+}
+
+// Compares hashes, so neither the content nor the length of the secret leaks through timing
+function secretsMatch(given: string, expected: string): boolean {
+  const hash = (secret: string) => createHash("sha256").update(secret).digest();
+  return given !== "" && timingSafeEqual(hash(given), hash(expected));
+}
+
+// A request sent by a page of another site, e.g. a form posted in the teacher's browser
+function isCrossOrigin(req: Request): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return false;
+  try {
+    return new URL(origin).host !== req.headers.host;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Builds the Express app serving MCP on /mcp. With tenants, every request
+ * carries a teacher's access key as a bearer token and every MCP session is
+ * bound to the teacher who opened it.
+ */
+export function createApp(options: AppOptions): Express {
+  const app = express();
+  app.use(express.json());
+
+  if ("tenants" in options) {
+    mountTeacherSessions(app, options.tenants);
+  } else {
+    mountSharedServer(app, options.services);
+  }
+  mountGoogleSignIn(app, options, options.oauth || googleOAuthFlow, options.adminToken ?? config.ADMIN_TOKEN);
+  return app;
+}
+
+/**
+ * Connects Google accounts from the browser: /auth/google/start sends the
+ * teacher to Google's consent page and /auth/google/callback stores the
+ * tokens, encrypted, for the shared account or the teacher's own. With
+ * tenants, the callback page shows the teacher their new access key, and
+ * status and revoke need that key as a bearer token. The shared account can
+ * only be replaced, inspected or revoked with the admin token, which keeps
+ * anyone who can reach the server from taking it over.
+ */
+function mountGoogleSignIn(app: Express, options: AppOptions, oauth: OAuthFlow, adminToken: string | undefined): void {
+  const pendingSignIns = new Map<string, number>(); // Expiry time by OAuth state
+
+  app.get("/auth/google/start", async (req: Request, res: Response) => {
+    if (!getEncryption()) {
+      sendPage(res, 503, "Google sign-in is not available",
+        "<p>Set ENCRYPTION_KEY on the server so Google tokens can be stored encrypted.</p>");
+      return;
+    }
+    if (!("tenants" in options)) {
+      if (!adminToken) {
+        sendPage(res, 503, "Google sign-in is not available",
+          "<p>Set ADMIN_TOKEN on the server to connect the shared Google account from the browser.</p>");
+        return;
+      }
+      const token = typeof req.query.token === "string" ? req.query.token : bearerToken(req);
+      if (!secretsMatch(token, adminToken)) {
+        sendPage(res, 401, "Admin token required",
+          "<p>Open <code>/auth/google/start?token=&lt;ADMIN_TOKEN&gt;</code> to connect the shared Google account.</p>");
+        return;
+      }
+    }
+
+    try {
+      const now = Date.now();
+      for (const [state, expiresAt] of pendingSignIns) {
+        if (expiresAt < now) pendingSignIns.delete(state);
+      }
+
+      const state = randomBytes(24).toString("base64url");
+      pendingSignIns.set(state, now + SIGN_IN_TIMEOUT_MS);
+      res.cookie(STATE_COOKIE, state, {
+        httpOnly: true,
+        sameSite: "lax", // Sent along with Google's redirect back
+        secure: req.secure,
+        path: "/auth/google",
+        maxAge: SIGN_IN_TIMEOUT_MS,
+      });
+      res.redirect(await oauth.authUrl(state));
+    } catch (error) {
+      console.error("Error starting Google sign-in:", error);
+      sendPage(res, 500, "Google sign-in failed", `<p>${escapeHtml(error instanceof Error ? error.message : String(error))}</p>`);
+    }
+  });
+
+  app.get("/auth/google/callback", async (req: Request, res: Response) => {
+    const { code, state, error } = req.query;
+    const startedHere = typeof state === "string" && readCookie(req, STATE_COOKIE) === state;
+    const expiresAt = startedHere ? pendingSignIns.get(state) : undefined;
+    if (startedHere) {
+      pendingSignIns.delete(state);
+    }
+    res.clearCookie(STATE_COOKIE, { path: "/auth/google" });
+
+    if (typeof error === "string") {
+      sendPage(res, 400, "Google sign-in was cancelled", `<p>Google reported: ${escapeHtml(error)}</p>`);
+      return;
+    }
+    if (!expiresAt || expiresAt < Date.now() || typeof code !== "string") {
+      sendPage(res, 400, "Google sign-in expired", '<p>Please <a href="/auth/google/start">start again</a>.</p>');
+      return;
+    }
+
+    try {
+      const tokens = await oauth.exchangeCode(code);
+      if ("tenants" in options) {
+        const { teacher, accessKey } = await options.tenants.connect(tokens);
+        sendPage(res, 200, "Google account connected",
+          `<p>Welcome, ${escapeHtml(teacher.name)}. Your access key is:</p>` +
+          `<p><code id="access-key">${escapeHtml(accessKey)}</code></p>` +
+          "<p>Copy it into your MCP client as a bearer token. It is shown only once; " +
+          "signing in again issues a new key and the old one stops working.</p>");
+      } else {
+        await options.services.auth.saveTokens(tokens);
+        sendPage(res, 200, "Google account connected", "<p>The server can now use Google Classroom. You can close this page.</p>");
+      }
+    } catch (error) {
+      console.error("Error completing Google sign-in:", error);
+      sendPage(res, 500, "Google sign-in failed", `<p>${escapeHtml(error instanceof Error ? error.message : String(error))}</p>`);
+    }
+  });
+
+  // The account a request is about: the shared one, or that of the teacher whose access key it carries
+  const findAccount = async (req: Request, res: Response): Promise<{ auth: AuthManager; teacher?: Teacher; } | null> => {
+    if (!("tenants" in options)) {
+      if (!adminToken || !secretsMatch(bearerToken(req), adminToken)) {
+        res.setHeader("WWW-Authenticate", "Bearer");
+        res.status(401).json({ error: "Unauthorized: send ADMIN_TOKEN as a bearer token" });
+        return null;
+      }
+      return { auth: options.services.auth };
+    }
+    const teacher = await options.tenants.authenticate(bearerToken(req));
+    if (!teacher) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+      res.status(401).json({ error: "Unauthorized: send your teacher access key as a bearer token" });
+      return null;
+    }
+    return { auth: options.tenants.servicesFor(teacher.teacherId).auth, teacher };
+  };
+
+  app.get("/auth/google/status", async (req: Request, res: Response) => {
+    try {
+      const account = await findAccount(req, res);
+      if (!account) return;
+
+      const tokens = await account.auth.getTokenStatus();
+      if (account.teacher) {
+        const { teacherId, name, email, connectedAt, lastSeenAt } = account.teacher;
+        res.json({ teacher: { teacherId, name, email, connectedAt, lastSeenAt }, tokens });
+      } else {
+        res.json({ tokens });
+      }
+    } catch (error) {
+      console.error("Error reading Google token status:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.post("/auth/google/revoke", async (req: Request, res: Response) => {
+    if (isCrossOrigin(req)) {
+      res.status(403).json({ error: "Forbidden: cross-origin request" });
+      return;
+    }
+
+    try {
+      const account = await findAccount(req, res);
+      if (!account) return;
+      const { auth, teacher } = account;
+
+      const status = await auth.getTokenStatus();
+      if (status.source === "env") {
+        res.status(409).json({ error: "The Google tokens come from GOOGLE_TOKENS. Remove the variable to disconnect." });
+        return;
+      }
+
+      // Revoking the refresh token ends the whole grant; a failure still disconnects locally
+      const tokens = await auth.getStoredTokens();
+      const token = tokens?.refresh_token || tokens?.access_token;
+      if (token) {
+        await oauth.revokeToken(token).catch((error) => {
+          console.error("Failed to revoke the Google token:", error);
+        });
+      }
+
+      if (teacher && "tenants" in options) {
+        await options.tenants.disconnect(teacher.teacherId); // Also deletes the tokens
+      } else {
+        await auth.clearCredentials();
+      }
+      res.json({ revoked: Boolean(token) });
+    } catch (error) {
+      console.error("Error revoking Google tokens:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+}
+
+function mountSharedServer(app: Express, services: Services): void {
+  app.post("/mcp", async (req: Request, res: Response) => {
+    try {
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: undefined,
+      });
+
+      res.on("close", () => {
+        transport.close();
+      });
+
+      const server = getServer(services);
+      await server.connect(transport);
+
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      console.error("Error handling MCP request:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, "Internal server error");
+      }
+    }
+  });
+
+  app.get("/mcp", async (req: Request, res: Response) => {
+    console.log("Received GET MCP request");
+    res.writeHead(405).end(
+      JSON.stringify({
+        jsonrpc: "2.0",
+        error: {
+          code: -32000,
+          message: "Method not allowed.",
+        },
+        id: null,
+      }),
+    );
+  });
+
+  app.delete("/mcp", async (req: Request, res: Response) => {
+    console.log("Received GET MCP request");
+    res.writeHead(405).end(
+      JSON.stringify({
+        jsonrpc: "2.0",
+        error: {
+          code: -32000,
+          message: "Method not allowed.",
+        },
+        id: null,
+      }),
+    );
+  });
+}
+
+function mountTeacherSessions(app: Express, tenants: Tenants): void {
+  const sessions = new Map<string, TeacherSession>(); // By MCP session ID
+
+  const authenticate = async (req: Request, res: Response): Promise<Teacher | null> => {
+    const teacher = await tenants.authenticate(bearerToken(req));
+    if (!teacher) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+      sendJsonRpcError(res, 401, -32001, "Unauthorized: send your teacher access key as a bearer token");
+    }
+    return teacher;
+  };
+
+  // The session named in the request, if it exists and belongs to the teacher
+  const findSession = (req: Request, res: Response, teacher: Teacher): TeacherSession | null => {
+    const sessionId = req.headers["mcp-session-id"];
+    const session = typeof sessionId === "string" ? sessions.get(sessionId) : undefined;
+    if (!session) {
+      sendJsonRpcError(res, 404, -32001, "Session not found");
+      return null;
+    }
+    if (session.teacherId !== teacher.teacherId) {
+      sendJsonRpcError(res, 403, -32001, "Forbidden: the session belongs to another teacher");
+      return null;
+    }
+    return session;
+  };
+
+  app.post("/mcp", async (req: Request, res: Response) => {
+    try {
+      const teacher = await authenticate(req, res);
+      if (!teacher) return;
+
+      if (req.headers["mcp-session-id"]) {
+        const session = findSession(req, res, teacher);
+        if (session) {
+          await session.transport.handleRequest(req, res, req.body);
+        }
+        return;
+      }
+
+      if (!isInitializeRequest(req.body)) {
+        sendJsonRpcError(res, 400, -32000, "Bad Request: no valid session ID provided");
+        return;
+      }
+
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (sessionId) => {
+          sessions.set(sessionId, { teacherId: teacher.teacherId, transport });
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          sessions.delete(transport.sessionId);
+        }
+      };
+
+      const server = getServer(tenants.servicesFor(teacher.teacherId));
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+
+      tenants.registry.touch(teacher.teacherId).catch((error) => {
+        console.error(`Failed to record activity of teacher ${teacher.teacherId}:`, error);
+      });
+    } catch (error) {
+      console.error("Error handling MCP request:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, "Internal server error");
+      }
+    }
+  });
+
+  // Server-sent events (GET) and session termination (DELETE) of an open session
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    try {
+      const teacher = await authenticate(req, res);
+      if (!teacher) return;
+
+      const session = findSession(req, res, teacher);
+      if (session) {
+        await session.transport.handleRequest(req, res);
+      }
+    } catch (error) {
+      console.error("Error handling MCP request:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, "Internal server error");
+      }
+    }
+  };
+
+  app.get("/mcp", handleSessionRequest);
+  app.delete("/mcp", handleSessionRequest);
+}
@@ -195,4 +195,7 @@ export class BriaClient {
       return prompt; // Return original if enhancement fails
     }
   }
-}
\ No newline at end of file
+}
+
+// Worksheet illustrations; without BRIA_API_KEY createServices puts an unconfigured provider here
+export type BriaClientApi = Pick<BriaClient, keyof BriaClient>;
@@ -4,4 +4,3 @@
 
 export * from './types.js';
 export * from './client.js';
-export { getBriaClient, initializeBriaClient } from './service.js';
\ No newline at end of file
@@ -1,24 +1,22 @@
 import { google, classroom_v1, drive_v3 } from 'googleapis';
-import { AuthManager } from '../auth/authManager.js';
+import type { AuthManager } from '../auth/authManager.js';
 import axios from 'axios';
 import fs from 'fs/promises';
 import path from 'path';
 
 export class ClassroomClient {
-  private static instance: ClassroomClient;
   private classroom: classroom_v1.Classroom | null = null;
   private drive: drive_v3.Drive | null = null;
-  private authManager: AuthManager;
 
-  private constructor() {
-    this.authManager = AuthManager.getInstance();
-  }
+  constructor(private authManager: AuthManager) {}
 
-  static getInstance(): ClassroomClient {
-    if (!ClassroomClient.instance) {
-      ClassroomClient.instance = new ClassroomClient();
-    }
-    return ClassroomClient.instance;
+  /**
+   * Uses the given API clients instead of authenticating with Google, e.g. the
+   * in-memory fakes from src/testing.
+   */
+  setApiClients(classroom: classroom_v1.Classroom, drive: drive_v3.Drive): void {
+    this.classroom = classroom;
+    this.drive = drive;
   }
 
   async getClient(): Promise<classroom_v1.Classroom> {
@@ -254,8 +252,9 @@ export class ClassroomClient {
 
     let feedbackAdded = false;
 
-    // Add feedback as a private comment if provided
-    if (feedback) {
+    // Add feedback as a private comment if provided. A draft grade stays
+    // hidden, so the submission is not returned to the student yet
+    if (feedback && !isDraft) {
       try {
         // First, ensure the submission is in RETURNED state to add teacher comments
         const currentSubmission = response.data;
@@ -320,30 +319,37 @@ export class ClassroomClient {
       const fileName = fileMetadata.data.name || 'unknown';
       const mimeType = fileMetadata.data.mimeType || '';
 
+      // Google Docs, Slides and Sheets have no binary content and are exported as PDF instead
+      const isWorkspaceFile = mimeType.startsWith('application/vnd.google-apps.');
+      if (isWorkspaceFile && !outputPath.toLowerCase().endsWith('.pdf')) {
+        outputPath = `${outputPath}.pdf`;
+      }
+
       // Ensure output directory exists
       await fs.mkdir(path.dirname(outputPath), { recursive: true });
 
       // Download the file
-      const response = await drive.files.get(
-        { fileId, alt: 'media' },
-        { responseType: 'stream' }
-      );
-
-      // Save to file
-      const dest = await fs.open(outputPath, 'w');
-      const writeStream = dest.createWriteStream();
+      const response = isWorkspaceFile
+        ? await drive.files.export(
+          { fileId, mimeType: 'application/pdf' },
+          { responseType: 'stream' }
+        )
+        : await drive.files.get(
+          { fileId, alt: 'media' },
+          { responseType: 'stream' }
+        );
+
+      // Save to file; the download ends before the last bytes are written, so wait for the file
+      const writer = (await fs.open(outputPath, 'w')).createWriteStream();
+      response.data.pipe(writer);
 
       return new Promise((resolve, reject) => {
-        response.data
-          .on('end', async () => {
-            await dest.close();
-            resolve(outputPath);
-          })
-          .on('error', async (error: any) => {
-            await dest.close();
-            reject(error);
-          })
-          .pipe(writeStream);
+        response.data.on('error', (error: Error) => {
+          writer.destroy();
+          reject(error);
+        });
+        writer.on('finish', () => resolve(outputPath));
+        writer.on('error', reject);
       });
     } catch (error) {
       console.error(`Error downloading file ${fileId}:`, error);
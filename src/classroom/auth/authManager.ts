@@ -1,11 +1,12 @@
 import { google } from 'googleapis';
-import { OAuth2Client } from 'google-auth-library';
+import { OAuth2Client, type Credentials } from 'google-auth-library';
 import fs from 'fs/promises';
 import path from 'path';
 import { authenticate } from '@google-cloud/local-auth';
 import http from 'http';
 import url from 'url';
 import crypto from 'crypto';
+import { TokenStore } from './tokenStore.js';
 
 const TOKEN_PATH = path.join(process.cwd(), 'tokens.json');
 const CREDENTIALS_PATH = path.join(process.cwd(), 'credentials.json');
@@ -14,31 +15,122 @@ const CREDENTIALS_PATH = path.join(process.cwd(), 'credentials.json');
 const GOOGLE_TOKENS = process.env.GOOGLE_TOKENS;
 const GOOGLE_CREDENTIALS = process.env.GOOGLE_CREDENTIALS;
 
+const DEFAULT_REDIRECT_URI = 'http://localhost:3000/auth/google/callback';
+
+export const GOOGLE_SCOPES = [
+  'https://www.googleapis.com/auth/classroom.courses.readonly',
+  'https://www.googleapis.com/auth/classroom.announcements.readonly',
+  'https://www.googleapis.com/auth/classroom.coursework.students.readonly',
+  'https://www.googleapis.com/auth/classroom.coursework.students',
+  'https://www.googleapis.com/auth/classroom.rosters.readonly',
+  'https://www.googleapis.com/auth/classroom.announcements',
+  'https://www.googleapis.com/auth/drive.readonly',
+  'https://www.googleapis.com/auth/drive.file',
+];
+
+export interface AuthManagerOptions {
+  tokenPath?: string; // Default: tokens.json in the working directory
+  useEnvTokens?: boolean; // Whether GOOGLE_TOKENS replaces the token file. Default: true
+}
+
+export interface TokenStatus {
+  connected: boolean;
+  source: 'env' | 'file' | 'none'; // GOOGLE_TOKENS, the token file, or no tokens
+  encrypted: boolean; // Whether the token file is encrypted
+  hasRefreshToken: boolean;
+  expiresAt?: string; // Of the current access token
+  scopes?: string[];
+}
+
+interface OAuthClientCredentials {
+  clientId?: string;
+  clientSecret?: string;
+  redirectUri: string;
+}
+
+/**
+ * Reads the OAuth client ID and secret from GOOGLE_CREDENTIALS or credentials.json.
+ */
+export async function loadClientCredentials(): Promise<OAuthClientCredentials> {
+  let clientId: string | undefined;
+  let clientSecret: string | undefined;
+  let redirectUri: string | undefined;
+  
+  if (GOOGLE_CREDENTIALS) {
+    try {
+      const credentials = JSON.parse(GOOGLE_CREDENTIALS).web;
+      clientId = credentials.client_id;
+      clientSecret = credentials.client_secret;
+      redirectUri = credentials.redirect_uris?.[0];
+    } catch (error) {
+      console.error('Warning: Could not parse GOOGLE_CREDENTIALS env variable');
+    }
+  } else {
+    try {
+      const credentialsContent = await fs.readFile(CREDENTIALS_PATH, 'utf-8');
+      const credentials = JSON.parse(credentialsContent).web;
+      clientId = credentials.client_id;
+      clientSecret = credentials.client_secret;
+      redirectUri = credentials.redirect_uris?.[0];
+    } catch (error) {
+      console.error('Warning: Could not read credentials for client ID/secret');
+    }
+  }
+
+  return { clientId, clientSecret, redirectUri: redirectUri || DEFAULT_REDIRECT_URI };
+}
+
+/**
+ * Creates an OAuth client for the configured Google credentials, signed in
+ * with the given tokens.
+ */
+export async function createOAuthClient(tokens: Credentials): Promise<OAuth2Client> {
+  const { clientId, clientSecret, redirectUri } = await loadClientCredentials();
+  const auth = new google.auth.OAuth2(clientId, clientSecret, redirectUri);
+  auth.setCredentials(tokens);
+  return auth;
+}
+
+function hasTokens(tokens: Credentials): boolean {
+  return Boolean(tokens.access_token || tokens.refresh_token);
+}
+
+/**
+ * Google sign-in for one account: the process-wide tokens.json or
+ * GOOGLE_TOKENS by default, or a teacher's own token file.
+ */
 export class AuthManager {
-  private static instance: AuthManager;
   private authClient: OAuth2Client | null = null;
+  private tokenStore: TokenStore;
+  private envTokens: string | undefined;
 
-  private readonly SCOPES = [
-    'https://www.googleapis.com/auth/classroom.courses.readonly',
-    'https://www.googleapis.com/auth/classroom.announcements.readonly',
-    'https://www.googleapis.com/auth/classroom.coursework.students.readonly',
-    'https://www.googleapis.com/auth/classroom.coursework.students',
-    'https://www.googleapis.com/auth/classroom.rosters.readonly',
-    'https://www.googleapis.com/auth/classroom.announcements',
-    'https://www.googleapis.com/auth/drive.readonly',
-    'https://www.googleapis.com/auth/drive.file',
-  ];
-
-  private constructor() {}
-
-  static getInstance(): AuthManager {
-    if (!AuthManager.instance) {
-      AuthManager.instance = new AuthManager();
-    }
-    return AuthManager.instance;
+  constructor(options: AuthManagerOptions = {}) {
+    this.tokenStore = new TokenStore(options.tokenPath || TOKEN_PATH);
+    this.envTokens = options.useEnvTokens === false ? undefined : GOOGLE_TOKENS;
   }
 
   async authenticateAndSaveCredentials(): Promise<OAuth2Client> {
+    const auth = await this.authorize();
+
+    // Save tokens to file if not using env variable
+    if (!this.envTokens) {
+      await this.saveTokens(auth.credentials);
+      console.error(`Authentication successful, credentials saved to ${path.basename(this.tokenStore.filePath)}`);
+    } else {
+      console.error('Authentication successful! Add this to your environment variables:');
+      console.error('GOOGLE_TOKENS=' + JSON.stringify(auth.credentials));
+      this.authClient = auth;
+      this.setupTokenRefreshHandler(auth);
+    }
+
+    return auth;
+  }
+
+  /**
+   * Asks the user to sign in with Google in the browser and returns a client
+   * with the new tokens, without saving them.
+   */
+  async authorize(): Promise<OAuth2Client> {
     console.error('Starting authentication process...');
 
     let credentialsContent: string;
@@ -70,7 +162,7 @@ export class AuthManager {
     // Generate auth URL
     const authUrl = oauth2Client.generateAuthUrl({
       access_type: 'offline',
-      scope: this.SCOPES,
+      scope: GOOGLE_SCOPES,
       prompt: 'consent',
     });
 
@@ -78,21 +170,29 @@ export class AuthManager {
     console.log('\n' + authUrl + '\n');
 
     // Create local server to handle callback
-    const auth = await this.waitForAuthorizationCode(oauth2Client, credentials.redirect_uris[0]);
+    return this.waitForAuthorizationCode(oauth2Client, credentials.redirect_uris[0]);
+  }
 
-    // Save tokens to file if not using env variable
-    if (!GOOGLE_TOKENS) {
-      await fs.writeFile(TOKEN_PATH, JSON.stringify(auth.credentials));
-      console.error('Authentication successful, credentials saved to tokens.json');
+  /**
+   * Stores the tokens in the token file and signs in with them.
+   */
+  async saveTokens(tokens: Credentials): Promise<void> {
+    await this.tokenStore.save(tokens);
+    await this.signIn(tokens);
+  }
+
+  /**
+   * Keeps one OAuth client for the lifetime of the manager, so the API
+   * clients built on it follow later sign-ins and sign-outs.
+   */
+  private async signIn(tokens: Credentials): Promise<OAuth2Client> {
+    if (this.authClient) {
+      this.authClient.setCredentials(tokens);
     } else {
-      console.error('Authentication successful! Add this to your environment variables:');
-      console.error('GOOGLE_TOKENS=' + JSON.stringify(auth.credentials));
+      this.authClient = await createOAuthClient(tokens);
+      this.setupTokenRefreshHandler(this.authClient);
     }
-
-    this.authClient = auth;
-    this.setupTokenRefreshHandler(auth);
-
-    return auth;
+    return this.authClient;
   }
 
   private async waitForAuthorizationCode(oauth2Client: OAuth2Client, redirectUri: string): Promise<OAuth2Client> {
@@ -137,7 +237,7 @@ export class AuthManager {
   }
 
   async getAuthClient(): Promise<OAuth2Client> {
-    if (this.authClient) {
+    if (this.authClient && hasTokens(this.authClient.credentials)) {
       // Check if token needs refresh (expires in less than 5 minutes)
       const credentials = this.authClient.credentials;
       if (credentials.expiry_date) {
@@ -150,9 +250,8 @@ export class AuthManager {
           try {
             await this.authClient.refreshAccessToken();
             // Save refreshed tokens only if using file storage
-            if (!GOOGLE_TOKENS) {
-              const newTokens = this.authClient.credentials;
-              await fs.writeFile(TOKEN_PATH, JSON.stringify(newTokens));
+            if (!this.envTokens) {
+              await this.tokenStore.save(this.authClient.credentials);
             }
           } catch (error) {
             console.error('Failed to refresh token:', error);
@@ -163,63 +262,15 @@ export class AuthManager {
       return this.authClient;
     }
 
-    let tokens: any;
-    
-    // Try environment variable first, then file
-    if (GOOGLE_TOKENS) {
-      try {
-        tokens = JSON.parse(GOOGLE_TOKENS);
-      } catch (error) {
-        throw new Error('Invalid GOOGLE_TOKENS environment variable. Must be valid JSON.');
-      }
-    } else {
-      try {
-        await fs.access(TOKEN_PATH);
-        tokens = JSON.parse(await fs.readFile(TOKEN_PATH, 'utf-8'));
-      } catch {
-        throw new Error(
-          'Authentication required. Set GOOGLE_TOKENS env variable or run "npm run auth" to authenticate.'
-        );
-      }
-    }
-
-    // Get client_id and client_secret from env variable or file
-    let clientId: string | undefined;
-    let clientSecret: string | undefined;
-    let redirectUri: string | undefined;
-    
-    if (GOOGLE_CREDENTIALS) {
-      try {
-        const credentials = JSON.parse(GOOGLE_CREDENTIALS).web;
-        clientId = credentials.client_id;
-        clientSecret = credentials.client_secret;
-        redirectUri = credentials.redirect_uris?.[0] || 'http://localhost:3000/auth/google/callback';
-      } catch (error) {
-        console.error('Warning: Could not parse GOOGLE_CREDENTIALS env variable');
-      }
-    } else {
-      try {
-        const credentialsContent = await fs.readFile(CREDENTIALS_PATH, 'utf-8');
-        const credentials = JSON.parse(credentialsContent).web;
-        clientId = credentials.client_id;
-        clientSecret = credentials.client_secret;
-        redirectUri = credentials.redirect_uris?.[0] || 'http://localhost:3000/auth/google/callback';
-      } catch (error) {
-        console.error('Warning: Could not read credentials for client ID/secret');
-      }
+    const tokens = await this.getStoredTokens();
+    if (!tokens) {
+      throw new Error(this.tokenStore.filePath === TOKEN_PATH
+        ? 'Authentication required. Set GOOGLE_TOKENS env variable, run "npm run auth" or open /auth/google/start on the server to authenticate.'
+        : 'No Google account is connected. Open /auth/google/start on the server or run "npm run auth -- --teacher" to connect one.'
+      );
     }
 
-    const auth = new google.auth.OAuth2(
-      clientId,
-      clientSecret,
-      redirectUri || 'http://localhost:3000/auth/google/callback'
-    );
-    auth.setCredentials(tokens);
-
-    this.setupTokenRefreshHandler(auth);
-    this.authClient = auth;
-
-    return auth;
+    return this.signIn(tokens);
   }
 
   private setupTokenRefreshHandler(auth: OAuth2Client): void {
@@ -227,9 +278,9 @@ export class AuthManager {
       console.error('Refreshing authentication tokens...');
 
       // Only save to file if not using environment variable
-      if (!GOOGLE_TOKENS) {
+      if (!this.envTokens) {
         try {
-          const existingCredentials = JSON.parse(await fs.readFile(TOKEN_PATH, 'utf-8'));
+          const existingCredentials = await this.tokenStore.load() || {};
 
           if (tokens.refresh_token) {
             existingCredentials.refresh_token = tokens.refresh_token;
@@ -240,7 +291,7 @@ export class AuthManager {
             existingCredentials.expiry_date = tokens.expiry_date;
           }
 
-          await fs.writeFile(TOKEN_PATH, JSON.stringify(existingCredentials));
+          await this.tokenStore.save(existingCredentials);
           console.error('Tokens refreshed and saved successfully');
         } catch (error) {
           console.error('Error saving refreshed tokens:', error);
@@ -253,9 +304,9 @@ export class AuthManager {
 
   async isAuthenticated(): Promise<boolean> {
     // Check env variable first
-    if (GOOGLE_TOKENS) {
+    if (this.envTokens) {
       try {
-        JSON.parse(GOOGLE_TOKENS);
+        JSON.parse(this.envTokens);
         return true;
       } catch {
         return false;
@@ -263,18 +314,45 @@ export class AuthManager {
     }
     
     // Then check file
-    try {
-      await fs.access(TOKEN_PATH);
-      return true;
-    } catch {
-      return false;
+    return this.tokenStore.exists();
+  }
+
+  /**
+   * The tokens from GOOGLE_TOKENS or the token file, or null if there are none.
+   */
+  async getStoredTokens(): Promise<Credentials | null> {
+    if (this.envTokens) {
+      try {
+        return JSON.parse(this.envTokens);
+      } catch (error) {
+        throw new Error('Invalid GOOGLE_TOKENS environment variable. Must be valid JSON.');
+      }
     }
+    return this.tokenStore.load();
+  }
+
+  async getTokenStatus(): Promise<TokenStatus> {
+    const tokens = this.authClient && hasTokens(this.authClient.credentials)
+      ? this.authClient.credentials
+      : await this.getStoredTokens();
+    if (!tokens) {
+      return { connected: false, source: 'none', encrypted: false, hasRefreshToken: false };
+    }
+
+    return {
+      connected: true,
+      source: this.envTokens ? 'env' : 'file',
+      encrypted: !this.envTokens && this.tokenStore.encrypted,
+      hasRefreshToken: Boolean(tokens.refresh_token),
+      expiresAt: tokens.expiry_date ? new Date(tokens.expiry_date).toISOString() : undefined,
+      scopes: tokens.scope?.split(' ')
+    };
   }
 
   async clearCredentials(): Promise<void> {
     try {
-      await fs.unlink(TOKEN_PATH);
-      this.authClient = null;
+      await this.tokenStore.clear();
+      this.authClient?.setCredentials({});
       console.error('Credentials cleared successfully');
     } catch (error) {
       console.error('Error clearing credentials:', error);
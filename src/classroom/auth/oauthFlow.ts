@@ -0,0 +1,49 @@
+import { google } from 'googleapis';
+import type { Credentials } from 'google-auth-library';
+import { GOOGLE_SCOPES, loadClientCredentials } from './authManager.js';
+
+/**
+ * The Google side of the web sign-in: the consent page a teacher is sent to,
+ * and the exchange of the code Google sends back for tokens.
+ */
+export interface OAuthFlow {
+  authUrl(state: string): Promise<string>;
+  exchangeCode(code: string): Promise<Credentials>;
+  revokeToken(token: string): Promise<void>;
+}
+
+/**
+ * The flow for the configured OAuth client (GOOGLE_CREDENTIALS or
+ * credentials.json). Google redirects back to the client's first redirect
+ * URI, which must point at /auth/google/callback on this server.
+ */
+export const googleOAuthFlow: OAuthFlow = {
+  async authUrl(state) {
+    const client = await createClient();
+    return client.generateAuthUrl({
+      access_type: 'offline',
+      scope: GOOGLE_SCOPES,
+      prompt: 'consent',
+      state,
+    });
+  },
+
+  async exchangeCode(code) {
+    const client = await createClient();
+    const { tokens } = await client.getToken(code);
+    return tokens;
+  },
+
+  async revokeToken(token) {
+    const client = await createClient();
+    await client.revokeToken(token);
+  },
+};
+
+async function createClient() {
+  const { clientId, clientSecret, redirectUri } = await loadClientCredentials();
+  if (!clientId || !clientSecret) {
+    throw new Error('Google credentials not found. Set GOOGLE_CREDENTIALS env variable or save credentials.json file');
+  }
+  return new google.auth.OAuth2(clientId, clientSecret, redirectUri);
+}
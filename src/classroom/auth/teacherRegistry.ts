@@ -0,0 +1,128 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { google } from 'googleapis';
+import type { Credentials } from 'google-auth-library';
+import type { StorageDocument, StorageProvider } from '../storage/storageBackend.js';
+
+const TEACHERS_VERSION = 1;
+
+export interface Teacher {
+  teacherId: string; // Google Classroom user ID, also the teacher's storage namespace
+  name: string;
+  email?: string;
+  accessKeyHash: string; // SHA-256 of the access key; the key itself is only shown once
+  connectedAt: string;
+  lastSeenAt?: string;
+}
+
+export interface TeacherProfile {
+  teacherId: string;
+  name: string;
+  email?: string;
+}
+
+interface StorageData {
+  version?: number;
+  teachers: Record<string, Teacher>; // By teacher ID
+}
+
+const TEACHER_STORAGE: StorageDocument<StorageData> = {
+  name: 'teachers',
+  version: TEACHERS_VERSION,
+  create: () => ({ version: TEACHERS_VERSION, teachers: {} })
+};
+
+function hashAccessKey(accessKey: string): string {
+  return createHash('sha256').update(accessKey).digest('hex');
+}
+
+/**
+ * Looks up the Google account that fresh sign-in tokens belong to. Only the
+ * access token is used, so no client secret is needed.
+ */
+export async function fetchTeacherProfile(tokens: Credentials): Promise<TeacherProfile> {
+  const auth = new google.auth.OAuth2();
+  auth.setCredentials(tokens);
+  const classroom = google.classroom({ version: 'v1', auth });
+  const { data } = await classroom.userProfiles.get({ userId: 'me' });
+  if (!data.id) {
+    throw new Error('Google did not return a user ID for the signed-in account');
+  }
+  return {
+    teacherId: data.id,
+    name: data.name?.fullName || data.emailAddress || data.id,
+    email: data.emailAddress || undefined
+  };
+}
+
+/**
+ * The teachers who connected their Google account to a multi-teacher
+ * deployment. Each one gets an access key that their MCP client sends as
+ * a bearer token; only its hash is stored.
+ */
+export class TeacherRegistry {
+  constructor(private storage: StorageProvider) {}
+
+  private async read(): Promise<StorageData> {
+    return (await this.storage()).read(TEACHER_STORAGE);
+  }
+
+  private async update<R>(mutate: (data: StorageData) => R): Promise<R> {
+    return (await this.storage()).update(TEACHER_STORAGE, mutate);
+  }
+
+  /**
+   * Adds the teacher, or updates their name and email, and issues a new
+   * access key. Any earlier key of the teacher stops working.
+   */
+  async register(profile: TeacherProfile): Promise<{ teacher: Teacher; accessKey: string; }> {
+    const accessKey = randomBytes(32).toString('base64url');
+    const teacher = await this.update(data => {
+      const teacher: Teacher = {
+        ...data.teachers[profile.teacherId],
+        ...profile,
+        accessKeyHash: hashAccessKey(accessKey),
+        connectedAt: new Date().toISOString()
+      };
+      data.teachers[profile.teacherId] = teacher;
+      return teacher;
+    });
+    return { teacher, accessKey };
+  }
+
+  async findByAccessKey(accessKey: string): Promise<Teacher | null> {
+    const hash = Buffer.from(hashAccessKey(accessKey));
+    const data = await this.read();
+    return Object.values(data.teachers).find(teacher =>
+      timingSafeEqual(Buffer.from(teacher.accessKeyHash), hash)
+    ) || null;
+  }
+
+  async getTeacher(teacherId: string): Promise<Teacher | null> {
+    const data = await this.read();
+    return data.teachers[teacherId] || null;
+  }
+
+  async listTeachers(): Promise<Teacher[]> {
+    const data = await this.read();
+    return Object.values(data.teachers).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async touch(teacherId: string): Promise<void> {
+    await this.update(data => {
+      const teacher = data.teachers[teacherId];
+      if (teacher) {
+        teacher.lastSeenAt = new Date().toISOString();
+      }
+    });
+  }
+
+  async removeTeacher(teacherId: string): Promise<boolean> {
+    return this.update(data => {
+      if (!data.teachers[teacherId]) {
+        return false;
+      }
+      delete data.teachers[teacherId];
+      return true;
+    });
+  }
+}
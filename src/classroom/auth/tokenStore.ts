@@ -0,0 +1,78 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { Credentials } from 'google-auth-library';
+import { Encryption, decryptIfSealed, getEncryption } from '../../security/encryption.js';
+import { resealFile, writeEncryptedFile } from '../../security/encryptedFiles.js';
+
+function isErrorCode(error: unknown, code: string): boolean {
+  return (error as NodeJS.ErrnoException)?.code === code;
+}
+
+/**
+ * A Google token file, encrypted with ENCRYPTION_KEY when one is configured.
+ * Plaintext files from before encryption are still read, and encrypted the
+ * first time they are loaded with a key configured.
+ */
+export class TokenStore {
+  constructor(readonly filePath: string, private encryption: Encryption | null = getEncryption()) {}
+
+  get encrypted(): boolean {
+    return this.encryption !== null;
+  }
+
+  async exists(): Promise<boolean> {
+    try {
+      await fs.access(this.filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Returns null when there is no token file.
+   */
+  async load(): Promise<Credentials | null> {
+    let content: Buffer;
+    try {
+      content = await fs.readFile(this.filePath);
+    } catch (error) {
+      if (isErrorCode(error, 'ENOENT')) return null;
+      throw error;
+    }
+
+    const tokens: Credentials = JSON.parse(
+      decryptIfSealed(content, this.encryption, path.basename(this.filePath)).toString('utf-8')
+    );
+    if (this.encryption && !Encryption.isSealed(content)) {
+      await this.save(tokens);
+      console.error(`Encrypted ${path.basename(this.filePath)} with ENCRYPTION_KEY`);
+    }
+    return tokens;
+  }
+
+  async save(tokens: Credentials): Promise<void> {
+    await writeEncryptedFile(this.filePath, JSON.stringify(tokens), this.encryption);
+  }
+
+  /**
+   * Encrypts the token file with the current key. Returns false if there is
+   * no token file or it needed no change.
+   */
+  async reseal(): Promise<boolean> {
+    return await this.exists() && resealFile(this.filePath, this.encryption);
+  }
+
+  /**
+   * Deletes the token file. Returns false if there was none.
+   */
+  async clear(): Promise<boolean> {
+    try {
+      await fs.unlink(this.filePath);
+      return true;
+    } catch (error) {
+      if (isErrorCode(error, 'ENOENT')) return false;
+      throw error;
+    }
+  }
+}
@@ -1,5 +1,11 @@
 // Main exports for Google Classroom integration
 export { AuthManager } from './auth/authManager.js';
+export type { AuthManagerOptions, TokenStatus } from './auth/authManager.js';
+export { TokenStore } from './auth/tokenStore.js';
+export { googleOAuthFlow } from './auth/oauthFlow.js';
+export type { OAuthFlow } from './auth/oauthFlow.js';
+export { TeacherRegistry, fetchTeacherProfile } from './auth/teacherRegistry.js';
+export type { Teacher, TeacherProfile } from './auth/teacherRegistry.js';
 export { ClassroomClient } from './api/classroomClient.js';
 export { ClassroomService } from './services/classroomService.js';
 export type {
@@ -12,7 +18,12 @@ export type {
 
 // Storage management
 export { StudentNotesManager } from './storage/studentNotesManager.js';
+export { StudentProfileManager } from './storage/studentProfileManager.js';
 export { WorksheetStorageManager } from './storage/worksheetStorageManager.js';
+export { GradingReviewManager } from './storage/gradingReviewManager.js';
+export { GradingHistoryManager } from './storage/gradingHistoryManager.js';
+export { getStorageBackend, getStorageDirectory, namespacedStorage } from './storage/storage.js';
+export type { StorageBackend, StorageDocument, StorageProvider } from './storage/storageBackend.js';
 
 // Export all tools
 export * from './tools/index.js';
\ No newline at end of file
@@ -1,9 +1,9 @@
-import { ClassroomClient } from '../api/classroomClient.js';
+import type { ClassroomClient } from '../api/classroomClient.js';
 import { classroom_v1, drive_v3 } from 'googleapis';
 import fs from 'fs/promises';
 import path from 'path';
-import { StudentNotesManager } from '../storage/studentNotesManager.js';
-import { WorksheetStorageManager } from '../storage/worksheetStorageManager.js';
+import type { StudentNotesManager } from '../storage/studentNotesManager.js';
+import type { WorksheetStorageManager } from '../storage/worksheetStorageManager.js';
 
 export interface StudentWithNote {
   student: classroom_v1.Schema$Student;
@@ -45,23 +45,11 @@ export interface WorksheetAssignmentResult {
 }
 
 export class ClassroomService {
-  private static instance: ClassroomService;
-  public client: ClassroomClient;
-  private notesManager: StudentNotesManager;
-  private worksheetStorage: WorksheetStorageManager;
-
-  private constructor() {
-    this.client = ClassroomClient.getInstance();
-    this.notesManager = StudentNotesManager.getInstance();
-    this.worksheetStorage = WorksheetStorageManager.getInstance();
-  }
-
-  static getInstance(): ClassroomService {
-    if (!ClassroomService.instance) {
-      ClassroomService.instance = new ClassroomService();
-    }
-    return ClassroomService.instance;
-  }
+  constructor(
+    public client: ClassroomClient,
+    private notesManager: StudentNotesManager,
+    private worksheetStorage: WorksheetStorageManager
+  ) {}
 
   async getAllCourses(): Promise<classroom_v1.Schema$Course[]> {
     const courses: classroom_v1.Schema$Course[] = [];
@@ -254,12 +242,14 @@ export class ClassroomService {
     assignment: classroom_v1.Schema$CourseWork;
     materials: classroom_v1.Schema$Material[];
     downloadedFiles: string[];
+    materialFiles: Array<{ title: string; path: string }>;
   }> {
     const assignment = await this.client.getCourseWork(courseId, assignmentId);
 
     // Extract materials/attachments from the assignment
     const materials = assignment.materials || [];
     const downloadedFiles: string[] = [];
+    const materialFiles: Array<{ title: string; path: string }> = [];
 
     // Create download directory structure
     const assignmentDir = path.join(
@@ -280,6 +270,7 @@ export class ClassroomService {
 
           const downloadedPath = await this.client.downloadFile(fileId, outputPath);
           downloadedFiles.push(downloadedPath);
+          materialFiles.push({ title: fileName, path: downloadedPath });
           console.log(`Downloaded assignment file: ${downloadedPath}`);
         } else if (material.link?.url) {
           // Save link information
@@ -307,7 +298,8 @@ export class ClassroomService {
     return {
       assignment,
       materials,
-      downloadedFiles
+      downloadedFiles,
+      materialFiles
     };
   }
 
@@ -739,9 +731,10 @@ export class ClassroomService {
         isDraft
       );
 
-      // If feedback wasn't added directly and it was provided, send as announcement
+      // If feedback wasn't added directly and it was provided, send as announcement.
+      // Draft grades are not visible to students, so neither is their feedback
       let feedbackSent = result.feedbackAdded;
-      if (feedback && !result.feedbackAdded) {
+      if (feedback && !result.feedbackAdded && !isDraft) {
         try {
           // Create a personalized announcement for feedback - sent only to the specific student
           const feedbackMessage = `📝 **Personal Feedback on "${assignment.title || 'Assignment'}"**\n\n` +
@@ -766,7 +759,7 @@ export class ClassroomService {
 
       const gradeType = isDraft ? 'draft' : 'final';
       const message = `Successfully set ${gradeType} grade for ${studentName}: ${grade}/${maxPoints} (${Math.round((grade / maxPoints) * 100)}%)` +
-        (feedbackSent ? ' and sent feedback' : feedback ? ' (feedback could not be sent directly)' : '');
+        (feedbackSent ? ' and sent feedback' : !feedback ? '' : isDraft ? ' (feedback is sent when the grade is assigned)' : ' (feedback could not be sent directly)');
 
       return {
         success: true,
@@ -0,0 +1,101 @@
+import { randomUUID } from 'crypto';
+import type { StorageDocument, StorageProvider } from './storageBackend.js';
+import type { GradingResult } from '../../grading/gradingService.js';
+
+export interface GradingHistoryRecord {
+  runId: string; // Shared by all results of one grading run
+  courseId?: string;
+  assignmentId: string;
+  assignmentTitle?: string;
+  studentId: string;
+  studentName: string;
+  gradedAt: string;
+  model: string;
+  overallScore: number;
+  totalPossiblePoints: number;
+  percentageScore: number;
+  sectionScores: GradingResult['sectionScores'];
+  learningRecommendations: GradingResult['learningRecommendations'];
+  questionResults?: GradingResult['questionResults'];
+}
+
+export interface GradingHistoryFilter {
+  courseId?: string;
+  assignmentId?: string;
+  studentId?: string;
+}
+
+interface StorageData {
+  version: number;
+  records: GradingHistoryRecord[];
+}
+
+const GRADING_HISTORY_STORAGE: StorageDocument<StorageData> = {
+  name: 'grading-history',
+  version: 1,
+  create: () => ({ version: 1, records: [] })
+};
+
+export class GradingHistoryManager {
+  constructor(private storage: StorageProvider) {}
+
+  private async read(): Promise<StorageData> {
+    return (await this.storage()).read(GRADING_HISTORY_STORAGE);
+  }
+
+  private async update<R>(mutate: (data: StorageData) => R): Promise<R> {
+    return (await this.storage()).update(GRADING_HISTORY_STORAGE, mutate);
+  }
+
+  /**
+   * Appends the results of one grading run. History is never overwritten, so
+   * re-grading an assignment adds a new entry to the student's trajectory.
+   */
+  async recordRun(
+    results: GradingResult[],
+    context: { courseId?: string; assignmentTitle?: string; } = {}
+  ): Promise<string> {
+    const runId = randomUUID();
+    const records: GradingHistoryRecord[] = results.map(result => ({
+      runId,
+      courseId: context.courseId,
+      assignmentId: result.assignmentId,
+      assignmentTitle: context.assignmentTitle,
+      studentId: result.userId,
+      studentName: result.userName,
+      gradedAt: result.gradedAt,
+      model: result.model,
+      overallScore: result.overallScore,
+      totalPossiblePoints: result.totalPossiblePoints,
+      percentageScore: result.percentageScore,
+      sectionScores: result.sectionScores,
+      learningRecommendations: result.learningRecommendations,
+      questionResults: result.questionResults
+    }));
+
+    await this.update(data => {
+      data.records.push(...records);
+    });
+    return runId;
+  }
+
+  /**
+   * Returns matching records, oldest first.
+   */
+  async getRecords(filter: GradingHistoryFilter = {}): Promise<GradingHistoryRecord[]> {
+    const data = await this.read();
+
+    return data.records
+      .filter(record =>
+        (!filter.courseId || record.courseId === filter.courseId) &&
+        (!filter.assignmentId || record.assignmentId === filter.assignmentId) &&
+        (!filter.studentId || record.studentId === filter.studentId)
+      )
+      .sort((a, b) => a.gradedAt.localeCompare(b.gradedAt));
+  }
+
+  async getLatestRecord(studentId: string, courseId?: string): Promise<GradingHistoryRecord | null> {
+    const records = await this.getRecords({ studentId, courseId });
+    return records[records.length - 1] || null;
+  }
+}
@@ -0,0 +1,158 @@
+import type { StorageDocument, StorageProvider } from './storageBackend.js';
+import type { GradingResult } from '../../grading/gradingService.js';
+
+export type GradingReviewStatus = 'pending' | 'approved' | 'published';
+
+export interface GradingReviewEntry {
+  courseId: string;
+  assignmentId: string;
+  assignmentTitle?: string;
+  studentId: string;
+  studentName: string;
+  status: GradingReviewStatus;
+  grade: number; // Grade that will be pushed, in assignment points
+  maxPoints: number; // Assignment maximum points in Classroom
+  feedback: string;
+  edited: boolean; // Whether the teacher changed the suggested grade or feedback
+  result: GradingResult;
+  createdAt: string;
+  updatedAt: string;
+  publishedAt?: string;
+  publishedAs?: 'draft' | 'assigned';
+}
+
+export interface GradingReviewFilter {
+  courseId?: string;
+  assignmentId?: string;
+  studentIds?: string[];
+  status?: GradingReviewStatus;
+}
+
+interface StorageData {
+  version: number;
+  entries: Record<string, GradingReviewEntry>;
+}
+
+const GRADING_REVIEW_STORAGE: StorageDocument<StorageData> = {
+  name: 'grading-review-queue',
+  version: 1,
+  create: () => ({ version: 1, entries: {} })
+};
+
+export class GradingReviewManager {
+  constructor(private storage: StorageProvider) {}
+
+  private async read(): Promise<StorageData> {
+    return (await this.storage()).read(GRADING_REVIEW_STORAGE);
+  }
+
+  private async update<R>(mutate: (data: StorageData) => R): Promise<R> {
+    return (await this.storage()).update(GRADING_REVIEW_STORAGE, mutate);
+  }
+
+  private generateKey(courseId: string, assignmentId: string, studentId: string): string {
+    return `${courseId}:${assignmentId}:${studentId}`;
+  }
+
+  private matches(entry: GradingReviewEntry, filter: GradingReviewFilter): boolean {
+    return (!filter.courseId || entry.courseId === filter.courseId) &&
+      (!filter.assignmentId || entry.assignmentId === filter.assignmentId) &&
+      (!filter.studentIds || filter.studentIds.includes(entry.studentId)) &&
+      (!filter.status || entry.status === filter.status);
+  }
+
+  /**
+   * Queues grading results for review. The suggested grade is scaled from the
+   * worksheet points to the assignment's maximum points. Re-grading a student
+   * replaces their entry and puts it back into review.
+   */
+  async addGradingResults(
+    courseId: string,
+    results: GradingResult[],
+    assignment: { title?: string; maxPoints: number; }
+  ): Promise<GradingReviewEntry[]> {
+    const now = new Date().toISOString();
+    return this.update(data => results.map(result => {
+      const key = this.generateKey(courseId, result.assignmentId, result.userId);
+      const grade = Math.round((result.percentageScore / 100) * assignment.maxPoints * 10) / 10;
+
+      const entry: GradingReviewEntry = {
+        courseId,
+        assignmentId: result.assignmentId,
+        assignmentTitle: assignment.title,
+        studentId: result.userId,
+        studentName: result.userName,
+        status: 'pending',
+        grade,
+        maxPoints: assignment.maxPoints,
+        feedback: result.overallFeedback,
+        edited: false,
+        result,
+        createdAt: data.entries[key]?.createdAt || now,
+        updatedAt: now
+      };
+      data.entries[key] = entry;
+      return entry;
+    }));
+  }
+
+  async getEntry(courseId: string, assignmentId: string, studentId: string): Promise<GradingReviewEntry | null> {
+    const data = await this.read();
+    return data.entries[this.generateKey(courseId, assignmentId, studentId)] || null;
+  }
+
+  async listEntries(filter: GradingReviewFilter = {}): Promise<GradingReviewEntry[]> {
+    const data = await this.read();
+    return Object.values(data.entries)
+      .filter(entry => this.matches(entry, filter))
+      .sort((a, b) => a.studentName.localeCompare(b.studentName));
+  }
+
+  /**
+   * Overrides the grade or feedback of a queued result. Any edit sends the
+   * entry back to pending so it has to be approved again.
+   */
+  async updateEntry(
+    courseId: string,
+    assignmentId: string,
+    studentId: string,
+    updates: { grade?: number; feedback?: string; }
+  ): Promise<GradingReviewEntry | null> {
+    return this.update(data => {
+      const entry = data.entries[this.generateKey(courseId, assignmentId, studentId)];
+      if (!entry) return null;
+
+      if (updates.grade !== undefined) {
+        if (updates.grade < 0 || updates.grade > entry.maxPoints) {
+          throw new Error(`Grade must be between 0 and ${entry.maxPoints}`);
+        }
+        entry.grade = updates.grade;
+      }
+      if (updates.feedback !== undefined) {
+        entry.feedback = updates.feedback;
+      }
+
+      entry.edited = true;
+      entry.status = 'pending';
+      entry.updatedAt = new Date().toISOString();
+      return entry;
+    });
+  }
+
+  async setStatus(entries: GradingReviewEntry[], status: GradingReviewStatus, publishedAs?: 'draft' | 'assigned'): Promise<void> {
+    const now = new Date().toISOString();
+    await this.update(data => {
+      for (const { courseId, assignmentId, studentId } of entries) {
+        const entry = data.entries[this.generateKey(courseId, assignmentId, studentId)];
+        if (!entry) continue;
+
+        entry.status = status;
+        entry.updatedAt = now;
+        if (status === 'published') {
+          entry.publishedAt = now;
+          entry.publishedAs = publishedAs;
+        }
+      }
+    });
+  }
+}
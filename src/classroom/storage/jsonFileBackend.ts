@@ -0,0 +1,161 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { StorageBackend, type VersionedData } from './storageBackend.js';
+import { Encryption, decryptIfSealed, getEncryption } from '../../security/encryption.js';
+
+// A lock older than this is left over from a crashed process and is taken over. Writers
+// wait longer than that, so a stale lock is always taken over before they give up
+const LOCK_STALE_MS = 10_000;
+const LOCK_TIMEOUT_MS = 30_000;
+const LOCK_RETRY_MS = 25;
+
+function isErrorCode(error: unknown, code: string): boolean {
+  return (error as NodeJS.ErrnoException)?.code === code;
+}
+
+/**
+ * Stores each document as <name>.json in one directory. Writes go to a
+ * temporary file that is renamed over the document, and a <name>.json.lock
+ * file serializes writers across processes. With ENCRYPTION_KEY set, the
+ * files are encrypted; plaintext files are encrypted on their next write.
+ */
+export class JsonFileBackend extends StorageBackend {
+  readonly kind = 'json' as const;
+
+  constructor(private directory: string, private encryption: Encryption | null = getEncryption()) {
+    super();
+  }
+
+  private filePath(name: string): string {
+    return path.join(this.directory, `${name}.json`);
+  }
+
+  protected async readRaw(name: string): Promise<VersionedData | null> {
+    let content: string;
+    try {
+      content = decryptIfSealed(await fs.readFile(this.filePath(name)), this.encryption, this.filePath(name)).toString('utf-8');
+    } catch (error) {
+      if (isErrorCode(error, 'ENOENT')) return null;
+      throw error;
+    }
+
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      throw new Error(`${this.filePath(name)} is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`);
+    }
+  }
+
+  protected async transact<R>(
+    name: string,
+    change: (current: VersionedData | null) => Promise<{ data: VersionedData; result: R; }>
+  ): Promise<R> {
+    const release = await this.acquireLock(name);
+    try {
+      const { data, result } = await change(await this.readRaw(name));
+      const content = JSON.stringify(data, null, 2);
+      await this.writeAtomically(this.filePath(name), this.encryption ? this.encryption.seal(content) : content);
+      return result;
+    } finally {
+      await release();
+    }
+  }
+
+  /**
+   * The directory may be shared with other JSON files (package.json,
+   * credentials.json), but only documents written by a backend are encrypted
+   * or carry a numeric schema version. An encrypted file that cannot be
+   * opened fails the listing, so a key rotation never leaves it behind.
+   */
+  protected async listDocuments(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if (isErrorCode(error, 'ENOENT')) return [];
+      throw error;
+    }
+
+    const names: string[] = [];
+    for (const file of files.filter(file => file.endsWith('.json')).sort()) {
+      const name = file.slice(0, -'.json'.length);
+      let content: Buffer;
+      try {
+        content = await fs.readFile(this.filePath(name));
+      } catch (error) {
+        if (isErrorCode(error, 'ENOENT')) continue;
+        throw error;
+      }
+
+      if (Encryption.isSealed(content)) {
+        await this.readRaw(name);
+        names.push(name);
+        continue;
+      }
+
+      // Plaintext needs no key, so a file that is not JSON can be skipped without losing it
+      let data: VersionedData | null;
+      try {
+        data = JSON.parse(content.toString('utf-8'));
+      } catch {
+        console.warn(`Skipping ${this.filePath(name)}: not valid JSON`);
+        continue;
+      }
+      if (data && typeof data === 'object' && typeof data.version === 'number') {
+        names.push(name);
+      }
+    }
+    return names;
+  }
+
+  async close(): Promise<void> {
+    // Nothing is kept open between transactions
+  }
+
+  private async writeAtomically(filePath: string, content: Buffer | string): Promise<void> {
+    const tempPath = `${filePath}.${randomUUID()}.tmp`;
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(content);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    try {
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  private async acquireLock(name: string): Promise<() => Promise<void>> {
+    const lockPath = `${this.filePath(name)}.lock`;
+    const startedAt = Date.now();
+    await fs.mkdir(this.directory, { recursive: true });
+
+    for (;;) {
+      try {
+        const handle = await fs.open(lockPath, 'wx');
+        await handle.writeFile(`${process.pid} ${new Date().toISOString()}`);
+        await handle.close();
+        return () => fs.rm(lockPath, { force: true });
+      } catch (error) {
+        if (!isErrorCode(error, 'EEXIST')) throw error;
+      }
+
+      const lockAge = await fs.stat(lockPath).then(stat => Date.now() - stat.mtimeMs, () => 0);
+      if (lockAge > LOCK_STALE_MS) {
+        console.warn(`Removing stale lock ${lockPath} (${Math.round(lockAge / 1000)}s old)`);
+        await fs.rm(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() - startedAt > LOCK_TIMEOUT_MS) {
+        throw new Error(`Timed out waiting for the lock on ${this.filePath(name)}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS + Math.random() * LOCK_RETRY_MS));
+    }
+  }
+}
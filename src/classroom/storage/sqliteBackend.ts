@@ -0,0 +1,152 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { DatabaseSync } from 'node:sqlite';
+import { StorageBackend, type VersionedData } from './storageBackend.js';
+import { JsonFileBackend } from './jsonFileBackend.js';
+import { decryptIfSealed, getEncryption, type Encryption } from '../../security/encryption.js';
+
+// Schema of the database itself, tracked in PRAGMA user_version
+const DATABASE_MIGRATIONS: string[] = [
+  `CREATE TABLE documents (
+    name TEXT PRIMARY KEY,
+    version INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )`,
+];
+
+function isErrorCode(error: unknown, code: string): boolean {
+  return (error as NodeJS.ErrnoException)?.code === code;
+}
+
+// How long a writer waits for another instance's transaction before failing
+const BUSY_TIMEOUT_MS = 15_000;
+
+/**
+ * Stores documents in an embedded SQLite database (node:sqlite, Node.js 22.5+).
+ * The database runs in WAL mode, so several server instances can share it;
+ * every change is a BEGIN IMMEDIATE transaction. A document that is not in
+ * the database yet is imported from <name>.json in the JSON storage directory.
+ * With ENCRYPTION_KEY set, document data is stored encrypted (as a BLOB).
+ */
+export class SqliteBackend extends StorageBackend {
+  readonly kind = 'sqlite' as const;
+  // One connection can only run one transaction at a time
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private constructor(private db: DatabaseSync, private jsonDirectory: string, private encryption: Encryption | null) {
+    super();
+  }
+
+  static async open(dbPath: string, jsonDirectory: string, encryption = getEncryption()): Promise<SqliteBackend> {
+    let sqlite: typeof import('node:sqlite');
+    try {
+      sqlite = await import('node:sqlite');
+    } catch {
+      throw new Error(`The sqlite storage backend needs Node.js 22.5 or newer (running ${process.version}). Set STORAGE_BACKEND=json or upgrade Node.js.`);
+    }
+
+    await fs.mkdir(path.dirname(dbPath), { recursive: true });
+    const db = new sqlite.DatabaseSync(dbPath);
+    db.exec(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`);
+    db.exec('PRAGMA journal_mode = WAL');
+    SqliteBackend.migrateDatabase(db);
+
+    return new SqliteBackend(db, jsonDirectory, encryption);
+  }
+
+  private static migrateDatabase(db: DatabaseSync): void {
+    db.exec('BEGIN IMMEDIATE');
+    try {
+      const current = Number(db.prepare('PRAGMA user_version').get()?.user_version ?? 0);
+      for (let version = current + 1; version <= DATABASE_MIGRATIONS.length; version++) {
+        db.exec(DATABASE_MIGRATIONS[version - 1]);
+        db.exec(`PRAGMA user_version = ${version}`);
+      }
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  protected async readRaw(name: string): Promise<VersionedData | null> {
+    const row = this.db.prepare('SELECT data FROM documents WHERE name = ?').get(name);
+    if (!row) {
+      return this.importJsonFile(name);
+    }
+
+    const data = row.data instanceof Uint8Array
+      ? decryptIfSealed(Buffer.from(row.data), this.encryption, `Document ${name}`).toString('utf-8')
+      : String(row.data);
+    return JSON.parse(data);
+  }
+
+  protected async transact<R>(
+    name: string,
+    change: (current: VersionedData | null) => Promise<{ data: VersionedData; result: R; }>
+  ): Promise<R> {
+    const run = this.queue.then(async () => {
+      this.db.exec('BEGIN IMMEDIATE');
+      try {
+        const { data, result } = await change(await this.readRaw(name));
+        this.db.prepare(
+          `INSERT INTO documents (name, version, data, updated_at) VALUES (?, ?, ?, ?)
+           ON CONFLICT(name) DO UPDATE SET version = excluded.version, data = excluded.data, updated_at = excluded.updated_at`
+        ).run(name, data.version ?? 0, this.encryption ? this.encryption.seal(JSON.stringify(data)) : JSON.stringify(data), new Date().toISOString());
+        this.db.exec('COMMIT');
+        return result;
+      } catch (error) {
+        this.db.exec('ROLLBACK');
+        throw error;
+      }
+    });
+
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  protected async listDocuments(): Promise<string[]> {
+    return this.db.prepare('SELECT name FROM documents ORDER BY name').all().map(row => String(row.name));
+  }
+
+  /**
+   * Also reseals the JSON files in the JSON storage directory: documents not
+   * imported yet are still read from there.
+   */
+  async reseal(): Promise<string[]> {
+    const names = await super.reseal();
+    const jsonNames = await new JsonFileBackend(this.jsonDirectory, this.encryption).reseal();
+    return [...names, ...jsonNames.filter(name => !names.includes(name))];
+  }
+
+  async close(): Promise<void> {
+    await this.queue;
+    this.db.close();
+  }
+
+  /**
+   * Lets a deployment switch from JSON files to SQLite without losing data.
+   * The JSON file is left in place.
+   */
+  private async importJsonFile(name: string): Promise<VersionedData | null> {
+    const filePath = path.join(this.jsonDirectory, `${name}.json`);
+    let content: Buffer;
+    try {
+      content = await fs.readFile(filePath);
+    } catch (error) {
+      if (isErrorCode(error, 'ENOENT')) return null;
+      throw error;
+    }
+
+    // A file that cannot be read must fail the read, not be replaced by an empty document
+    let data: VersionedData;
+    try {
+      data = JSON.parse(decryptIfSealed(content, this.encryption, filePath).toString('utf-8'));
+    } catch (error) {
+      throw new Error(`Cannot import ${filePath}: ${error instanceof Error ? error.message : 'parse error'}`);
+    }
+    console.log(`Importing ${filePath} into the SQLite database`);
+    return data;
+  }
+}
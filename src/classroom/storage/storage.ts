@@ -0,0 +1,55 @@
+import * as path from 'path';
+import { config } from '../../config.js';
+import type { StorageBackend, StorageProvider } from './storageBackend.js';
+import { JsonFileBackend } from './jsonFileBackend.js';
+import { SqliteBackend } from './sqliteBackend.js';
+
+// Backends by namespace; '' is the shared, un-namespaced storage
+const backends = new Map<string, Promise<StorageBackend>>();
+
+/**
+ * Directory of a storage namespace: STORAGE_DIR (or the working directory)
+ * itself, or teachers/<namespace> inside it.
+ */
+export function getStorageDirectory(namespace?: string): string {
+  const directory = config.STORAGE_DIR ? path.resolve(config.STORAGE_DIR) : process.cwd();
+  if (!namespace) {
+    return directory;
+  }
+
+  if (!/^[A-Za-z0-9_-]+$/.test(namespace)) {
+    throw new Error(`Invalid storage namespace "${namespace}"`);
+  }
+  return path.join(directory, 'teachers', namespace);
+}
+
+/**
+ * Returns the storage backend selected by STORAGE_BACKEND ("json" or "sqlite").
+ * A namespace gets its own directory and database, so its documents never
+ * mix with those of other namespaces.
+ */
+export function getStorageBackend(namespace = ''): Promise<StorageBackend> {
+  let backend = backends.get(namespace);
+  if (!backend) {
+    const directory = getStorageDirectory(namespace);
+    const dbPath = config.SQLITE_DB_PATH && !namespace
+      ? path.resolve(config.SQLITE_DB_PATH)
+      : path.join(directory, 'eduadapt.db');
+    backend = config.STORAGE_BACKEND === 'sqlite'
+      ? SqliteBackend.open(dbPath, directory)
+      : Promise.resolve(new JsonFileBackend(directory));
+    backends.set(namespace, backend);
+
+    // Let a failed open be retried, e.g. after fixing the configuration
+    backend.catch(() => { backends.delete(namespace); });
+  }
+  return backend;
+}
+
+/**
+ * Storage provider for one namespace, e.g. a teacher's own data.
+ */
+export function namespacedStorage(namespace: string): StorageProvider {
+  getStorageDirectory(namespace); // Fails early for an invalid namespace
+  return () => getStorageBackend(namespace);
+}
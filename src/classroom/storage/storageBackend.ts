@@ -0,0 +1,110 @@
+export type StorageBackendKind = 'json' | 'sqlite';
+
+/**
+ * Every stored document carries the schema version it was written with.
+ * Files from before versioning have none and count as version 0.
+ */
+export interface VersionedData {
+  version?: number;
+}
+
+export interface StorageDocument<T extends VersionedData> {
+  name: string; // File name without .json, or the document key in SQLite
+  version: number; // Current schema version
+  create(): T | Promise<T>; // Data for a new document, at the current version
+  // migrations[n] upgrades data from version n - 1 to n (the input may still have the
+  // older shape); missing steps only bump the version
+  migrations?: Record<number, (data: T) => T>;
+}
+
+/**
+ * Resolves the backend the storage managers read and write, opening it on first use.
+ */
+export type StorageProvider = () => Promise<StorageBackend>;
+
+/**
+ * Stores whole documents (one per storage manager) and changes them with
+ * atomic read-modify-write transactions, so several server instances can
+ * share the same data. Outdated documents are migrated on first access.
+ */
+export abstract class StorageBackend {
+  abstract readonly kind: StorageBackendKind;
+
+  /**
+   * Reads the stored document without locking. Returns null if it does not exist.
+   */
+  protected abstract readRaw(name: string): Promise<VersionedData | null>;
+
+  /**
+   * Runs `change` while holding an exclusive lock on the document and stores
+   * the data it returns. Nothing is stored when `change` throws.
+   */
+  protected abstract transact<R>(
+    name: string,
+    change: (current: VersionedData | null) => Promise<{ data: VersionedData; result: R; }>
+  ): Promise<R>;
+
+  /**
+   * Names of the documents stored in this backend.
+   */
+  protected abstract listDocuments(): Promise<string[]>;
+
+  abstract close(): Promise<void>;
+
+  /**
+   * Rewrites every stored document, which encrypts it with the current
+   * ENCRYPTION_KEY (e.g. after rotating the key or enabling encryption).
+   * Returns the names of the documents.
+   */
+  async reseal(): Promise<string[]> {
+    const names = await this.listDocuments();
+    for (const name of names) {
+      await this.transact(name, async current => ({ data: current ?? {}, result: undefined }));
+    }
+    return names;
+  }
+
+  async read<T extends VersionedData>(document: StorageDocument<T>): Promise<T> {
+    const stored = await this.readRaw(document.name);
+    if (stored && (stored.version ?? 0) === document.version) {
+      return stored as T;
+    }
+
+    // Missing or outdated: create or migrate it under the lock, so only one instance does
+    return this.update(document, data => data);
+  }
+
+  async update<T extends VersionedData, R>(
+    document: StorageDocument<T>,
+    mutate: (data: T) => R | Promise<R>
+  ): Promise<R> {
+    return this.transact(document.name, async current => {
+      const data = await this.upgrade(document, current);
+      const result = await mutate(data);
+      return { data, result };
+    });
+  }
+
+  private async upgrade<T extends VersionedData>(document: StorageDocument<T>, stored: VersionedData | null): Promise<T> {
+    if (!stored) {
+      return { ...(await document.create()), version: document.version };
+    }
+
+    const storedVersion = stored.version ?? 0;
+    if (storedVersion > document.version) {
+      throw new Error(
+        `${document.name} has schema version ${storedVersion}, but this server only supports up to version ${document.version}. Update the server.`
+      );
+    }
+
+    let data = stored as T;
+    for (let version = storedVersion + 1; version <= document.version; version++) {
+      data = document.migrations?.[version]?.(data) ?? data;
+      data.version = version;
+    }
+    if (storedVersion < document.version) {
+      console.log(`Migrated ${document.name} from schema version ${storedVersion} to ${document.version}`);
+    }
+    return data as T;
+  }
+}
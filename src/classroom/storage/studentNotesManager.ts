@@ -1,63 +1,63 @@
-import * as fs from 'fs/promises';
-import * as path from 'path';
+import type { StudentMemory } from '../../memory/studentMemory.js';
+import type { StudentProfileManager, NoteSource, NoteVersion, StudentProfile } from './studentProfileManager.js';
 
-interface StudentNote {
+export type { NoteSource, NoteVersion } from './studentProfileManager.js';
+
+// Rough estimate: 3 sentences ≈ 300 characters max
+export const MAX_NOTE_LENGTH = 300;
+
+export interface StudentNote {
   studentId: string;
   studentName: string;
   courseId: string;
   courseName?: string;
   note: string;
   updatedAt: string;
+  source?: NoteSource; // Who wrote the current version
+  history?: NoteVersion[]; // Previous versions, oldest first
 }
 
-interface StorageData {
-  notes: Record<string, StudentNote>;
-}
-
+/**
+ * Free-text teacher notes. Notes are stored as part of the student profile
+ * (see StudentProfileManager); this class keeps the note-only view of it.
+ */
 export class StudentNotesManager {
-  private static instance: StudentNotesManager;
-  private storageFile: string;
-  private data: StorageData;
-  private isInitialized = false;
-
-  private constructor() {
-    this.storageFile = path.join(process.cwd(), 'student-notes.json');
-    this.data = { notes: {} };
-  }
-
-  static getInstance(): StudentNotesManager {
-    if (!StudentNotesManager.instance) {
-      StudentNotesManager.instance = new StudentNotesManager();
-    }
-    return StudentNotesManager.instance;
+  constructor(private profiles: StudentProfileManager, private memory: StudentMemory) {}
+
+  private toNote(profile: StudentProfile): StudentNote {
+    return {
+      studentId: profile.studentId,
+      studentName: profile.studentName,
+      courseId: profile.courseId,
+      courseName: profile.courseName,
+      note: profile.note,
+      updatedAt: profile.noteUpdatedAt,
+      source: profile.noteSource,
+      history: profile.noteHistory
+    };
   }
 
-  private async ensureInitialized(): Promise<void> {
-    if (this.isInitialized) return;
+  /**
+   * Teacher-written notes become observations in the student memory. Notes
+   * written from grading results are skipped: the grading run itself is
+   * remembered, and so are the empty placeholders written for every student
+   * on a roster. Memory failures never fail saving the note.
+   */
+  private async rememberNote(profile: StudentProfile): Promise<void> {
+    if (profile.noteSource === 'grading' || !profile.note.trim()) return;
 
     try {
-      const fileContent = await fs.readFile(this.storageFile, 'utf-8');
-      this.data = JSON.parse(fileContent);
-    } catch {
-      // File doesn't exist, use default empty data
-      this.data = { notes: {} };
-      await this.save();
+      await this.memory.rememberNote(
+        profile.courseId, profile.studentId, profile.studentName, profile.note, profile.noteUpdatedAt
+      );
+    } catch (error) {
+      console.error('Failed to add note to student memory:', error);
     }
-    this.isInitialized = true;
-  }
-
-  private async save(): Promise<void> {
-    await fs.writeFile(this.storageFile, JSON.stringify(this.data, null, 2));
-  }
-
-  private generateKey(courseId: string, studentId: string): string {
-    return `${courseId}:${studentId}`;
   }
 
   private validateNoteLength(note: string): void {
-    // Rough estimate: 3 sentences ≈ 300 characters max
-    if (note.length > 300) {
-      throw new Error('Note should not exceed 3 sentences (approximately 300 characters)');
+    if (note.length > MAX_NOTE_LENGTH) {
+      throw new Error(`Note should not exceed 3 sentences (approximately ${MAX_NOTE_LENGTH} characters)`);
     }
   }
 
@@ -66,74 +66,62 @@ export class StudentNotesManager {
     studentId: string,
     studentName: string,
     note: string,
-    courseName?: string
+    courseName?: string,
+    source: NoteSource = 'teacher'
   ): Promise<void> {
-    await this.ensureInitialized();
     this.validateNoteLength(note);
-
-    const key = this.generateKey(courseId, studentId);
-    this.data.notes[key] = {
-      studentId,
-      studentName,
-      courseId,
-      courseName,
-      note,
-      updatedAt: new Date().toISOString()
-    };
-
-    await this.save();
+    const profile = await this.profiles.setNote(courseId, studentId, studentName, note, source, courseName);
+    await this.rememberNote(profile);
   }
 
   async getNote(courseId: string, studentId: string): Promise<StudentNote | null> {
-    await this.ensureInitialized();
-    const key = this.generateKey(courseId, studentId);
-    return this.data.notes[key] || null;
+    const profile = await this.profiles.getProfile(courseId, studentId);
+    return profile ? this.toNote(profile) : null;
+  }
+
+  async getNoteHistory(courseId: string, studentId: string): Promise<NoteVersion[]> {
+    const profile = await this.profiles.getProfile(courseId, studentId);
+    return profile?.noteHistory || [];
   }
 
   async getCourseNotes(courseId: string): Promise<StudentNote[]> {
-    await this.ensureInitialized();
-    return Object.values(this.data.notes).filter(note => note.courseId === courseId);
+    return (await this.profiles.getCourseProfiles(courseId)).map(profile => this.toNote(profile));
   }
 
   async getAllNotes(): Promise<StudentNote[]> {
-    await this.ensureInitialized();
-    return Object.values(this.data.notes);
+    return (await this.profiles.getAllProfiles()).map(profile => this.toNote(profile));
   }
 
   async deleteNote(courseId: string, studentId: string): Promise<boolean> {
-    await this.ensureInitialized();
-    const key = this.generateKey(courseId, studentId);
-
-    if (this.data.notes[key]) {
-      delete this.data.notes[key];
-      await this.save();
-      return true;
+    const deleted = await this.profiles.clearNote(courseId, studentId);
+    if (deleted) {
+      try {
+        await this.memory.forget({ courseId, studentId, kind: 'note' });
+      } catch (error) {
+        console.error('Failed to remove notes from student memory:', error);
+      }
     }
-    return false;
+    return deleted;
   }
 
-  async updateNote(courseId: string, studentId: string, newNote: string): Promise<boolean> {
-    await this.ensureInitialized();
+  async updateNote(courseId: string, studentId: string, newNote: string, source: NoteSource = 'teacher'): Promise<boolean> {
     this.validateNoteLength(newNote);
 
-    const key = this.generateKey(courseId, studentId);
-    if (this.data.notes[key]) {
-      this.data.notes[key].note = newNote;
-      this.data.notes[key].updatedAt = new Date().toISOString();
-      await this.save();
+    const profile = await this.profiles.getProfile(courseId, studentId);
+    if (profile) {
+      await this.rememberNote(await this.profiles.setNote(courseId, studentId, profile.studentName, newNote, source));
       return true;
     }
     return false;
   }
 
   async searchNotes(searchTerm: string): Promise<StudentNote[]> {
-    await this.ensureInitialized();
     const lowerSearchTerm = searchTerm.toLowerCase();
 
-    return Object.values(this.data.notes).filter(note =>
+    return (await this.getAllNotes()).filter(note =>
       note.note.toLowerCase().includes(lowerSearchTerm) ||
       note.studentName.toLowerCase().includes(lowerSearchTerm) ||
       (note.courseName && note.courseName.toLowerCase().includes(lowerSearchTerm))
     );
   }
-}
\ No newline at end of file
+}
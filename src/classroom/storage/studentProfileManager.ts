@@ -0,0 +1,365 @@
+import * as path from 'path';
+import type { StorageDocument, StorageProvider } from './storageBackend.js';
+import { readEncryptedFile } from '../../security/encryptedFiles.js';
+import type { ActivityType } from '../../worksheets/types.js';
+import type { GradingResult } from '../../grading/gradingService.js';
+
+export const STUDENT_PROFILES_VERSION = 1;
+
+export type NoteSource = 'teacher' | 'grading';
+
+export interface NoteVersion {
+  note: string;
+  updatedAt: string;
+  source?: NoteSource;
+}
+
+export type LanguageProficiency = 'beginner' | 'intermediate' | 'advanced' | 'fluent';
+
+export interface LanguageBackground {
+  homeLanguages: string[];
+  instructionLanguageProficiency?: LanguageProficiency;
+}
+
+export interface Accommodation {
+  type: 'IEP' | '504' | 'other';
+  description: string; // e.g. "extended time", "read questions aloud"
+}
+
+export interface Misconception {
+  topic: string;
+  description: string;
+  notedAt: string;
+  resolvedAt?: string;
+}
+
+export interface PerformanceEntry {
+  date: string;
+  assignmentId: string;
+  assignmentTitle?: string;
+  percentageScore: number;
+  needs: string[]; // Scaffolding areas from grading
+  strengths: string[]; // Acceleration areas from grading
+}
+
+export interface StudentProfile {
+  studentId: string;
+  studentName: string;
+  courseId: string;
+  courseName?: string;
+  // Free-text teacher note, at most ~3 sentences
+  note: string;
+  noteUpdatedAt: string;
+  noteSource?: NoteSource;
+  noteHistory: NoteVersion[]; // Previous notes, oldest first
+  languageBackground?: LanguageBackground;
+  accommodations: Accommodation[];
+  readingLevel?: string; // e.g. "Grade 3", "Lexile 650L"
+  misconceptions: Misconception[];
+  interests: string[];
+  preferredActivityTypes: ActivityType[];
+  performanceTimeline: PerformanceEntry[]; // Oldest first
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type StudentProfileUpdates = Partial<Pick<StudentProfile,
+  'languageBackground' | 'accommodations' | 'readingLevel' | 'interests' | 'preferredActivityTypes'>>;
+
+interface StorageData {
+  version: number;
+  profiles: Record<string, StudentProfile>;
+}
+
+// Shape of student-notes.json before profiles existed
+interface LegacyNotesData {
+  notes: Record<string, {
+    studentId: string;
+    studentName: string;
+    courseId: string;
+    courseName?: string;
+    note: string;
+    updatedAt: string;
+    source?: NoteSource;
+    history?: NoteVersion[];
+  }>;
+}
+
+/**
+ * Keeps the timeline bounded; the full record stays in the grading history.
+ */
+const MAX_TIMELINE_ENTRIES = 50;
+
+function generateKey(courseId: string, studentId: string): string {
+  return `${courseId}:${studentId}`;
+}
+
+function createEmptyProfile(courseId: string, studentId: string, studentName: string, courseName?: string): StudentProfile {
+  const now = new Date().toISOString();
+  return {
+    studentId,
+    studentName,
+    courseId,
+    courseName,
+    note: '',
+    noteUpdatedAt: now,
+    noteHistory: [],
+    accommodations: [],
+    misconceptions: [],
+    interests: [],
+    preferredActivityTypes: [],
+    performanceTimeline: [],
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+/**
+ * Converts every note in student-notes.json into a profile. The old file is
+ * left untouched so the migration can be inspected or repeated.
+ */
+async function migrateLegacyNotes(legacyNotesPath: string | null): Promise<Record<string, StudentProfile>> {
+  if (!legacyNotesPath) {
+    return {};
+  }
+
+  let legacy: LegacyNotesData;
+  try {
+    legacy = JSON.parse((await readEncryptedFile(legacyNotesPath)).toString('utf-8'));
+  } catch {
+    return {};
+  }
+
+  const profiles: Record<string, StudentProfile> = {};
+  for (const note of Object.values(legacy.notes || {})) {
+    const profile = createEmptyProfile(note.courseId, note.studentId, note.studentName, note.courseName);
+    profile.note = note.note || '';
+    profile.noteUpdatedAt = note.updatedAt;
+    profile.noteSource = note.source;
+    profile.noteHistory = note.history || [];
+    profile.updatedAt = note.updatedAt;
+    profiles[generateKey(note.courseId, note.studentId)] = profile;
+  }
+
+  console.log(`Migrated ${Object.keys(profiles).length} student note(s) from student-notes.json to student profiles`);
+  return profiles;
+}
+
+function studentProfileStorage(legacyNotesPath: string | null): StorageDocument<StorageData> {
+  return {
+    name: 'student-profiles',
+    version: STUDENT_PROFILES_VERSION,
+    // No profiles yet: start from the old notes file if there is one
+    create: async () => ({ version: STUDENT_PROFILES_VERSION, profiles: await migrateLegacyNotes(legacyNotesPath) })
+  };
+}
+
+function getOrCreate(data: StorageData, courseId: string, studentId: string, studentName: string, courseName?: string): StudentProfile {
+  const key = generateKey(courseId, studentId);
+  if (!data.profiles[key]) {
+    data.profiles[key] = createEmptyProfile(courseId, studentId, studentName, courseName);
+  }
+
+  const profile = data.profiles[key];
+  profile.studentName = studentName || profile.studentName;
+  profile.courseName = courseName || profile.courseName;
+  return profile;
+}
+
+export class StudentProfileManager {
+  private document: StorageDocument<StorageData>;
+
+  /**
+   * legacyNotesPath is the student-notes.json that seeds new storage, or null
+   * for storage that must start empty, e.g. a teacher's own namespace.
+   */
+  constructor(private storage: StorageProvider, legacyNotesPath: string | null = path.join(process.cwd(), 'student-notes.json')) {
+    this.document = studentProfileStorage(legacyNotesPath);
+  }
+
+  private async read(): Promise<StorageData> {
+    return (await this.storage()).read(this.document);
+  }
+
+  private async update<R>(mutate: (data: StorageData) => R): Promise<R> {
+    return (await this.storage()).update(this.document, mutate);
+  }
+
+  async getProfile(courseId: string, studentId: string): Promise<StudentProfile | null> {
+    const data = await this.read();
+    return data.profiles[generateKey(courseId, studentId)] || null;
+  }
+
+  async getCourseProfiles(courseId: string, studentIds?: string[]): Promise<StudentProfile[]> {
+    const data = await this.read();
+    return Object.values(data.profiles).filter(profile =>
+      profile.courseId === courseId && (!studentIds || studentIds.includes(profile.studentId))
+    );
+  }
+
+  async getAllProfiles(): Promise<StudentProfile[]> {
+    const data = await this.read();
+    return Object.values(data.profiles);
+  }
+
+  async ensureProfile(courseId: string, studentId: string, studentName: string, courseName?: string): Promise<StudentProfile> {
+    const existing = await this.getProfile(courseId, studentId);
+    if (existing) return existing;
+
+    return this.update(data => getOrCreate(data, courseId, studentId, studentName, courseName));
+  }
+
+  async updateProfile(
+    courseId: string,
+    studentId: string,
+    studentName: string,
+    updates: StudentProfileUpdates,
+    courseName?: string
+  ): Promise<StudentProfile> {
+    return this.update(data => {
+      const profile = getOrCreate(data, courseId, studentId, studentName, courseName);
+      Object.assign(profile, Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)));
+      profile.updatedAt = new Date().toISOString();
+      return profile;
+    });
+  }
+
+  /**
+   * Replaces the free-text note, keeping the previous one in the note history.
+   */
+  async setNote(
+    courseId: string,
+    studentId: string,
+    studentName: string,
+    note: string,
+    source: NoteSource = 'teacher',
+    courseName?: string
+  ): Promise<StudentProfile> {
+    return this.update(data => {
+      const profile = getOrCreate(data, courseId, studentId, studentName, courseName);
+      if (profile.note) {
+        profile.noteHistory.push({ note: profile.note, updatedAt: profile.noteUpdatedAt, source: profile.noteSource });
+      }
+
+      const now = new Date().toISOString();
+      profile.note = note;
+      profile.noteUpdatedAt = now;
+      profile.noteSource = source;
+      profile.updatedAt = now;
+      return profile;
+    });
+  }
+
+  /**
+   * Blanks the note. Like a replaced note, the cleared one stays in the note
+   * history, so the audit trail is never lost.
+   */
+  async clearNote(courseId: string, studentId: string): Promise<boolean> {
+    return this.update(data => {
+      const profile = data.profiles[generateKey(courseId, studentId)];
+      if (!profile?.note) return false;
+
+      profile.noteHistory.push({ note: profile.note, updatedAt: profile.noteUpdatedAt, source: profile.noteSource });
+      profile.note = '';
+      profile.noteSource = undefined;
+      profile.noteUpdatedAt = profile.updatedAt = new Date().toISOString();
+      return true;
+    });
+  }
+
+  async addMisconception(
+    courseId: string,
+    studentId: string,
+    studentName: string,
+    topic: string,
+    description: string
+  ): Promise<StudentProfile> {
+    return this.update(data => {
+      const profile = getOrCreate(data, courseId, studentId, studentName);
+      profile.misconceptions.push({ topic, description, notedAt: new Date().toISOString() });
+      profile.updatedAt = new Date().toISOString();
+      return profile;
+    });
+  }
+
+  /**
+   * Marks every open misconception on a topic as resolved. Returns how many
+   * were resolved.
+   */
+  async resolveMisconceptions(courseId: string, studentId: string, topic: string): Promise<number> {
+    return this.update(data => {
+      const profile = data.profiles[generateKey(courseId, studentId)];
+      if (!profile) return 0;
+
+      const now = new Date().toISOString();
+      const open = profile.misconceptions.filter(m => !m.resolvedAt && m.topic.toLowerCase() === topic.toLowerCase());
+      open.forEach(m => { m.resolvedAt = now; });
+
+      if (open.length > 0) {
+        profile.updatedAt = now;
+      }
+      return open.length;
+    });
+  }
+
+  /**
+   * Adds grading results to the students' performance timelines.
+   */
+  async recordPerformance(courseId: string, results: GradingResult[], assignmentTitle?: string): Promise<void> {
+    await this.update(data => {
+      for (const result of results) {
+        const profile = getOrCreate(data, courseId, result.userId, result.userName);
+        profile.performanceTimeline.push({
+          date: result.gradedAt,
+          assignmentId: result.assignmentId,
+          assignmentTitle,
+          percentageScore: result.percentageScore,
+          needs: result.learningRecommendations.needsScaffolding ? result.learningRecommendations.scaffoldingAreas : [],
+          strengths: result.learningRecommendations.readyForAcceleration ? result.learningRecommendations.accelerationAreas : []
+        });
+        profile.performanceTimeline = profile.performanceTimeline.slice(-MAX_TIMELINE_ENTRIES);
+        profile.updatedAt = new Date().toISOString();
+      }
+    });
+  }
+}
+
+/**
+ * Renders the facts of a profile as a compact block for generation and grading
+ * prompts. Empty fields are left out.
+ */
+export function formatProfileForPrompt(profile: StudentProfile, options: { includeTimeline?: boolean; } = {}): string {
+  const lines = [`Student: ${profile.studentName}`];
+
+  if (profile.languageBackground?.homeLanguages.length) {
+    const proficiency = profile.languageBackground.instructionLanguageProficiency;
+    lines.push(`- Home language(s): ${profile.languageBackground.homeLanguages.join(', ')}${proficiency ? ` (instruction language proficiency: ${proficiency})` : ''}`);
+  }
+  if (profile.accommodations.length > 0) {
+    lines.push(`- Accommodations: ${profile.accommodations.map(a => `${a.type}: ${a.description}`).join('; ')}`);
+  }
+  if (profile.readingLevel) {
+    lines.push(`- Reading level: ${profile.readingLevel}`);
+  }
+  const openMisconceptions = profile.misconceptions.filter(m => !m.resolvedAt);
+  if (openMisconceptions.length > 0) {
+    lines.push(`- Known misconceptions: ${openMisconceptions.map(m => `${m.topic}: ${m.description}`).join('; ')}`);
+  }
+  if (profile.interests.length > 0) {
+    lines.push(`- Interests: ${profile.interests.join(', ')}`);
+  }
+  if (profile.preferredActivityTypes.length > 0) {
+    lines.push(`- Preferred activity types: ${profile.preferredActivityTypes.join(', ')}`);
+  }
+  if (options.includeTimeline && profile.performanceTimeline.length > 0) {
+    const recent = profile.performanceTimeline.slice(-3)
+      .map(entry => `${entry.assignmentTitle || entry.assignmentId} ${entry.percentageScore}%`)
+      .join(', ');
+    lines.push(`- Recent scores: ${recent}`);
+  }
+  if (profile.note) {
+    lines.push(`- Teacher note: ${profile.note}`);
+  }
+
+  return lines.join('\n');
+}
@@ -1,66 +1,93 @@
-import * as fs from 'fs/promises';
-import * as path from 'path';
+import type { StorageDocument, StorageProvider } from './storageBackend.js';
+import type { DifferentiationTier, WorksheetSettings } from '../../worksheets/types.js';
+import type { AnswerKey, WorksheetDocument } from '../../worksheets/model.js';
+
+export interface WorksheetVariantInfo {
+  baseWorksheetPdfUrl: string; // Worksheet this variant was derived from
+  tier?: DifferentiationTier; // Differentiated version
+  form?: string; // Parallel form label, e.g. "B"
+}
 
-interface WorksheetRecord {
+export interface WorksheetAssignmentLink {
+  assignmentId: string;
+  courseId: string;
+  courseName?: string;
+  linkedAt: string;
+}
+
+export interface WorksheetRecord {
   worksheetPdfUrl: string;
   answerKeyPdfUrl: string;
   answerKeyHtml?: string; // HTML content of the answer key
+  answerKey?: AnswerKey; // Structured per-question answers and points
   title: string;
   subject?: string;
   grade?: string;
   summary?: string;
   totalPoints?: number;
   gradingBreakdown?: Array<{ section: string; points: number; }>;
+  settings?: WorksheetSettings; // Settings the worksheet was generated with
+  document?: WorksheetDocument; // Structured worksheet the PDF was rendered from
+  variant?: WorksheetVariantInfo; // Set for differentiated versions and parallel forms of another worksheet
   createdAt: string;
-  // Assignment info - added when assignment is created
+  // Every Classroom assignment this worksheet was assigned as, in any course
+  assignments: WorksheetAssignmentLink[];
+}
+
+// Records written before worksheets could back several assignments
+type LegacyWorksheetRecord = Omit<WorksheetRecord, 'assignments'> & {
+  assignments?: WorksheetAssignmentLink[];
   assignmentId?: string;
   courseId?: string;
   courseName?: string;
-}
+};
 
 interface StorageData {
+  version: number;
   worksheets: Record<string, WorksheetRecord>; // Keyed by worksheetPdfUrl
   assignmentMapping: Record<string, string>; // Maps assignmentId to worksheetPdfUrl
 }
 
-export class WorksheetStorageManager {
-  private static instance: WorksheetStorageManager;
-  private storageFile: string;
-  private data: StorageData;
-  private isInitialized = false;
-
-  private constructor() {
-    this.storageFile = path.join(process.cwd(), 'worksheet-assignments.json');
-    this.data = { worksheets: {}, assignmentMapping: {} };
+/**
+ * Version 1 moves the single assignmentId/courseId/courseName of older
+ * records into the assignments list. Assignments that an older record was
+ * re-pointed away from keep their entry in assignmentMapping, so they can
+ * still be graded, but their course is unknown and they are not listed.
+ */
+function migrateAssignmentLinks(data: StorageData): StorageData {
+  data.assignmentMapping = data.assignmentMapping || {};
+
+  for (const record of Object.values(data.worksheets || {}) as LegacyWorksheetRecord[]) {
+    if (record.assignments) continue;
+
+    const { assignmentId, courseId, courseName } = record;
+    record.assignments = assignmentId && courseId
+      ? [{ assignmentId, courseId, courseName, linkedAt: record.createdAt }]
+      : [];
+    delete record.assignmentId;
+    delete record.courseId;
+    delete record.courseName;
   }
 
-  static getInstance(): WorksheetStorageManager {
-    if (!WorksheetStorageManager.instance) {
-      WorksheetStorageManager.instance = new WorksheetStorageManager();
-    }
-    return WorksheetStorageManager.instance;
-  }
+  return data;
+}
 
-  private async ensureInitialized(): Promise<void> {
-    if (this.isInitialized) return;
+const WORKSHEET_STORAGE: StorageDocument<StorageData> = {
+  name: 'worksheet-assignments',
+  version: 1,
+  create: () => ({ version: 1, worksheets: {}, assignmentMapping: {} }),
+  migrations: { 1: migrateAssignmentLinks }
+};
 
-    try {
-      const fileContent = await fs.readFile(this.storageFile, 'utf-8');
-      this.data = JSON.parse(fileContent);
-      // Ensure assignmentMapping exists for older data
-      if (!this.data.assignmentMapping) {
-        this.data.assignmentMapping = {};
-      }
-    } catch {
-      // File doesn't exist, use default empty data
-      this.data = { worksheets: {}, assignmentMapping: {} };
-      await this.save();
-    }
-    this.isInitialized = true;
+export class WorksheetStorageManager {
+  constructor(private storage: StorageProvider) {}
+
+  private async read(): Promise<StorageData> {
+    return (await this.storage()).read(WORKSHEET_STORAGE);
   }
 
-  private async save(): Promise<void> {
-    await fs.writeFile(this.storageFile, JSON.stringify(this.data, null, 2));
+  private async update<R>(mutate: (data: StorageData) => R): Promise<R> {
+    return (await this.storage()).update(WORKSHEET_STORAGE, mutate);
   }
 
   async addWorksheet(
@@ -74,24 +101,34 @@ export class WorksheetStorageManager {
       totalPoints?: number;
       gradingBreakdown?: Array<{ section: string; points: number; }>;
       answerKeyHtml?: string;
+      answerKey?: AnswerKey;
+      settings?: WorksheetSettings;
+      document?: WorksheetDocument;
+      variant?: WorksheetVariantInfo;
     }
   ): Promise<void> {
-    await this.ensureInitialized();
-
-    this.data.worksheets[worksheetPdfUrl] = {
-      worksheetPdfUrl,
-      answerKeyPdfUrl,
-      answerKeyHtml: metadata?.answerKeyHtml,
-      title,
-      subject: metadata?.subject,
-      grade: metadata?.grade,
-      summary: metadata?.summary,
-      totalPoints: metadata?.totalPoints,
-      gradingBreakdown: metadata?.gradingBreakdown,
-      createdAt: new Date().toISOString()
-    };
-
-    await this.save();
+    await this.update(data => {
+      // Storing the same PDF again (e.g. regenerated answer key) keeps its assignments
+      const existingAssignments = data.worksheets[worksheetPdfUrl]?.assignments || [];
+
+      data.worksheets[worksheetPdfUrl] = {
+        worksheetPdfUrl,
+        answerKeyPdfUrl,
+        answerKeyHtml: metadata?.answerKeyHtml,
+        answerKey: metadata?.answerKey,
+        title,
+        subject: metadata?.subject,
+        grade: metadata?.grade,
+        summary: metadata?.summary,
+        totalPoints: metadata?.totalPoints,
+        gradingBreakdown: metadata?.gradingBreakdown,
+        settings: metadata?.settings,
+        document: metadata?.document,
+        variant: metadata?.variant,
+        createdAt: new Date().toISOString(),
+        assignments: existingAssignments
+      };
+    });
   }
 
   async linkWorksheetToAssignment(
@@ -100,68 +137,72 @@ export class WorksheetStorageManager {
     courseId: string,
     courseName?: string
   ): Promise<boolean> {
-    await this.ensureInitialized();
-
-    const worksheet = this.data.worksheets[worksheetPdfUrl];
-    if (!worksheet) {
-      return false;
-    }
+    return this.update(data => {
+      const worksheet = data.worksheets[worksheetPdfUrl];
+      if (!worksheet) {
+        return false;
+      }
 
-    // Update worksheet with assignment info
-    worksheet.assignmentId = assignmentId;
-    worksheet.courseId = courseId;
-    worksheet.courseName = courseName;
+      // An assignment is backed by exactly one worksheet
+      const previousUrl = data.assignmentMapping[assignmentId];
+      if (previousUrl && previousUrl !== worksheetPdfUrl && data.worksheets[previousUrl]) {
+        const previous = data.worksheets[previousUrl];
+        previous.assignments = previous.assignments.filter(link => link.assignmentId !== assignmentId);
+      }
 
-    // Create reverse mapping
-    this.data.assignmentMapping[assignmentId] = worksheetPdfUrl;
+      // Add the link, or refresh it when the assignment was linked before
+      worksheet.assignments = [
+        ...worksheet.assignments.filter(link => link.assignmentId !== assignmentId),
+        { assignmentId, courseId, courseName, linkedAt: new Date().toISOString() }
+      ];
 
-    await this.save();
-    return true;
+      // Create reverse mapping
+      data.assignmentMapping[assignmentId] = worksheetPdfUrl;
+      return true;
+    });
   }
 
   async getWorksheetByAssignment(assignmentId: string): Promise<WorksheetRecord | null> {
-    await this.ensureInitialized();
-    const worksheetUrl = this.data.assignmentMapping[assignmentId];
+    const data = await this.read();
+    const worksheetUrl = data.assignmentMapping[assignmentId];
     if (!worksheetUrl) return null;
-    return this.data.worksheets[worksheetUrl] || null;
+    return data.worksheets[worksheetUrl] || null;
   }
 
   async getWorksheetByPdfUrl(worksheetPdfUrl: string): Promise<WorksheetRecord | null> {
-    await this.ensureInitialized();
-    return this.data.worksheets[worksheetPdfUrl] || null;
+    const data = await this.read();
+    return data.worksheets[worksheetPdfUrl] || null;
   }
 
   async getWorksheetsByCourse(courseId: string): Promise<WorksheetRecord[]> {
-    await this.ensureInitialized();
-    return Object.values(this.data.worksheets).filter(
-      worksheet => worksheet.courseId === courseId
+    const data = await this.read();
+    return Object.values(data.worksheets).filter(
+      worksheet => worksheet.assignments.some(link => link.courseId === courseId)
     );
   }
 
   async getAllWorksheets(): Promise<WorksheetRecord[]> {
-    await this.ensureInitialized();
-    return Object.values(this.data.worksheets);
+    const data = await this.read();
+    return Object.values(data.worksheets);
   }
 
   async getAnswerKeyUrl(assignmentId: string): Promise<string | null> {
-    await this.ensureInitialized();
-    const worksheetUrl = this.data.assignmentMapping[assignmentId];
-    if (!worksheetUrl) return null;
-    const worksheet = this.data.worksheets[worksheetUrl];
+    const worksheet = await this.getWorksheetByAssignment(assignmentId);
     return worksheet?.answerKeyPdfUrl || null;
   }
 
   async getAnswerKeyHtml(assignmentId: string): Promise<string | null> {
-    await this.ensureInitialized();
-    const worksheetUrl = this.data.assignmentMapping[assignmentId];
-    if (!worksheetUrl) return null;
-    const worksheet = this.data.worksheets[worksheetUrl];
+    const worksheet = await this.getWorksheetByAssignment(assignmentId);
     return worksheet?.answerKeyHtml || null;
   }
 
+  async getAnswerKey(assignmentId: string): Promise<AnswerKey | null> {
+    const worksheet = await this.getWorksheetByAssignment(assignmentId);
+    return worksheet?.answerKey || null;
+  }
+
   async getAnswerKeyHtmlByWorksheetUrl(worksheetPdfUrl: string): Promise<string | null> {
-    await this.ensureInitialized();
-    const worksheet = this.data.worksheets[worksheetPdfUrl];
+    const worksheet = await this.getWorksheetByPdfUrl(worksheetPdfUrl);
     return worksheet?.answerKeyHtml || null;
   }
 
@@ -169,10 +210,7 @@ export class WorksheetStorageManager {
     totalPoints: number | undefined;
     gradingBreakdown: Array<{ section: string; points: number; }> | undefined;
   } | null> {
-    await this.ensureInitialized();
-    const worksheetUrl = this.data.assignmentMapping[assignmentId];
-    if (!worksheetUrl) return null;
-    const worksheet = this.data.worksheets[worksheetUrl];
+    const worksheet = await this.getWorksheetByAssignment(assignmentId);
     if (!worksheet) return null;
 
     return {
@@ -182,56 +220,65 @@ export class WorksheetStorageManager {
   }
 
   async deleteWorksheet(worksheetPdfUrl: string): Promise<boolean> {
-    await this.ensureInitialized();
-
-    const worksheet = this.data.worksheets[worksheetPdfUrl];
-    if (worksheet) {
-      // Remove assignment mapping if exists
-      if (worksheet.assignmentId) {
-        delete this.data.assignmentMapping[worksheet.assignmentId];
+    return this.update(data => {
+      if (!data.worksheets[worksheetPdfUrl]) return false;
+
+      // Remove every assignment mapping to it, including links older records no longer list
+      for (const [assignmentId, url] of Object.entries(data.assignmentMapping)) {
+        if (url === worksheetPdfUrl) {
+          delete data.assignmentMapping[assignmentId];
+        }
       }
-      delete this.data.worksheets[worksheetPdfUrl];
-      await this.save();
+      delete data.worksheets[worksheetPdfUrl];
       return true;
-    }
-    return false;
+    });
+  }
+
+  /**
+   * Removes every worksheet and assignment link. Returns the removed worksheets.
+   */
+  async clearAll(): Promise<WorksheetRecord[]> {
+    return this.update(data => {
+      const removed = Object.values(data.worksheets);
+      data.worksheets = {};
+      data.assignmentMapping = {};
+      return removed;
+    });
   }
 
   async updateWorksheet(
     worksheetPdfUrl: string,
-    updates: Partial<Omit<WorksheetRecord, 'worksheetPdfUrl' | 'createdAt'>>
+    updates: Partial<Omit<WorksheetRecord, 'worksheetPdfUrl' | 'createdAt' | 'assignments'>>
   ): Promise<boolean> {
-    await this.ensureInitialized();
+    return this.update(data => {
+      if (!data.worksheets[worksheetPdfUrl]) return false;
 
-    if (this.data.worksheets[worksheetPdfUrl]) {
-      this.data.worksheets[worksheetPdfUrl] = {
-        ...this.data.worksheets[worksheetPdfUrl],
+      data.worksheets[worksheetPdfUrl] = {
+        ...data.worksheets[worksheetPdfUrl],
         ...updates
       };
-      await this.save();
       return true;
-    }
-    return false;
+    });
   }
 
   async searchWorksheets(searchTerm: string): Promise<WorksheetRecord[]> {
-    await this.ensureInitialized();
+    const data = await this.read();
     const lowerSearchTerm = searchTerm.toLowerCase();
 
-    return Object.values(this.data.worksheets).filter(worksheet =>
+    return Object.values(data.worksheets).filter(worksheet =>
       worksheet.title.toLowerCase().includes(lowerSearchTerm) ||
       (worksheet.subject && worksheet.subject.toLowerCase().includes(lowerSearchTerm)) ||
       (worksheet.grade && worksheet.grade.toLowerCase().includes(lowerSearchTerm)) ||
       (worksheet.summary && worksheet.summary.toLowerCase().includes(lowerSearchTerm)) ||
-      (worksheet.courseName && worksheet.courseName.toLowerCase().includes(lowerSearchTerm))
+      worksheet.assignments.some(link => link.courseName?.toLowerCase().includes(lowerSearchTerm))
     );
   }
 
   async getRecentWorksheets(limit: number = 10): Promise<WorksheetRecord[]> {
-    await this.ensureInitialized();
+    const data = await this.read();
 
-    return Object.values(this.data.worksheets)
+    return Object.values(data.worksheets)
       .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
       .slice(0, limit);
   }
-}
\ No newline at end of file
+}
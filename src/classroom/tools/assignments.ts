@@ -1,6 +1,6 @@
 import { z } from 'zod';
-import { ClassroomService } from '../services/classroomService.js';
 import { type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { Services } from '../../services.js';
 
 export const assignmentsSchema = z.object({
   courseId: z.string().describe('The ID of the course to get assignments for'),
@@ -14,9 +14,9 @@ export const assignmentsSchema = z.object({
 export async function getAssignments({
   courseId,
   includeSubmissions = true,
-}: z.infer<typeof assignmentsSchema>): Promise<CallToolResult> {
+}: z.infer<typeof assignmentsSchema>, services: Services): Promise<CallToolResult> {
   try {
-    const service = ClassroomService.getInstance();
+    const service = services.classroom;
 
     if (includeSubmissions) {
       const assignmentsWithSubmissions = await service.getAssignmentsWithSubmissions(courseId, 10);
@@ -1,7 +1,6 @@
 import { z } from 'zod';
-import { ClassroomService } from '../services/classroomService.js';
 import { type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { StudentNotesManager } from '../storage/studentNotesManager.js';
+import type { Services } from '../../services.js';
 
 export const comprehensiveClassroomDataSchema = z.object({
   includeAnnouncements: z
@@ -108,10 +107,10 @@ export async function getComprehensiveClassroomData({
   includeSubmissions = true,
   maxAssignmentsPerCourse = 20,
   maxAnnouncementsPerCourse = 10,
-}: z.infer<typeof comprehensiveClassroomDataSchema>): Promise<CallToolResult> {
+}: z.infer<typeof comprehensiveClassroomDataSchema>, services: Services): Promise<CallToolResult> {
   try {
-    const service = ClassroomService.getInstance();
-    const notesManager = StudentNotesManager.getInstance();
+    const service = services.classroom;
+    const notesManager = services.studentNotes;
 
     // Get all courses first
     const courses = await service.getAllCourses();
@@ -1,14 +1,14 @@
 import { z } from 'zod';
-import { ClassroomService } from '../services/classroomService.js';
 import { type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { Services } from '../../services.js';
 
 export const courseDetailsSchema = z.object({
   courseId: z.string().describe('The ID of the course to get details for'),
 });
 
-export async function getCourseDetails({ courseId }: z.infer<typeof courseDetailsSchema>): Promise<CallToolResult> {
+export async function getCourseDetails({ courseId }: z.infer<typeof courseDetailsSchema>, services: Services): Promise<CallToolResult> {
   try {
-    const service = ClassroomService.getInstance();
+    const service = services.classroom;
     const courseDetails = await service.getCourseWithDetails(courseId);
 
     const formattedDetails = {
@@ -1,12 +1,12 @@
 import { z } from 'zod';
-import { ClassroomService } from '../services/classroomService.js';
 import { type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { Services } from '../../services.js';
 
 export const coursesSchema = z.object({});
 
-export async function listCourses(): Promise<CallToolResult> {
+export async function listCourses(services: Services): Promise<CallToolResult> {
   try {
-    const service = ClassroomService.getInstance();
+    const service = services.classroom;
     const courses = await service.getAllCourses();
 
     const formattedCourses = courses.map((course) => ({
@@ -2,12 +2,11 @@
  * Create announcement tool with optional image generation
  */
 
-import { ClassroomService } from '../services/classroomService.js';
-import { getBriaClient } from '../../bria/service.js';
-import { config } from '../../config.js';
 import type { classroom_v1 } from 'googleapis';
 import axios from 'axios';
 import { Readable } from 'stream';
+import type { Services } from '../../services.js';
+import type { ClassroomService } from '../services/classroomService.js';
 
 interface CreateAnnouncementArgs {
   courseId: string;
@@ -83,9 +82,9 @@ async function uploadImageToDrive(
   }
 }
 
-export async function createAnnouncement(args: CreateAnnouncementArgs) {
+export async function createAnnouncement(args: CreateAnnouncementArgs, services: Services) {
   try {
-    const classroomService = ClassroomService.getInstance();
+    const classroomService = services.classroom;
     
     // Prepare materials array
     const materials: classroom_v1.Schema$Material[] = [];
@@ -125,9 +124,9 @@ export async function createAnnouncement(args: CreateAnnouncementArgs) {
     let generatedImageUrl: string | undefined;
     let imageDriveFileId: string | undefined;
     
-    if (args.imagePrompt && config.BRIA_API_KEY) {
+    if (args.imagePrompt && services.configured.bria) {
       console.log('Generating image with Bria AI...');
-      const briaClient = getBriaClient();
+      const briaClient = services.bria;
       
       // Generate the image
       generatedImageUrl = await briaClient.generateSingleImage(
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { ClassroomService } from '../services/classroomService.js';
+import type { Services } from '../../services.js';
 
 export const createWorksheetAssignmentSchema = z.object({
   courseId: z.string().describe('The ID of the course to create the assignment in'),
@@ -18,9 +18,9 @@ export const createWorksheetAssignmentSchema = z.object({
 
 export type CreateWorksheetAssignmentArgs = z.infer<typeof createWorksheetAssignmentSchema>;
 
-export async function createWorksheetAssignment(args: CreateWorksheetAssignmentArgs) {
+export async function createWorksheetAssignment(args: CreateWorksheetAssignmentArgs, services: Services) {
   try {
-    const service = ClassroomService.getInstance();
+    const service = services.classroom;
 
     const result = await service.createAssignmentWithWorksheet({
       courseId: args.courseId,
@@ -51,7 +51,7 @@ export async function createWorksheetAssignment(args: CreateWorksheetAssignmentA
     // Check if this worksheet has an answer key stored
     if (result.assignment.id) {
       try {
-        const worksheetStorage = (await import('../storage/worksheetStorageManager.js')).WorksheetStorageManager.getInstance();
+        const worksheetStorage = services.worksheetStorage;
         const worksheetData = await worksheetStorage.getWorksheetByAssignment(result.assignment.id);
         if (worksheetData && worksheetData.answerKeyPdfUrl) {
           responseText += `\n\n📝 **Answer Key Available**: The answer key for this worksheet has been stored and can be used for grading.`;
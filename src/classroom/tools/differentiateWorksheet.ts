@@ -0,0 +1,201 @@
+import { z } from 'zod';
+import { type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { StudentProfile } from '../storage/studentProfileManager.js';
+import type { GradingHistoryRecord } from '../storage/gradingHistoryManager.js';
+import { DifferentiationTierSchema, type DifferentiationTier } from '../../worksheets/types.js';
+import type { Services } from '../../services.js';
+
+// Latest grading percentage below which a student gets the support tier,
+// and at or above which they get the extension tier
+const SUPPORT_BELOW_PERCENT = 60;
+const EXTENSION_FROM_PERCENT = 90;
+
+const TIERS: DifferentiationTier[] = ['support', 'core', 'extension'];
+
+export const differentiateWorksheetSchema = z.object({
+  courseId: z.string().describe('The ID of the course'),
+  worksheetPdfUrl: z.string().describe('PDF URL of the base worksheet, as returned by generate-worksheet'),
+  title: z.string().optional().describe('Assignment title shown to students (same for every tier). Default: the worksheet title'),
+  description: z.string().optional().describe('Optional description of the assignments'),
+  instructions: z.string().optional().describe('Optional instructions for students'),
+  maxPoints: z.number().optional().default(100).describe('Maximum points for each assignment (default: 100)'),
+  studentIds: z.array(z.string()).optional().describe('Only differentiate for these students. Default: the whole course roster'),
+  tierOverrides: z.array(z.object({
+    studentId: z.string(),
+    tier: DifferentiationTierSchema,
+  })).optional().describe('Put specific students in a tier regardless of their grading history'),
+  previewOnly: z.boolean().optional().default(false).describe('Only show which tier each student would get, without generating worksheets or creating assignments'),
+});
+
+export type DifferentiateWorksheetArgs = z.infer<typeof differentiateWorksheetSchema>;
+
+interface TierPlacement {
+  studentId: string;
+  studentName: string;
+  tier: DifferentiationTier;
+  reason: string;
+  profile: StudentProfile | null;
+  latestRecord: GradingHistoryRecord | null;
+}
+
+function textResult(text: string, isError = false): CallToolResult {
+  return {
+    content: [{ type: 'text' as const, text }],
+    ...(isError ? { isError: true } : {}),
+  };
+}
+
+/**
+ * Picks a tier from the student's most recent grading run. Students without
+ * grading history get the core worksheet.
+ */
+function chooseTier(record: GradingHistoryRecord | null): { tier: DifferentiationTier; reason: string } {
+  if (!record) {
+    return { tier: 'core', reason: 'no grading history yet' };
+  }
+
+  const recommendations = record.learningRecommendations;
+  const score = `${record.percentageScore}% on ${record.assignmentTitle || record.assignmentId}`;
+
+  if (recommendations.needsScaffolding || record.percentageScore < SUPPORT_BELOW_PERCENT) {
+    return { tier: 'support', reason: `${score}, needs scaffolding${recommendations.scaffoldingAreas.length ? ` in ${recommendations.scaffoldingAreas.join(', ')}` : ''}` };
+  }
+  if (recommendations.readyForAcceleration || record.percentageScore >= EXTENSION_FROM_PERCENT) {
+    return { tier: 'extension', reason: `${score}, ready for acceleration${recommendations.accelerationAreas.length ? ` in ${recommendations.accelerationAreas.join(', ')}` : ''}` };
+  }
+  return { tier: 'core', reason: score };
+}
+
+function focusAreasFor(tier: DifferentiationTier, placements: TierPlacement[]): string[] {
+  const areas = placements.flatMap(placement => {
+    const recommendations = placement.latestRecord?.learningRecommendations;
+    if (!recommendations) return [];
+    return tier === 'support' ? recommendations.scaffoldingAreas : recommendations.accelerationAreas;
+  });
+  return [...new Set(areas)];
+}
+
+function formatPlacements(placements: TierPlacement[]): string {
+  return TIERS.map(tier => {
+    const students = placements.filter(placement => placement.tier === tier);
+    if (students.length === 0) return `**${tier}**: no students`;
+    return `**${tier}** (${students.length}):\n` +
+      students.map(placement => `  - ${placement.studentName} (${placement.studentId}): ${placement.reason}`).join('\n');
+  }).join('\n');
+}
+
+export async function differentiateWorksheet(args: DifferentiateWorksheetArgs, services: Services): Promise<CallToolResult> {
+  try {
+    const base = await services.worksheetStorage.getWorksheetByPdfUrl(args.worksheetPdfUrl);
+    if (!base) {
+      return textResult(`No stored worksheet found for ${args.worksheetPdfUrl}. Generate it with generate-worksheet first.`, true);
+    }
+    if (!base.document) {
+      return textResult(`The worksheet "${base.title}" was stored without its structured content and cannot be differentiated. Generate it again with generate-worksheet.`, true);
+    }
+
+    const service = services.classroom;
+    const roster = await service.getCourseStudents(args.courseId);
+    const wanted = args.studentIds ? new Set(args.studentIds) : null;
+    const students = roster.filter(student => student.userId && (!wanted || wanted.has(student.userId)));
+
+    if (students.length === 0) {
+      return textResult(`No matching students found in course ${args.courseId}.`, true);
+    }
+
+    const profiles = services.studentProfiles;
+    const history = services.gradingHistory;
+    const overrides = new Map((args.tierOverrides || []).map(override => [override.studentId, override.tier]));
+
+    const placements: TierPlacement[] = [];
+    for (const student of students) {
+      const studentId = student.userId!;
+      const latestRecord = await history.getLatestRecord(studentId, args.courseId);
+      const override = overrides.get(studentId);
+      const { tier, reason } = override
+        ? { tier: override, reason: 'set by teacher' }
+        : chooseTier(latestRecord);
+
+      placements.push({
+        studentId,
+        studentName: student.profile?.name?.fullName || 'Unknown Student',
+        tier,
+        reason,
+        profile: await profiles.getProfile(args.courseId, studentId),
+        latestRecord,
+      });
+    }
+
+    let responseText = `🎯 **Differentiated "${base.title}"**\n\n${formatPlacements(placements)}\n`;
+
+    if (args.previewOnly) {
+      responseText += `\nPreview only - no worksheets or assignments were created. Use tierOverrides to move students between tiers.`;
+      return textResult(responseText);
+    }
+
+    const title = args.title || base.title;
+    let attempted = 0;
+    let failed = 0;
+    responseText += `\n**Assignments:**\n`;
+
+    // Tiers are generated one at a time so a failing tier does not hold up the others
+    for (const tier of TIERS) {
+      const tierPlacements = placements.filter(placement => placement.tier === tier);
+      if (tierPlacements.length === 0) continue;
+      attempted++;
+
+      try {
+        // The base worksheet is the core tier; only support and extension are rewritten
+        let pdfUrl = base.worksheetPdfUrl;
+        let answerKeyPdfUrl: string | undefined = base.answerKeyPdfUrl;
+
+        if (tier !== 'core') {
+          const variant = await services.worksheets.generateWorksheetVariantWithPDF(base.document, tier, {
+            settings: base.settings,
+            learnerProfiles: tierPlacements.flatMap(placement => placement.profile ? [placement.profile] : []),
+            focusAreas: focusAreasFor(tier, tierPlacements),
+            baseWorksheetPdfUrl: base.worksheetPdfUrl,
+          });
+          // Without an answer key the variant is not stored, so its submissions could never be graded
+          if (!variant.answerKeyPdfUrl) {
+            throw new Error(`The ${tier} worksheet was generated without an answer key and could not be stored for grading`);
+          }
+          pdfUrl = variant.pdfUrl;
+          answerKeyPdfUrl = variant.answerKeyPdfUrl;
+        }
+
+        const result = await service.createAssignmentWithWorksheet({
+          courseId: args.courseId,
+          title,
+          pdfUrl,
+          description: args.description,
+          instructions: args.instructions,
+          maxPoints: args.maxPoints,
+          assigneeMode: 'INDIVIDUAL_STUDENTS',
+          studentIds: tierPlacements.map(placement => placement.studentId),
+        });
+
+        responseText += `• **${tier}** → ${result.assignedToCount} student(s), assignment ID ${result.assignment.id}\n`;
+        responseText += `  - Worksheet PDF: ${pdfUrl}\n`;
+        responseText += `  - Answer Key PDF: ${answerKeyPdfUrl || 'not available'}\n`;
+        responseText += `  - Google Classroom: ${result.assignment.alternateLink}\n`;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        failed++;
+        responseText += `• **${tier}** ❌ ${message}\n`;
+      }
+    }
+
+    responseText += `\nEvery tier is a separate assignment with the same title, so students only see their own version. Grade each assignment ID with google-classroom-grade-all-submissions.`;
+
+    return textResult(responseText, failed === attempted);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    if (errorMessage.includes('Authentication required')) {
+      return textResult('Authentication required. Please run "npm run auth" to authenticate with Google Classroom.', true);
+    }
+
+    return textResult(`Error differentiating worksheet: ${errorMessage}`, true);
+  }
+}
@@ -0,0 +1,87 @@
+import { z } from 'zod';
+import { type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { GradingHistoryRecord } from '../storage/gradingHistoryManager.js';
+import type { Services } from '../../services.js';
+
+export const gradingHistorySchema = z.object({
+  courseId: z.string().optional().describe('Only include grading results from this course'),
+  assignmentId: z.string().optional().describe('Only include grading results for this assignment'),
+  studentId: z.string().optional().describe('Only include grading results for this student'),
+  limit: z.number().optional().default(20).describe('Maximum number of most recent results to show per student (default: 20)'),
+});
+
+function formatTrend(records: GradingHistoryRecord[]): string {
+  if (records.length < 2) return '';
+
+  const first = records[0].percentageScore;
+  const last = records[records.length - 1].percentageScore;
+  const change = Math.round((last - first) * 10) / 10;
+  const icon = change > 0 ? '📈' : change < 0 ? '📉' : '➡️';
+  return ` ${icon} ${change > 0 ? '+' : ''}${change} points since ${records[0].gradedAt.slice(0, 10)}`;
+}
+
+function formatRecord(record: GradingHistoryRecord): string {
+  let text = `  - ${record.gradedAt.slice(0, 10)} ${record.assignmentTitle || record.assignmentId}: ` +
+    `${record.overallScore}/${record.totalPossiblePoints} (${record.percentageScore}%) [${record.model}]\n`;
+
+  const sections = record.sectionScores.map(s => `${s.sectionName}: ${s.pointsEarned}/${s.pointsPossible}`).join(', ');
+  if (sections) {
+    text += `    Sections: ${sections}\n`;
+  }
+
+  const recommendations = record.learningRecommendations;
+  if (recommendations.needsScaffolding && recommendations.scaffoldingAreas.length > 0) {
+    text += `    🔶 Support: ${recommendations.scaffoldingAreas.join(', ')}\n`;
+  }
+  if (recommendations.readyForAcceleration && recommendations.accelerationAreas.length > 0) {
+    text += `    🚀 Acceleration: ${recommendations.accelerationAreas.join(', ')}\n`;
+  }
+
+  return text;
+}
+
+export async function getGradingHistory({ courseId, assignmentId, studentId, limit }: z.infer<typeof gradingHistorySchema>, services: Services): Promise<CallToolResult> {
+  try {
+    if (!courseId && !assignmentId && !studentId) {
+      return {
+        content: [{ type: 'text' as const, text: 'Provide at least one of courseId, assignmentId or studentId.' }],
+        isError: true,
+      };
+    }
+
+    const records = await services.gradingHistory.getRecords({ courseId, assignmentId, studentId });
+
+    if (records.length === 0) {
+      return {
+        content: [{ type: 'text' as const, text: 'No grading history found for these filters.' }],
+      };
+    }
+
+    // Group by student so each trajectory reads chronologically
+    const byStudent = new Map<string, GradingHistoryRecord[]>();
+    for (const record of records) {
+      byStudent.set(record.studentId, [...(byStudent.get(record.studentId) || []), record]);
+    }
+
+    const maxRecords = limit ?? 20;
+    let text = `📚 **Grading History** (${records.length} result(s), ${byStudent.size} student(s))\n\n`;
+
+    for (const studentRecords of byStudent.values()) {
+      const shown = studentRecords.slice(-maxRecords);
+      const average = studentRecords.reduce((sum, r) => sum + r.percentageScore, 0) / studentRecords.length;
+
+      text += `**${studentRecords[0].studentName}** (${studentRecords[0].studentId}) - average ${average.toFixed(1)}% over ${studentRecords.length} grading(s)${formatTrend(studentRecords)}\n`;
+      text += shown.map(formatRecord).join('');
+      text += '\n';
+    }
+
+    return {
+      content: [{ type: 'text' as const, text }],
+    };
+  } catch (error) {
+    return {
+      content: [{ type: 'text' as const, text: `Error reading grading history: ${error instanceof Error ? error.message : 'Unknown error'}` }],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,195 @@
+import { z } from 'zod';
+import { type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { GradingReviewEntry } from '../storage/gradingReviewManager.js';
+import type { Services } from '../../services.js';
+
+export const listPendingGradesSchema = z.object({
+  courseId: z.string().describe('The ID of the course'),
+  assignmentId: z.string().optional().describe('Only list results for this assignment'),
+  status: z.enum(['pending', 'approved', 'published'])
+    .optional()
+    .describe('Only list results with this review status. Default: all statuses'),
+  includeQuestions: z.boolean().optional().default(true).describe('Whether to list the questions marked wrong for each student'),
+});
+
+export const editPendingGradeSchema = z.object({
+  courseId: z.string().describe('The ID of the course'),
+  assignmentId: z.string().describe('The ID of the assignment'),
+  studentId: z.string().describe('The ID of the student'),
+  grade: z.number().optional().describe('New grade in assignment points (between 0 and the assignment maximum)'),
+  feedback: z.string().optional().describe('New feedback message for the student'),
+});
+
+export const approveGradesSchema = z.object({
+  courseId: z.string().describe('The ID of the course'),
+  assignmentId: z.string().describe('The ID of the assignment'),
+  studentIds: z.array(z.string()).optional().describe('Students to approve. Default: every pending result for the assignment'),
+});
+
+export const publishGradesSchema = z.object({
+  courseId: z.string().describe('The ID of the course'),
+  assignmentId: z.string().describe('The ID of the assignment'),
+  mode: z.enum(['draft', 'assigned'])
+    .optional()
+    .default('draft')
+    .describe('Publish as draft grades (only the teacher sees them) or assigned grades (returned to students, including grades published as drafts before). Default: draft'),
+  studentIds: z.array(z.string()).optional().describe('Students to publish. Default: every approved result (and, for assigned, every draft grade) for the assignment'),
+});
+
+function textResult(text: string, isError = false): CallToolResult {
+  return {
+    content: [{ type: 'text' as const, text }],
+    ...(isError ? { isError: true } : {}),
+  };
+}
+
+function formatEntry(entry: GradingReviewEntry, includeQuestions: boolean): string {
+  const statusIcon = entry.status === 'published' ? '✅' : entry.status === 'approved' ? '👍' : '⏳';
+  let text = `${statusIcon} **${entry.studentName}** (${entry.studentId}) - ${entry.status}${entry.edited ? ' (edited)' : ''}\n`;
+  text += `• Grade: ${entry.grade}/${entry.maxPoints} (worksheet score ${entry.result.overallScore}/${entry.result.totalPossiblePoints}, ${entry.result.percentageScore}%)\n`;
+  text += `• Feedback: ${entry.feedback}\n`;
+
+  if (entry.publishedAt) {
+    text += `• Published as ${entry.publishedAs} grade at ${entry.publishedAt}\n`;
+  }
+
+  const missed = entry.result.questionResults.filter(q => !q.isCorrect);
+  if (includeQuestions && missed.length > 0) {
+    text += `• Marked wrong or partial:\n`;
+    text += missed.map(q =>
+      `  - Q${q.questionNumber} (${q.pointsAwarded}/${q.pointsPossible}): answered "${q.studentAnswer || '—'}", expected "${q.expectedAnswer}". ${q.rationale}`
+    ).join('\n');
+    text += '\n';
+  }
+
+  return text;
+}
+
+export async function listPendingGrades({ courseId, assignmentId, status, includeQuestions }: z.infer<typeof listPendingGradesSchema>, services: Services): Promise<CallToolResult> {
+  try {
+    const entries = await services.gradingReview.listEntries({ courseId, assignmentId, status });
+
+    if (entries.length === 0) {
+      return textResult(`No graded results${status ? ` with status "${status}"` : ''} found. Run google-classroom-grade-all-submissions first.`);
+    }
+
+    const byAssignment = new Map<string, GradingReviewEntry[]>();
+    for (const entry of entries) {
+      byAssignment.set(entry.assignmentId, [...(byAssignment.get(entry.assignmentId) || []), entry]);
+    }
+
+    let text = `📋 **Grading Review Queue**\n\n`;
+    for (const [id, assignmentEntries] of byAssignment) {
+      const counts = ['pending', 'approved', 'published']
+        .map(s => `${assignmentEntries.filter(e => e.status === s).length} ${s}`)
+        .join(', ');
+      text += `### ${assignmentEntries[0].assignmentTitle || 'Assignment'} (${id})\n${counts}\n\n`;
+      text += assignmentEntries.map(entry => formatEntry(entry, includeQuestions ?? true)).join('\n');
+      text += '\n';
+    }
+
+    return textResult(text);
+  } catch (error) {
+    return textResult(`Error listing graded results: ${error instanceof Error ? error.message : 'Unknown error'}`, true);
+  }
+}
+
+export async function editPendingGrade({ courseId, assignmentId, studentId, grade, feedback }: z.infer<typeof editPendingGradeSchema>, services: Services): Promise<CallToolResult> {
+  try {
+    if (grade === undefined && feedback === undefined) {
+      return textResult('Provide a grade, feedback, or both to edit.', true);
+    }
+
+    const entry = await services.gradingReview.updateEntry(courseId, assignmentId, studentId, { grade, feedback });
+    if (!entry) {
+      return textResult(`No graded result found for student ${studentId} on assignment ${assignmentId}.`, true);
+    }
+
+    return textResult(`✏️ **Result Updated** - approve it again before publishing.\n\n${formatEntry(entry, false)}`);
+  } catch (error) {
+    return textResult(`Error editing graded result: ${error instanceof Error ? error.message : 'Unknown error'}`, true);
+  }
+}
+
+export async function approveGrades({ courseId, assignmentId, studentIds }: z.infer<typeof approveGradesSchema>, services: Services): Promise<CallToolResult> {
+  try {
+    const manager = services.gradingReview;
+    const entries = await manager.listEntries({ courseId, assignmentId, studentIds, status: 'pending' });
+
+    if (entries.length === 0) {
+      return textResult('No pending results to approve.');
+    }
+
+    await manager.setStatus(entries, 'approved');
+
+    let text = `👍 **Approved ${entries.length} result(s)**\n\n`;
+    text += entries.map(entry => `• ${entry.studentName}: ${entry.grade}/${entry.maxPoints}`).join('\n');
+    text += `\n\nUse google-classroom-publish-grades to push them to Google Classroom.`;
+    return textResult(text);
+  } catch (error) {
+    return textResult(`Error approving results: ${error instanceof Error ? error.message : 'Unknown error'}`, true);
+  }
+}
+
+export async function publishGrades({ courseId, assignmentId, mode, studentIds }: z.infer<typeof publishGradesSchema>, services: Services): Promise<CallToolResult> {
+  try {
+    const manager = services.gradingReview;
+    const isDraft = mode !== 'assigned';
+    const entries = await manager.listEntries({ courseId, assignmentId, studentIds, status: 'approved' });
+    if (!isDraft) {
+      // Draft grades are still hidden from students; assigning them returns them
+      const drafts = await manager.listEntries({ courseId, assignmentId, studentIds, status: 'published' });
+      entries.push(...drafts.filter(entry => entry.publishedAs === 'draft'));
+      entries.sort((a, b) => a.studentName.localeCompare(b.studentName));
+    }
+
+    if (entries.length === 0) {
+      return textResult(isDraft
+        ? 'No approved results to publish. Approve results with google-classroom-approve-grades first.'
+        : 'No approved results or draft grades to publish. Approve results with google-classroom-approve-grades first.');
+    }
+
+    const service = services.classroom;
+    const published: GradingReviewEntry[] = [];
+    const failed: Array<{ entry: GradingReviewEntry; message: string; }> = [];
+
+    // Publish one at a time to stay within Classroom API rate limits
+    for (const entry of entries) {
+      const result = await service.setGradeAndFeedback(
+        courseId,
+        assignmentId,
+        entry.studentId,
+        entry.grade,
+        entry.feedback,
+        isDraft
+      );
+
+      if (result.success) {
+        published.push(entry);
+      } else {
+        failed.push({ entry, message: result.message });
+      }
+    }
+
+    if (published.length > 0) {
+      await manager.setStatus(published, 'published', isDraft ? 'draft' : 'assigned');
+    }
+
+    let text = `📤 **Published ${published.length}/${entries.length} grade(s) as ${isDraft ? 'draft (not visible to students)' : 'assigned (visible to students)'}**\n\n`;
+    text += published.map(entry => `• ✅ ${entry.studentName}: ${entry.grade}/${entry.maxPoints}`).join('\n');
+    if (failed.length > 0) {
+      text += `\n\n**Failed:**\n`;
+      text += failed.map(({ entry, message }) => `• ❌ ${entry.studentName}: ${message}`).join('\n');
+    }
+
+    return textResult(text, published.length === 0);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    if (errorMessage.includes('Authentication required')) {
+      return textResult('Authentication required. Please run "npm run auth" to authenticate with Google Classroom.', true);
+    }
+
+    return textResult(`Error publishing grades: ${errorMessage}`, true);
+  }
+}
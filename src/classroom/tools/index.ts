@@ -4,4 +4,55 @@ export { getAssignments, assignmentsSchema } from './assignments.js';
 export { getComprehensiveClassroomData, comprehensiveClassroomDataSchema } from './comprehensiveClassroomData.js';
 export { nudgeStudents, nudgeStudentsSchema } from './nudgeStudents.js';
 export { createWorksheetAssignment, createWorksheetAssignmentSchema } from './createWorksheetAssignment.js';
-export { createAnnouncement } from './createAnnouncement.js';
\ No newline at end of file
+export { differentiateWorksheet, differentiateWorksheetSchema } from './differentiateWorksheet.js';
+export { generateRemediation, generateRemediationSchema } from './remediation.js';
+export { createParallelForms, parallelFormsSchema } from './parallelForms.js';
+export { generateWorksheetFromMaterials, worksheetFromMaterialsSchema } from './worksheetFromMaterials.js';
+export {
+  listWorksheets,
+  listWorksheetsSchema,
+  searchWorksheets,
+  searchWorksheetsSchema,
+  getWorksheet,
+  getWorksheetSchema,
+  deleteWorksheet,
+  deleteWorksheetSchema,
+  assignLibraryWorksheet,
+  assignLibraryWorksheetSchema,
+} from './worksheetLibrary.js';
+export { createAnnouncement } from './createAnnouncement.js';
+export {
+  listPendingGrades,
+  listPendingGradesSchema,
+  editPendingGrade,
+  editPendingGradeSchema,
+  approveGrades,
+  approveGradesSchema,
+  publishGrades,
+  publishGradesSchema,
+} from './gradingReview.js';
+export { getGradingHistory, gradingHistorySchema } from './gradingHistory.js';
+export {
+  getStudentNote,
+  getStudentNoteSchema,
+  setStudentNote,
+  setStudentNoteSchema,
+  appendStudentNote,
+  appendStudentNoteSchema,
+  searchStudentNotes,
+  searchStudentNotesSchema,
+  deleteStudentNote,
+  deleteStudentNoteSchema,
+} from './studentNotes.js';
+export {
+  getStudentProfile,
+  getStudentProfileSchema,
+  updateStudentProfile,
+  updateStudentProfileSchema,
+} from './studentProfiles.js';
+export {
+  recallStudentMemories,
+  recallStudentMemoriesSchema,
+  rememberStudentObservation,
+  rememberStudentObservationSchema,
+} from './studentMemory.js';
@@ -1,14 +1,14 @@
 import { z } from 'zod';
-import { ClassroomService } from '../services/classroomService.js';
 import { type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { Services } from '../../services.js';
 
 export const nudgeStudentsSchema = z.object({
   courseId: z.string().describe('The ID of the course to nudge students in'),
 });
 
-export async function nudgeStudents({ courseId }: z.infer<typeof nudgeStudentsSchema>): Promise<CallToolResult> {
+export async function nudgeStudents({ courseId }: z.infer<typeof nudgeStudentsSchema>, services: Services): Promise<CallToolResult> {
   try {
-    const service = ClassroomService.getInstance();
+    const service = services.classroom;
     const result = await service.nudgeStudentsWithPendingWork(courseId);
 
     return {
@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { Services } from '../../services.js';
+
+const FORM_LABELS = ['A', 'B', 'C', 'D', 'E'];
+
+export const parallelFormsSchema = z.object({
+  worksheetPdfUrl: z.string().describe('PDF URL of the stored worksheet, as returned by generate-worksheet. It becomes Form A'),
+  formCount: z.number().int().min(2).max(FORM_LABELS.length).optional().default(2).describe(`Total number of forms including the original (2-${FORM_LABELS.length}). Default: 2`),
+  courseId: z.string().optional().describe('When given, each form is assigned to a share of the course\'s students'),
+  studentIds: z.array(z.string()).optional().describe('Only distribute the forms to these students. Default: the whole course roster'),
+  title: z.string().optional().describe('Assignment title (same for every form). Default: the worksheet title'),
+  description: z.string().optional().describe('Optional description of the assignments'),
+  instructions: z.string().optional().describe('Optional instructions for students'),
+  maxPoints: z.number().optional().default(100).describe('Maximum points for each assignment (default: 100)'),
+});
+
+export type ParallelFormsArgs = z.infer<typeof parallelFormsSchema>;
+
+interface Form {
+  label: string;
+  pdfUrl: string;
+  answerKeyPdfUrl?: string;
+}
+
+function textResult(text: string, isError = false): CallToolResult {
+  return {
+    content: [{ type: 'text' as const, text }],
+    ...(isError ? { isError: true } : {}),
+  };
+}
+
+/**
+ * Deals students out over the forms in roster order (sorted by name), so
+ * students listed next to each other get different forms.
+ */
+function distributeStudents(studentIds: string[], formCount: number): string[][] {
+  const groups: string[][] = Array.from({ length: formCount }, () => []);
+  studentIds.forEach((studentId, index) => groups[index % formCount].push(studentId));
+  return groups;
+}
+
+export async function createParallelForms(args: ParallelFormsArgs, services: Services): Promise<CallToolResult> {
+  try {
+    const base = await services.worksheetStorage.getWorksheetByPdfUrl(args.worksheetPdfUrl);
+    if (!base) {
+      return textResult(`No stored worksheet found for ${args.worksheetPdfUrl}. Generate it with generate-worksheet first.`, true);
+    }
+    if (!base.document) {
+      return textResult(`The worksheet "${base.title}" was stored without its structured content, so parallel forms cannot be generated. Generate it again with generate-worksheet.`, true);
+    }
+
+    const forms: Form[] = [{ label: 'A', pdfUrl: base.worksheetPdfUrl, answerKeyPdfUrl: base.answerKeyPdfUrl }];
+    for (const label of FORM_LABELS.slice(1, args.formCount)) {
+      const form = await services.worksheets.generateAlternativeVersionWithPDF(base.document, {
+        settings: base.settings,
+        formLabel: label,
+        baseWorksheetPdfUrl: base.worksheetPdfUrl,
+      });
+      if (!form.answerKeyPdfUrl) {
+        throw new Error(`Form ${label} was generated without an answer key and could not be stored for grading`);
+      }
+      forms.push({ label, pdfUrl: form.pdfUrl, answerKeyPdfUrl: form.answerKeyPdfUrl });
+    }
+
+    let responseText = `📑 **${forms.length} Parallel Forms of "${base.title}"**\n\n`;
+    responseText += `Every form has the same sections, activity types and point values (${base.totalPoints ?? 'same'} points in total).\n\n`;
+    responseText += forms.map(form =>
+      `• **Form ${form.label}**${form.label === 'A' ? ' (original)' : ''}\n  - Worksheet PDF: ${form.pdfUrl}\n  - Answer Key PDF: ${form.answerKeyPdfUrl || 'not available'}`
+    ).join('\n');
+    responseText += '\n';
+
+    if (!args.courseId) {
+      responseText += `\nPass a courseId to assign the forms to students.`;
+      return textResult(responseText);
+    }
+
+    const service = services.classroom;
+    const roster = await service.getCourseStudents(args.courseId);
+    const wanted = args.studentIds ? new Set(args.studentIds) : null;
+    const studentIds = roster
+      .filter(student => student.userId && (!wanted || wanted.has(student.userId)))
+      .sort((a, b) => (a.profile?.name?.fullName || '').localeCompare(b.profile?.name?.fullName || ''))
+      .map(student => student.userId!);
+
+    if (studentIds.length === 0) {
+      return textResult(`${responseText}\nNo matching students found in course ${args.courseId}, so no assignments were created.`, true);
+    }
+
+    const groups = distributeStudents(studentIds, forms.length);
+    let failed = 0;
+    responseText += `\n**Assignments:**\n`;
+
+    for (const [index, form] of forms.entries()) {
+      if (groups[index].length === 0) continue;
+
+      try {
+        // Each form is its own assignment, so grading finds the form's answer key by assignment ID
+        const result = await service.createAssignmentWithWorksheet({
+          courseId: args.courseId,
+          title: args.title || base.title,
+          pdfUrl: form.pdfUrl,
+          description: args.description,
+          instructions: args.instructions,
+          maxPoints: args.maxPoints,
+          assigneeMode: 'INDIVIDUAL_STUDENTS',
+          studentIds: groups[index],
+        });
+        responseText += `• **Form ${form.label}** → ${result.assignedToCount} student(s), assignment ID ${result.assignment.id} (${result.assignment.alternateLink})\n`;
+      } catch (error) {
+        failed++;
+        responseText += `• **Form ${form.label}** ❌ ${error instanceof Error ? error.message : 'Unknown error'}\n`;
+      }
+    }
+
+    responseText += `\nGrade each assignment ID with google-classroom-grade-all-submissions; each one is graded against its own form's answer key.`;
+
+    return textResult(responseText, failed > 0 && failed === groups.filter(group => group.length > 0).length);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    if (errorMessage.includes('Authentication required')) {
+      return textResult('Authentication required. Please run "npm run auth" to authenticate with Google Classroom.', true);
+    }
+
+    return textResult(`Error creating parallel forms: ${errorMessage}`, true);
+  }
+}
@@ -0,0 +1,158 @@
+import { z } from 'zod';
+import { type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { GradingHistoryRecord } from '../storage/gradingHistoryManager.js';
+import type { Services } from '../../services.js';
+
+export const generateRemediationSchema = z.object({
+  courseId: z.string().describe('The ID of the course'),
+  assignmentId: z.string().describe('The graded assignment to follow up on (graded with google-classroom-grade-all-submissions)'),
+  minGroupSize: z.number().int().min(1).optional().default(1).describe('Skip scaffolding areas shared by fewer students than this. Default: 1'),
+  maxGroups: z.number().int().min(1).max(10).optional().default(5).describe('Maximum number of practice worksheets to create, largest groups first. Default: 5'),
+  titlePrefix: z.string().optional().default('Follow-up practice').describe('Assignment title prefix; the practiced concepts are appended. Default: "Follow-up practice"'),
+  maxPoints: z.number().optional().default(100).describe('Maximum points for each assignment (default: 100)'),
+  previewOnly: z.boolean().optional().default(false).describe('Only show the groups, without generating worksheets or creating assignments'),
+});
+
+export type GenerateRemediationArgs = z.infer<typeof generateRemediationSchema>;
+
+interface RemediationGroup {
+  concepts: string[];
+  students: Array<{ studentId: string; studentName: string; }>;
+}
+
+function textResult(text: string, isError = false): CallToolResult {
+  return {
+    content: [{ type: 'text' as const, text }],
+    ...(isError ? { isError: true } : {}),
+  };
+}
+
+function normalizeArea(area: string): string {
+  return area.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[.;:]+$/, '');
+}
+
+/**
+ * Keeps each student's most recent result for the assignment, so re-grading
+ * does not put a student in a group twice.
+ */
+function latestPerStudent(records: GradingHistoryRecord[]): GradingHistoryRecord[] {
+  const latest = new Map<string, GradingHistoryRecord>();
+  for (const record of records) {
+    latest.set(record.studentId, record);
+  }
+  return [...latest.values()];
+}
+
+/**
+ * Groups students by the scaffolding areas they share. Areas needed by exactly
+ * the same students are practiced on one worksheet.
+ */
+function groupByScaffoldingArea(records: GradingHistoryRecord[]): RemediationGroup[] {
+  const byArea = new Map<string, { label: string; students: Map<string, string>; }>();
+
+  for (const record of records) {
+    const recommendations = record.learningRecommendations;
+    if (!recommendations.needsScaffolding) continue;
+
+    for (const area of recommendations.scaffoldingAreas) {
+      const key = normalizeArea(area);
+      if (!key) continue;
+
+      const group = byArea.get(key) || { label: area.trim(), students: new Map<string, string>() };
+      group.students.set(record.studentId, record.studentName);
+      byArea.set(key, group);
+    }
+  }
+
+  const byStudentSet = new Map<string, RemediationGroup>();
+  for (const { label, students } of byArea.values()) {
+    const studentKey = [...students.keys()].sort().join(',');
+    const group = byStudentSet.get(studentKey) || {
+      concepts: [],
+      students: [...students].map(([studentId, studentName]) => ({ studentId, studentName })),
+    };
+    group.concepts.push(label);
+    byStudentSet.set(studentKey, group);
+  }
+
+  return [...byStudentSet.values()].sort((a, b) => b.students.length - a.students.length);
+}
+
+function formatGroup(group: RemediationGroup, index: number): string {
+  return `**Group ${index + 1}: ${group.concepts.join(', ')}** (${group.students.length} student(s))\n` +
+    group.students.map(student => `  - ${student.studentName} (${student.studentId})`).join('\n');
+}
+
+export async function generateRemediation(args: GenerateRemediationArgs, services: Services): Promise<CallToolResult> {
+  try {
+    const records = latestPerStudent(
+      await services.gradingHistory.getRecords({ courseId: args.courseId, assignmentId: args.assignmentId })
+    );
+
+    if (records.length === 0) {
+      return textResult(`No grading results found for assignment ${args.assignmentId}. Grade it with google-classroom-grade-all-submissions first.`, true);
+    }
+
+    const groups = groupByScaffoldingArea(records)
+      .filter(group => group.students.length >= args.minGroupSize)
+      .slice(0, args.maxGroups);
+
+    if (groups.length === 0) {
+      return textResult(`No student in the latest grading of assignment ${args.assignmentId} needs scaffolding${args.minGroupSize > 1 ? ` in an area shared by at least ${args.minGroupSize} students` : ''}. No follow-up practice needed.`);
+    }
+
+    let responseText = `🧩 **Follow-up Practice for ${records[0].assignmentTitle || args.assignmentId}**\n\n`;
+    responseText += groups.map(formatGroup).join('\n\n') + '\n';
+
+    if (args.previewOnly) {
+      responseText += `\nPreview only - no worksheets or assignments were created.`;
+      return textResult(responseText);
+    }
+
+    const source = await services.worksheetStorage.getWorksheetByAssignment(args.assignmentId);
+    const profiles = await services.studentProfiles.getCourseProfiles(args.courseId);
+    const service = services.classroom;
+
+    let failed = 0;
+    responseText += `\n**Assignments:**\n`;
+
+    for (const [index, group] of groups.entries()) {
+      try {
+        const groupIds = new Set(group.students.map(student => student.studentId));
+        const worksheet = await services.worksheets.generateRemediationWorksheetWithPDF(group.concepts, {
+          settings: source?.settings,
+          sourceDocument: source?.document,
+          learnerProfiles: profiles.filter(profile => groupIds.has(profile.studentId)),
+        });
+
+        const result = await service.createAssignmentWithWorksheet({
+          courseId: args.courseId,
+          title: `${args.titlePrefix}: ${group.concepts.join(', ')}`,
+          pdfUrl: worksheet.pdfUrl,
+          description: worksheet.summary,
+          maxPoints: args.maxPoints,
+          assigneeMode: 'INDIVIDUAL_STUDENTS',
+          studentIds: [...groupIds],
+        });
+
+        responseText += `• **Group ${index + 1}** → "${worksheet.title}", ${result.assignedToCount} student(s), assignment ID ${result.assignment.id}\n`;
+        responseText += `  - Worksheet PDF: ${worksheet.pdfUrl}\n`;
+        responseText += `  - Answer Key PDF: ${worksheet.answerKeyPdfUrl || 'not available'}\n`;
+        responseText += `  - Google Classroom: ${result.assignment.alternateLink}\n`;
+      } catch (error) {
+        failed++;
+        responseText += `• **Group ${index + 1}** ❌ ${error instanceof Error ? error.message : 'Unknown error'}\n`;
+      }
+    }
+
+    return textResult(responseText, failed === groups.length);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    if (errorMessage.includes('Authentication required')) {
+      return textResult('Authentication required. Please run "npm run auth" to authenticate with Google Classroom.', true);
+    }
+
+    return textResult(`Error generating follow-up practice: ${errorMessage}`, true);
+  }
+}
@@ -0,0 +1,43 @@
+import type { Services } from '../../services.js';
+
+export interface RosterStudent {
+  studentId: string;
+  studentName: string;
+  courseName?: string;
+}
+
+/**
+ * Resolves a student ID or full name against the course roster. Throws when the
+ * student is not enrolled or the name matches more than one student.
+ */
+export async function resolveRosterStudent(services: Services, courseId: string, student: string): Promise<RosterStudent> {
+  const service = services.classroom;
+  const roster = await service.getCourseStudents(courseId);
+
+  const byId = roster.find(s => s.userId === student);
+  const matches = byId
+    ? [byId]
+    : roster.filter(s => s.profile?.name?.fullName?.toLowerCase() === student.trim().toLowerCase());
+
+  if (matches.length === 0) {
+    throw new Error(`"${student}" is not a student in course ${courseId}. Use google-classroom-course-details or google-classroom-comprehensive-data to look up student IDs.`);
+  }
+  if (matches.length > 1) {
+    const candidates = matches.map(s => `${s.profile?.name?.fullName} (${s.userId})`).join(', ');
+    throw new Error(`"${student}" matches several students: ${candidates}. Use the student ID instead.`);
+  }
+
+  let courseName: string | undefined;
+  try {
+    const course = await service.client.getCourse(courseId);
+    courseName = course.name || undefined;
+  } catch {
+    // Course name is only informational
+  }
+
+  return {
+    studentId: matches[0].userId!,
+    studentName: matches[0].profile?.name?.fullName || 'Unknown Student',
+    courseName,
+  };
+}
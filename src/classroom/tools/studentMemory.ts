@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import { type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { resolveRosterStudent } from './roster.js';
+import type { RecalledObservation } from '../../memory/studentMemory.js';
+import type { Services } from '../../services.js';
+
+export const recallStudentMemoriesSchema = z.object({
+  query: z.string().describe('What to look for, in plain language, e.g. "struggles with fractions" or "needs more challenge in reading"'),
+  courseId: z.string().optional().describe('Only recall observations from this course'),
+  student: z.string().optional().describe('Only recall observations about this student: the student ID, or the full name as listed in the roster (requires courseId)'),
+  kinds: z.array(z.enum(['note', 'grading', 'remark']))
+    .optional()
+    .describe('Only recall these kinds of observations: teacher notes, grading recommendations or teacher remarks. Default: all'),
+  limit: z.number().int().min(1).max(50).optional().default(10).describe('Maximum number of observations to return. Default: 10'),
+});
+
+export const rememberStudentObservationSchema = z.object({
+  courseId: z.string().describe('The ID of the course'),
+  student: z.string().describe('The student ID (user ID) or the student\'s full name as listed in the course roster'),
+  text: z.string().min(1).describe('The observation to remember, e.g. "Explains reasoning well orally but avoids writing it down"'),
+});
+
+function textResult(text: string, isError = false): CallToolResult {
+  return {
+    content: [{ type: 'text' as const, text }],
+    ...(isError ? { isError: true } : {}),
+  };
+}
+
+function handleError(action: string, error: unknown): CallToolResult {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+  if (errorMessage.includes('Authentication required')) {
+    return textResult('Authentication required. Please run "npm run auth" to authenticate with Google Classroom.', true);
+  }
+
+  return textResult(`Error ${action}: ${errorMessage}`, true);
+}
+
+// Groups matches by student, keeping students in the order of their best match
+function formatRecall(query: string, matches: RecalledObservation[]): string {
+  const students = new Map<string, RecalledObservation[]>();
+  for (const match of matches) {
+    const key = `${match.observation.courseId}:${match.observation.studentId}`;
+    students.set(key, [...(students.get(key) || []), match]);
+  }
+
+  let text = `🧠 **Student memories for "${query}"** (${matches.length} observation${matches.length === 1 ? '' : 's'}, ${students.size} student${students.size === 1 ? '' : 's'})\n`;
+  for (const studentMatches of students.values()) {
+    const { studentName, studentId, courseId } = studentMatches[0].observation;
+    text += `\n**${studentName}** (${studentId}, course ${courseId})\n`;
+    text += studentMatches.map(({ observation, score }) =>
+      `• [${observation.kind}, ${observation.observedAt.slice(0, 10)}, match ${score.toFixed(2)}] ${observation.text}`
+    ).join('\n') + '\n';
+  }
+  return text;
+}
+
+export async function recallStudentMemories(args: z.infer<typeof recallStudentMemoriesSchema>, services: Services): Promise<CallToolResult> {
+  try {
+    if (args.student && !args.courseId) {
+      return textResult('courseId is required when filtering by student.', true);
+    }
+    const studentId = args.student && args.courseId
+      ? (await resolveRosterStudent(services, args.courseId, args.student)).studentId
+      : undefined;
+
+    const matches = await services.studentMemory.recall(args.query, {
+      courseId: args.courseId,
+      studentId,
+      kinds: args.kinds,
+      limit: args.limit,
+    });
+
+    if (matches.length === 0) {
+      return textResult('🧠 No student observations found. Memories are built from teacher notes, grading runs and remembered observations.');
+    }
+
+    return textResult(formatRecall(args.query, matches));
+  } catch (error) {
+    return handleError('recalling student memories', error);
+  }
+}
+
+export async function rememberStudentObservation({ courseId, student, text }: z.infer<typeof rememberStudentObservationSchema>, services: Services): Promise<CallToolResult> {
+  try {
+    const { studentId, studentName } = await resolveRosterStudent(services, courseId, student);
+    const observation = await services.studentMemory.rememberRemark(courseId, studentId, studentName, text.trim());
+
+    return textResult(`🧠 Remembered for ${studentName} (${studentId}) on ${observation.observedAt.slice(0, 10)}:\n${observation.text}`);
+  } catch (error) {
+    return handleError('remembering student observation', error);
+  }
+}
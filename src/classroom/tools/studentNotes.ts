@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import { type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { resolveRosterStudent } from './roster.js';
+import { MAX_NOTE_LENGTH, type StudentNote } from '../storage/studentNotesManager.js';
+import type { Services } from '../../services.js';
+
+const studentFields = {
+  courseId: z.string().describe('The ID of the course'),
+  student: z.string().describe('The student ID (user ID) or the student\'s full name as listed in the course roster'),
+};
+
+export const getStudentNoteSchema = z.object({
+  ...studentFields,
+  includeHistory: z.boolean().optional().default(false).describe('Whether to include previous versions of the note'),
+});
+
+export const setStudentNoteSchema = z.object({
+  ...studentFields,
+  note: z.string().describe(`The new note, replacing the current one (at most 3 sentences, ${MAX_NOTE_LENGTH} characters)`),
+});
+
+export const appendStudentNoteSchema = z.object({
+  ...studentFields,
+  text: z.string().describe('Text to add to the end of the current note'),
+});
+
+export const searchStudentNotesSchema = z.object({
+  searchTerm: z.string().describe('Text to search for in notes, student names and course names'),
+  courseId: z.string().optional().describe('Only search notes in this course'),
+});
+
+export const deleteStudentNoteSchema = z.object(studentFields);
+
+function textResult(text: string, isError = false): CallToolResult {
+  return {
+    content: [{ type: 'text' as const, text }],
+    ...(isError ? { isError: true } : {}),
+  };
+}
+
+function formatNote(note: StudentNote): string {
+  const source = note.source === 'grading' ? ' (updated from grading)' : '';
+  return `**${note.studentName}** (${note.studentId})${note.courseName ? ` - ${note.courseName}` : ''}\n` +
+    `${note.note || '_(empty)_'}\n` +
+    `_Last updated ${note.updatedAt}${source}_`;
+}
+
+function handleError(action: string, error: unknown): CallToolResult {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+  if (errorMessage.includes('Authentication required')) {
+    return textResult('Authentication required. Please run "npm run auth" to authenticate with Google Classroom.', true);
+  }
+
+  return textResult(`Error ${action}: ${errorMessage}`, true);
+}
+
+export async function getStudentNote({ courseId, student, includeHistory }: z.infer<typeof getStudentNoteSchema>, services: Services): Promise<CallToolResult> {
+  try {
+    const { studentId, studentName } = await resolveRosterStudent(services, courseId, student);
+    const notesManager = services.studentNotes;
+    const note = await notesManager.getNote(courseId, studentId);
+
+    if (!note || (!note.note && !note.history?.length)) {
+      return textResult(`📝 No note saved yet for ${studentName} (${studentId}).`);
+    }
+
+    let text = `📝 ${formatNote(note)}`;
+    if (includeHistory && note.history && note.history.length > 0) {
+      text += `\n\n**Previous versions (newest first):**\n`;
+      text += [...note.history].reverse()
+        .map(version => `• ${version.updatedAt}${version.source === 'grading' ? ' (grading)' : ''}: ${version.note}`)
+        .join('\n');
+    }
+
+    return textResult(text);
+  } catch (error) {
+    return handleError('reading student note', error);
+  }
+}
+
+export async function setStudentNote({ courseId, student, note }: z.infer<typeof setStudentNoteSchema>, services: Services): Promise<CallToolResult> {
+  try {
+    const { studentId, studentName, courseName } = await resolveRosterStudent(services, courseId, student);
+    const notesManager = services.studentNotes;
+
+    const updated = await notesManager.updateNote(courseId, studentId, note.trim());
+    if (!updated) {
+      await notesManager.addNote(courseId, studentId, studentName, note.trim(), courseName);
+    }
+
+    const saved = await notesManager.getNote(courseId, studentId);
+    return textResult(`✅ **Note Saved**\n\n${formatNote(saved!)}`);
+  } catch (error) {
+    return handleError('saving student note', error);
+  }
+}
+
+export async function appendStudentNote({ courseId, student, text }: z.infer<typeof appendStudentNoteSchema>, services: Services): Promise<CallToolResult> {
+  try {
+    const { studentId, studentName, courseName } = await resolveRosterStudent(services, courseId, student);
+    const notesManager = services.studentNotes;
+    const existing = await notesManager.getNote(courseId, studentId);
+
+    const combined = [existing?.note?.trim(), text.trim()].filter(Boolean).join(' ');
+    if (combined.length > MAX_NOTE_LENGTH) {
+      return textResult(
+        `The note for ${studentName} would be ${combined.length} characters, over the ${MAX_NOTE_LENGTH}-character limit. ` +
+        `Use google-classroom-set-student-note with a condensed version instead.\n\nCurrent note: ${existing?.note || '(empty)'}`,
+        true
+      );
+    }
+
+    if (existing) {
+      await notesManager.updateNote(courseId, studentId, combined);
+    } else {
+      await notesManager.addNote(courseId, studentId, studentName, combined, courseName);
+    }
+
+    const saved = await notesManager.getNote(courseId, studentId);
+    return textResult(`✅ **Note Updated**\n\n${formatNote(saved!)}`);
+  } catch (error) {
+    return handleError('appending to student note', error);
+  }
+}
+
+export async function searchStudentNotes({ searchTerm, courseId }: z.infer<typeof searchStudentNotesSchema>, services: Services): Promise<CallToolResult> {
+  try {
+    const notes = (await services.studentNotes.searchNotes(searchTerm))
+      .filter(note => note.note && (!courseId || note.courseId === courseId));
+
+    if (notes.length === 0) {
+      return textResult(`No notes found matching "${searchTerm}".`);
+    }
+
+    return textResult(`🔍 **${notes.length} note(s) matching "${searchTerm}"**\n\n${notes.map(formatNote).join('\n\n')}`);
+  } catch (error) {
+    return handleError('searching student notes', error);
+  }
+}
+
+export async function deleteStudentNote({ courseId, student }: z.infer<typeof deleteStudentNoteSchema>, services: Services): Promise<CallToolResult> {
+  try {
+    const { studentId, studentName } = await resolveRosterStudent(services, courseId, student);
+    const deleted = await services.studentNotes.deleteNote(courseId, studentId);
+
+    return deleted
+      ? textResult(`🗑️ Deleted the note for ${studentName} (${studentId}).`)
+      : textResult(`No note saved for ${studentName} (${studentId}).`);
+  } catch (error) {
+    return handleError('deleting student note', error);
+  }
+}
@@ -0,0 +1,130 @@
+import { z } from 'zod';
+import { type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { resolveRosterStudent } from './roster.js';
+import type { StudentProfile } from '../storage/studentProfileManager.js';
+import { ActivityTypeSchema } from '../../worksheets/types.js';
+import type { Services } from '../../services.js';
+
+export const getStudentProfileSchema = z.object({
+  courseId: z.string().describe('The ID of the course'),
+  student: z.string().describe('The student ID (user ID) or the student\'s full name as listed in the course roster'),
+});
+
+export const updateStudentProfileSchema = z.object({
+  courseId: z.string().describe('The ID of the course'),
+  student: z.string().describe('The student ID (user ID) or the student\'s full name as listed in the course roster'),
+  homeLanguages: z.array(z.string()).optional().describe('Languages spoken at home, e.g. ["Spanish"]'),
+  languageProficiency: z.enum(['beginner', 'intermediate', 'advanced', 'fluent'])
+    .optional()
+    .describe('Proficiency in the language of instruction'),
+  accommodations: z.array(z.object({
+    type: z.enum(['IEP', '504', 'other']).describe('Where the accommodation comes from'),
+    description: z.string().describe('The accommodation, e.g. "extended time" or "questions read aloud"'),
+  })).optional().describe('Replaces the list of accommodations'),
+  readingLevel: z.string().optional().describe('Reading level, e.g. "Grade 3" or "Lexile 650L"'),
+  interests: z.array(z.string()).optional().describe('Replaces the list of interests, e.g. ["football", "dinosaurs"]'),
+  preferredActivityTypes: z.array(ActivityTypeSchema).optional().describe('Replaces the list of activity types the student works best with'),
+  addMisconception: z.object({
+    topic: z.string().describe('The topic, e.g. "fractions"'),
+    description: z.string().describe('What the student gets wrong, e.g. "adds denominators"'),
+  }).optional().describe('Record a misconception the student has shown'),
+  resolveMisconceptionTopic: z.string().optional().describe('Mark all open misconceptions on this topic as resolved'),
+});
+
+function textResult(text: string, isError = false): CallToolResult {
+  return {
+    content: [{ type: 'text' as const, text }],
+    ...(isError ? { isError: true } : {}),
+  };
+}
+
+function formatProfile(profile: StudentProfile): string {
+  const lines = [`👤 **${profile.studentName}** (${profile.studentId})${profile.courseName ? ` - ${profile.courseName}` : ''}`];
+
+  const language = profile.languageBackground;
+  lines.push(`• Language background: ${language?.homeLanguages.length
+    ? `${language.homeLanguages.join(', ')}${language.instructionLanguageProficiency ? ` (proficiency: ${language.instructionLanguageProficiency})` : ''}`
+    : '—'}`);
+  lines.push(`• Accommodations: ${profile.accommodations.length ? profile.accommodations.map(a => `${a.type}: ${a.description}`).join('; ') : '—'}`);
+  lines.push(`• Reading level: ${profile.readingLevel || '—'}`);
+  lines.push(`• Interests: ${profile.interests.length ? profile.interests.join(', ') : '—'}`);
+  lines.push(`• Preferred activity types: ${profile.preferredActivityTypes.length ? profile.preferredActivityTypes.join(', ') : '—'}`);
+
+  const open = profile.misconceptions.filter(m => !m.resolvedAt);
+  lines.push(`• Known misconceptions: ${open.length ? '' : '—'}`);
+  lines.push(...open.map(m => `  - ${m.topic}: ${m.description} (noted ${m.notedAt.slice(0, 10)})`));
+
+  lines.push(`• Note: ${profile.note || '—'}`);
+
+  if (profile.performanceTimeline.length > 0) {
+    lines.push(`• Performance timeline:`);
+    lines.push(...profile.performanceTimeline.slice(-10).map(entry =>
+      `  - ${entry.date.slice(0, 10)} ${entry.assignmentTitle || entry.assignmentId}: ${entry.percentageScore}%` +
+      `${entry.needs.length ? ` | needs: ${entry.needs.join(', ')}` : ''}` +
+      `${entry.strengths.length ? ` | strengths: ${entry.strengths.join(', ')}` : ''}`
+    ));
+  }
+
+  return lines.join('\n');
+}
+
+function handleError(action: string, error: unknown): CallToolResult {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+  if (errorMessage.includes('Authentication required')) {
+    return textResult('Authentication required. Please run "npm run auth" to authenticate with Google Classroom.', true);
+  }
+
+  return textResult(`Error ${action}: ${errorMessage}`, true);
+}
+
+export async function getStudentProfile({ courseId, student }: z.infer<typeof getStudentProfileSchema>, services: Services): Promise<CallToolResult> {
+  try {
+    const { studentId, studentName, courseName } = await resolveRosterStudent(services, courseId, student);
+    const profile = await services.studentProfiles.ensureProfile(courseId, studentId, studentName, courseName);
+    return textResult(formatProfile(profile));
+  } catch (error) {
+    return handleError('reading student profile', error);
+  }
+}
+
+export async function updateStudentProfile(args: z.infer<typeof updateStudentProfileSchema>, services: Services): Promise<CallToolResult> {
+  try {
+    const { studentId, studentName, courseName } = await resolveRosterStudent(services, args.courseId, args.student);
+    const profiles = services.studentProfiles;
+    const existing = await profiles.getProfile(args.courseId, studentId);
+
+    const languageChanged = args.homeLanguages !== undefined || args.languageProficiency !== undefined;
+    let profile = await profiles.updateProfile(args.courseId, studentId, studentName, {
+      languageBackground: languageChanged
+        ? {
+          homeLanguages: args.homeLanguages ?? existing?.languageBackground?.homeLanguages ?? [],
+          instructionLanguageProficiency: args.languageProficiency ?? existing?.languageBackground?.instructionLanguageProficiency,
+        }
+        : undefined,
+      accommodations: args.accommodations,
+      readingLevel: args.readingLevel,
+      interests: args.interests,
+      preferredActivityTypes: args.preferredActivityTypes,
+    }, courseName);
+
+    let resolvedText = '';
+    if (args.resolveMisconceptionTopic) {
+      const resolved = await profiles.resolveMisconceptions(args.courseId, studentId, args.resolveMisconceptionTopic);
+      resolvedText = `\n\nResolved ${resolved} misconception(s) on "${args.resolveMisconceptionTopic}".`;
+    }
+    if (args.addMisconception) {
+      profile = await profiles.addMisconception(
+        args.courseId,
+        studentId,
+        studentName,
+        args.addMisconception.topic,
+        args.addMisconception.description
+      );
+    }
+
+    return textResult(`✅ **Profile Updated**\n\n${formatProfile(profile)}${resolvedText}`);
+  } catch (error) {
+    return handleError('updating student profile', error);
+  }
+}
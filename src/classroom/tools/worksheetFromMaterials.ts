@@ -0,0 +1,101 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { loadCourseMaterials } from '../../worksheets/source.js';
+import { AgeGroupSchema, ActivityTypeSchema } from '../../worksheets/types.js';
+import type { Services } from '../../services.js';
+
+export const worksheetFromMaterialsSchema = z.object({
+  courseId: z.string().describe('The ID of the course'),
+  courseWorkId: z.string().describe('The coursework item whose attached Drive files (slides, PDFs, handouts) were used to teach the lesson'),
+  focus: z.string().optional().describe('Extra instructions for the worksheet, e.g. "only the second half of the slides" or "more word problems"'),
+  language: z.string().optional().default('English (US)').describe('Language for all worksheet text. Default: English (US)'),
+  ageGroup: AgeGroupSchema.optional().default('auto').describe('Target age group of the students. Default: auto (inferred from the materials)'),
+  complexity: z.number().min(0).max(3).optional().default(0).describe('Complexity level: 0 = automatic, 1 = simple, 2 = moderate, 3 = advanced. Default: 0'),
+  sectionCount: z.union([z.string(), z.number()]).optional().default('3-4').describe('Number of sections, either a number (3) or a range ("3-4"). Default: "3-4"'),
+  activityTypes: z.union([z.literal('automatic'), z.array(ActivityTypeSchema)])
+    .optional()
+    .default('automatic')
+    .describe('Activity types to use: "automatic" (chosen by age group) or a list such as ["matching", "fill-blanks"]'),
+});
+
+export type WorksheetFromMaterialsArgs = z.infer<typeof worksheetFromMaterialsSchema>;
+
+function textResult(text: string, isError = false): CallToolResult {
+  return {
+    content: [{ type: 'text' as const, text }],
+    ...(isError ? { isError: true } : {}),
+  };
+}
+
+/**
+ * Downloads the coursework's Drive materials into a throwaway directory in
+ * the teacher's downloads and reads their text. The files are deleted again
+ * once they are read.
+ */
+async function readAssignmentMaterials(courseId: string, courseWorkId: string, services: Services) {
+  await fs.mkdir(services.downloadsDirectory, { recursive: true });
+  const downloadPath = await fs.mkdtemp(path.join(services.downloadsDirectory, 'materials-'));
+  try {
+    const { assignment, materialFiles } = await services.classroom.downloadAssignment(courseId, courseWorkId, downloadPath);
+    const { materials, skipped } = await loadCourseMaterials(materialFiles, services.mistral);
+    return { assignment, materialFiles, materials, skipped };
+  } finally {
+    await fs.rm(downloadPath, { recursive: true, force: true });
+  }
+}
+
+export async function generateWorksheetFromMaterials(args: WorksheetFromMaterialsArgs, services: Services): Promise<CallToolResult> {
+  try {
+    const { courseId, courseWorkId, focus, ...settings } = args;
+    const { assignment, materialFiles, materials, skipped } = await readAssignmentMaterials(courseId, courseWorkId, services);
+
+    if (materialFiles.length === 0) {
+      return textResult(`"${assignment.title || courseWorkId}" has no Google Drive materials that could be downloaded. Attach the slides or handouts to it first, or use generate-worksheet with sourceUrl for web materials.`, true);
+    }
+
+    const skippedText = skipped.map(file => `• ${file.title}: ${file.reason}`).join('\n');
+
+    if (materials.length === 0) {
+      return textResult(`None of the materials of "${assignment.title || courseWorkId}" could be read:\n${skippedText}`, true);
+    }
+
+    const prompt = [
+      `Create a practice worksheet that reviews the lesson "${assignment.title || 'Untitled'}".`,
+      assignment.description ? `The teacher described it as: ${assignment.description}` : '',
+      focus ? `Teacher's instructions: ${focus}` : '',
+    ].filter(Boolean).join('\n');
+
+    const result = await services.worksheets.generateWorksheetWithPDF(prompt, { ...settings, includeAnswerKey: true }, { materials });
+
+    let responseText = `✅ **Worksheet Generated from Course Materials**\n\n`;
+    responseText += `**Title:** ${result.title}\n`;
+    responseText += `**Subject:** ${result.subject}\n`;
+    responseText += `**Grade Level:** ${result.grade}\n`;
+    responseText += `**Based On:** ${assignment.title || courseWorkId} (${materials.map(material => material.title).join(', ')})\n`;
+    if (result.totalPoints) {
+      responseText += `**Total Points:** ${result.totalPoints}\n`;
+    }
+    responseText += `\n**Summary:** ${result.summary}\n\n`;
+    responseText += `**📄 PDF Files:**\n`;
+    responseText += `• Worksheet PDF: ${result.pdfUrl}\n`;
+    responseText += `• Answer Key PDF: ${result.answerKeyPdfUrl || 'not available'}\n`;
+
+    if (skipped.length > 0) {
+      responseText += `\n**Materials not used:**\n${skippedText}\n`;
+    }
+
+    responseText += `\nAssign it with google-classroom-create-worksheet-assignment using the worksheet PDF URL.`;
+
+    return textResult(responseText);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    if (errorMessage.includes('Authentication required')) {
+      return textResult('Authentication required. Please run "npm run auth" to authenticate with Google Classroom.', true);
+    }
+
+    return textResult(`Error generating worksheet from course materials: ${errorMessage}`, true);
+  }
+}
@@ -0,0 +1,223 @@
+import { z } from 'zod';
+import { type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { WorksheetRecord } from '../storage/worksheetStorageManager.js';
+import { createWorksheetAssignment } from './createWorksheetAssignment.js';
+import { getAllQuestions } from '../../worksheets/model.js';
+import type { Services } from '../../services.js';
+
+export const listWorksheetsSchema = z.object({
+  courseId: z.string().optional().describe('Only list worksheets assigned in this course'),
+  limit: z.number().int().min(1).optional().default(20).describe('Maximum number of worksheets to list, newest first (default: 20)'),
+});
+
+export const searchWorksheetsSchema = z.object({
+  query: z.string().describe('Text to look for in the title, subject, grade, summary or course name'),
+  courseId: z.string().optional().describe('Only search worksheets assigned in this course'),
+  limit: z.number().int().min(1).optional().default(20).describe('Maximum number of results, newest first (default: 20)'),
+});
+
+export const getWorksheetSchema = z.object({
+  worksheetPdfUrl: z.string().optional().describe('PDF URL of the stored worksheet'),
+  assignmentId: z.string().optional().describe('Look the worksheet up by the Classroom assignment it was assigned as'),
+});
+
+export const deleteWorksheetSchema = z.object({
+  worksheetPdfUrl: z.string().describe('PDF URL of the stored worksheet to delete'),
+});
+
+export const assignLibraryWorksheetSchema = z.object({
+  worksheetPdfUrl: z.string().describe('PDF URL of the stored worksheet to assign'),
+  courseId: z.string().describe('The ID of the course to create the assignment in'),
+  title: z.string().optional().describe('Assignment title. Default: the worksheet title'),
+  description: z.string().optional().describe('Assignment description. Default: the worksheet summary'),
+  instructions: z.string().optional().describe('Optional instructions for students'),
+  maxPoints: z.number().optional().describe('Maximum points for the assignment. Default: the worksheet\'s total points, or 100'),
+  assigneeMode: z.enum(['ALL_STUDENTS', 'INDIVIDUAL_STUDENTS', 'GROUP_WITH_EXCLUSIONS'])
+    .optional()
+    .default('ALL_STUDENTS')
+    .describe('How to assign: ALL_STUDENTS (default), INDIVIDUAL_STUDENTS (requires studentIds), or GROUP_WITH_EXCLUSIONS (requires excludeStudentIds)'),
+  studentIds: z.array(z.string()).optional().describe('Student IDs to assign to (required if assigneeMode is INDIVIDUAL_STUDENTS)'),
+  excludeStudentIds: z.array(z.string()).optional().describe('Student IDs to exclude (required if assigneeMode is GROUP_WITH_EXCLUSIONS)'),
+});
+
+function textResult(text: string, isError = false): CallToolResult {
+  return {
+    content: [{ type: 'text' as const, text }],
+    ...(isError ? { isError: true } : {}),
+  };
+}
+
+function handleError(action: string, error: unknown): CallToolResult {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+  return textResult(`Error ${action}: ${errorMessage}`, true);
+}
+
+function newestFirst(worksheets: WorksheetRecord[]): WorksheetRecord[] {
+  return [...worksheets].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+function describeVariant(worksheet: WorksheetRecord): string {
+  const variant = worksheet.variant;
+  if (!variant) return '';
+  if (variant.form) return `Form ${variant.form}`;
+  if (variant.tier) return `${variant.tier} tier`;
+  return 'version';
+}
+
+function describeAssignments(worksheet: WorksheetRecord): string {
+  const courses = [...new Set(worksheet.assignments.map(link => link.courseName || link.courseId))];
+  return `${worksheet.assignments.length} assignment(s) in ${courses.join(', ')}`;
+}
+
+function formatListEntry(worksheet: WorksheetRecord): string {
+  const details = [
+    worksheet.subject,
+    worksheet.grade,
+    worksheet.totalPoints ? `${worksheet.totalPoints} pts` : undefined,
+    describeVariant(worksheet) || undefined,
+    worksheet.assignments.length ? describeAssignments(worksheet) : 'not assigned',
+  ].filter(Boolean).join(' | ');
+
+  return `• **${worksheet.title}** (${worksheet.createdAt.slice(0, 10)})\n  ${details}\n  ${worksheet.worksheetPdfUrl}`;
+}
+
+function formatWorksheet(worksheet: WorksheetRecord): string {
+  const lines = [`📄 **${worksheet.title}**`];
+
+  lines.push(`• Subject: ${worksheet.subject || '—'}`);
+  lines.push(`• Grade: ${worksheet.grade || '—'}`);
+  lines.push(`• Created: ${worksheet.createdAt.slice(0, 10)}`);
+  lines.push(`• Summary: ${worksheet.summary || '—'}`);
+
+  if (worksheet.settings) {
+    const settings = worksheet.settings;
+    lines.push(`• Language: ${settings.language}${settings.homeLanguage ? ` (instructions also in ${settings.homeLanguage})` : ''}`);
+    lines.push(`• Age group: ${settings.ageGroup} | Activity types: ${Array.isArray(settings.activityTypes) ? settings.activityTypes.join(', ') : 'automatic'}`);
+  }
+
+  lines.push(`• Total points: ${worksheet.totalPoints ?? '—'}`);
+  if (worksheet.gradingBreakdown?.length) {
+    lines.push(...worksheet.gradingBreakdown.map(section => `  - ${section.section}: ${section.points} pts`));
+  }
+
+  if (worksheet.document) {
+    lines.push(`• Content: ${worksheet.document.sections.length} section(s), ${getAllQuestions(worksheet.document).length} question(s)${worksheet.document.passage ? ', with a reading passage' : ''}`);
+  }
+
+  if (worksheet.variant) {
+    lines.push(`• Version: ${describeVariant(worksheet)} of ${worksheet.variant.baseWorksheetPdfUrl}`);
+  }
+
+  lines.push(`• Linked assignments: ${worksheet.assignments.length ? '' : 'not assigned yet'}`);
+  lines.push(...worksheet.assignments.map(link =>
+    `  - ${link.assignmentId} in ${link.courseName || link.courseId} (assigned ${link.linkedAt.slice(0, 10)})`
+  ));
+  lines.push(`• Worksheet PDF: ${worksheet.worksheetPdfUrl}`);
+  lines.push(`• Answer Key PDF: ${worksheet.answerKeyPdfUrl || 'not available'}`);
+  lines.push(`• Gradable: ${worksheet.answerKey ? 'yes (structured answer key stored)' : worksheet.answerKeyHtml ? 'yes' : 'no answer key stored'}`);
+
+  return lines.join('\n');
+}
+
+export async function listWorksheets({ courseId, limit }: z.infer<typeof listWorksheetsSchema>, services: Services): Promise<CallToolResult> {
+  try {
+    const storage = services.worksheetStorage;
+    const worksheets = courseId
+      ? newestFirst(await storage.getWorksheetsByCourse(courseId)).slice(0, limit)
+      : await storage.getRecentWorksheets(limit);
+
+    if (worksheets.length === 0) {
+      return textResult(courseId
+        ? `No stored worksheets are assigned in course ${courseId}.`
+        : 'The worksheet library is empty. Worksheets are stored when they are generated.');
+    }
+
+    const heading = courseId ? `📚 **Worksheets in course ${courseId}**` : '📚 **Worksheet Library** (newest first)';
+    return textResult(`${heading}\n\n${worksheets.map(formatListEntry).join('\n\n')}`);
+  } catch (error) {
+    return handleError('listing worksheets', error);
+  }
+}
+
+export async function searchWorksheets({ query, courseId, limit }: z.infer<typeof searchWorksheetsSchema>, services: Services): Promise<CallToolResult> {
+  try {
+    const results = (await services.worksheetStorage.searchWorksheets(query))
+      .filter(worksheet => !courseId || worksheet.assignments.some(link => link.courseId === courseId));
+
+    if (results.length === 0) {
+      return textResult(`No stored worksheets match "${query}".`);
+    }
+
+    const shown = newestFirst(results).slice(0, limit);
+    return textResult(
+      `🔍 **${results.length} worksheet(s) match "${query}"**${results.length > shown.length ? ` (showing the newest ${shown.length})` : ''}\n\n` +
+      shown.map(formatListEntry).join('\n\n')
+    );
+  } catch (error) {
+    return handleError('searching worksheets', error);
+  }
+}
+
+export async function getWorksheet({ worksheetPdfUrl, assignmentId }: z.infer<typeof getWorksheetSchema>, services: Services): Promise<CallToolResult> {
+  try {
+    if (!worksheetPdfUrl && !assignmentId) {
+      return textResult('Provide either worksheetPdfUrl or assignmentId.', true);
+    }
+
+    const storage = services.worksheetStorage;
+    const worksheet = worksheetPdfUrl
+      ? await storage.getWorksheetByPdfUrl(worksheetPdfUrl)
+      : await storage.getWorksheetByAssignment(assignmentId!);
+
+    if (!worksheet) {
+      return textResult(`No stored worksheet found for ${worksheetPdfUrl || `assignment ${assignmentId}`}.`, true);
+    }
+
+    return textResult(formatWorksheet(worksheet));
+  } catch (error) {
+    return handleError('reading worksheet', error);
+  }
+}
+
+export async function deleteWorksheet({ worksheetPdfUrl }: z.infer<typeof deleteWorksheetSchema>, services: Services): Promise<CallToolResult> {
+  try {
+    const storage = services.worksheetStorage;
+    const worksheet = await storage.getWorksheetByPdfUrl(worksheetPdfUrl);
+    if (!worksheet || !(await storage.deleteWorksheet(worksheetPdfUrl))) {
+      return textResult(`No stored worksheet found for ${worksheetPdfUrl}.`, true);
+    }
+
+    let responseText = `🗑️ Deleted "${worksheet.title}" from the worksheet library.`;
+    if (worksheet.assignments.length > 0) {
+      const assignmentIds = worksheet.assignments.map(link => link.assignmentId).join(', ');
+      responseText += `\n\nAssignment(s) ${assignmentIds} stay in Google Classroom, but their answer key is no longer stored, so they cannot be graded with google-classroom-grade-all-submissions.`;
+    }
+    responseText += `\nThe PDF files themselves are not deleted.`;
+
+    return textResult(responseText);
+  } catch (error) {
+    return handleError('deleting worksheet', error);
+  }
+}
+
+/**
+ * Assigns a stored worksheet in a course without regenerating it. The
+ * assignment is linked to the stored answer key, so it can be graded.
+ */
+export async function assignLibraryWorksheet(args: z.infer<typeof assignLibraryWorksheetSchema>, services: Services): Promise<CallToolResult> {
+  try {
+    const worksheet = await services.worksheetStorage.getWorksheetByPdfUrl(args.worksheetPdfUrl);
+    if (!worksheet) {
+      return textResult(`No stored worksheet found for ${args.worksheetPdfUrl}. Find it with google-classroom-search-worksheets first.`, true);
+    }
+
+    return await createWorksheetAssignment({
+      ...args,
+      title: args.title || worksheet.title,
+      description: args.description ?? worksheet.summary,
+      maxPoints: args.maxPoints ?? worksheet.totalPoints ?? 100,
+    }, services) as CallToolResult;
+  } catch (error) {
+    return handleError('assigning worksheet', error);
+  }
+}
@@ -14,6 +14,15 @@ const EnvSchema = z.object({
   BRIA_API_KEY: z.string().optional(),
   GOOGLE_CREDENTIALS: z.string().optional(),
   GOOGLE_TOKENS: z.string().optional(),
+  TENANCY: z.enum(["single", "multi"]).default("single"), // multi: each teacher connects their own Google account
+  ENCRYPTION_KEY: z.string().optional(), // 32 bytes, base64 or hex; encrypts tokens, stored documents and downloads
+  ADMIN_TOKEN: z.string().optional(), // Guards /auth/google/* for the shared Google account
+  ENCRYPTION_PREVIOUS_KEYS: z.string().optional(), // Comma-separated keys still accepted for decryption while rotating
+  STORAGE_BACKEND: z.enum(["json", "sqlite"]).default("json"),
+  STORAGE_DIR: z.string().optional(), // Defaults to the working directory
+  SQLITE_DB_PATH: z.string().optional(), // Defaults to eduadapt.db in STORAGE_DIR
+  MEMORY_EMBEDDER: z.enum(["mistral", "local"]).default("mistral"),
+  MEMORY_VECTOR_STORE: z.enum(["storage", "memory"]).default("storage"),
 });
 
 const parsedEnv = EnvSchema.safeParse(process.env);
@@ -0,0 +1,204 @@
+import type { ActivityType } from "../worksheets/types.js";
+import type { AnswerKeyItem, WorksheetQuestion } from "../worksheets/model.js";
+import { optionLetter } from "../worksheets/renderer.js";
+
+/**
+ * Relative tolerance for numeric answers: 1% of the expected value, and never
+ * less than 0.01 so rounded answers to small values still count.
+ */
+export const NUMERIC_TOLERANCE = 0.01;
+
+const OBJECTIVE_TYPES: ActivityType[] = ["multiple-choice", "true-false", "matching", "sequencing", "fill-blanks", "calculations"];
+
+// True/false labels printed on a worksheet that is not in English
+export type TrueFalseLabels = { true: string; false: string; };
+
+export interface AutoScore {
+  pointsAwarded: number;
+  isCorrect: boolean;
+  rationale: string;
+}
+
+export function normalizeAnswer(answer: string): string {
+  return answer
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[.,;:!?"'`()[\]{}]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function parseNumber(answer: string): number | null {
+  const match = answer.replace(/(\d),(?=\d{3}\b)/g, "$1").match(/-?\d+(?:[.,]\d+)?(?:\s*\/\s*\d+)?/);
+  if (!match) return null;
+
+  const [numerator, denominator] = match[0].replace(",", ".").split("/").map(part => parseFloat(part.trim()));
+  if (denominator !== undefined) {
+    return denominator === 0 ? null : numerator / denominator;
+  }
+  return Number.isFinite(numerator) ? numerator : null;
+}
+
+function numbersMatch(actual: number, expected: number): boolean {
+  return Math.abs(actual - expected) <= Math.max(0.01, NUMERIC_TOLERANCE * Math.abs(expected));
+}
+
+function isNumericAnswer(answer: string): boolean {
+  return /^\s*-?[\d.,\s/]+\s*$/.test(answer) && parseNumber(answer) !== null;
+}
+
+function roundPoints(points: number): number {
+  return Math.round(points * 100) / 100;
+}
+
+function splitList(answer: string): string[] {
+  return answer.split(/[,;\s]+/).map(part => part.trim()).filter(Boolean);
+}
+
+function fullOrNothing(correct: boolean, points: number, expected: string): AutoScore {
+  return {
+    pointsAwarded: correct ? points : 0,
+    isCorrect: correct,
+    rationale: correct ? "Matches the answer key" : `Expected ${expected}`
+  };
+}
+
+function proportional(correctCount: number, total: number, points: number, unit: string): AutoScore {
+  const pointsAwarded = total > 0 ? roundPoints(points * correctCount / total) : 0;
+  return {
+    pointsAwarded,
+    isCorrect: correctCount === total && total > 0,
+    rationale: `${correctCount} of ${total} ${unit} correct`
+  };
+}
+
+function scoreMultipleChoice(item: AnswerKeyItem, studentAnswer: string, question?: WorksheetQuestion): AutoScore | null {
+  const expected = item.answer.trim().charAt(0).toUpperCase();
+  const options = question?.options || [];
+
+  // A letter counts on its own ("B", "(b)", "B.") or followed by the text of
+  // that option ("B) 1/2"); "A cat" or "I think B" are left to the grader
+  const letterMatch = studentAnswer.trim().match(/^\(?([A-Za-z])(?:[.)]|\s|$)\s*(.*)$/);
+  if (letterMatch) {
+    const letter = letterMatch[1].toUpperCase();
+    const optionText = options.find((_, index) => optionLetter(index) === letter);
+    if (!letterMatch[2] || (optionText !== undefined && normalizeAnswer(letterMatch[2]) === normalizeAnswer(optionText))) {
+      return fullOrNothing(letter === expected, item.points, expected);
+    }
+  }
+
+  // The student may have copied the option text instead of its letter
+  const optionIndex = options.findIndex(option => normalizeAnswer(option) === normalizeAnswer(studentAnswer));
+  if (optionIndex >= 0) {
+    return fullOrNothing(optionLetter(optionIndex) === expected, item.points, expected);
+  }
+  return null;
+}
+
+function scoreTrueFalse(item: AnswerKeyItem, studentAnswer: string, labels?: TrueFalseLabels): AutoScore | null {
+  const toBoolean = (answer: string): boolean | null => {
+    const normalized = normalizeAnswer(answer);
+    // The labels printed on the worksheet take precedence, e.g. "V"/"F" in Spanish
+    if (labels && normalized === normalizeAnswer(labels.true)) return true;
+    if (labels && normalized === normalizeAnswer(labels.false)) return false;
+    if (["t", "true", "yes", "richtig", "wahr", "vrai", "verdadero"].includes(normalized)) return true;
+    if (["f", "false", "no", "falsch", "faux", "falso"].includes(normalized)) return false;
+    return null;
+  };
+
+  const expected = toBoolean(item.answer);
+  const actual = toBoolean(studentAnswer);
+  if (expected === null || actual === null) return null;
+  return fullOrNothing(expected === actual, item.points, item.answer);
+}
+
+function scoreOrderedList(item: AnswerKeyItem, studentAnswer: string, unit: string): AutoScore | null {
+  const expected = splitList(item.answer).map(part => part.toUpperCase());
+  const actual = splitList(studentAnswer).map(part => part.toUpperCase());
+  if (expected.length === 0 || actual.length === 0) return null;
+
+  const correctCount = expected.filter((value, index) => actual[index] === value).length;
+  return proportional(correctCount, expected.length, item.points, unit);
+}
+
+function blankMatches(actual: string, expected: string[]): boolean {
+  const actualNumber = isNumericAnswer(actual) ? parseNumber(actual) : null;
+  return expected.some(candidate => isNumericAnswer(candidate) && actualNumber !== null
+    ? numbersMatch(actualNumber, parseNumber(candidate)!)
+    : normalizeAnswer(actual) === normalizeAnswer(candidate));
+}
+
+function scoreFillBlanks(item: AnswerKeyItem, studentAnswer: string): AutoScore | null {
+  const expectedBlanks = item.answer.split("|").map(part => part.trim());
+  const acceptedBlanks = item.acceptedAnswers.map(answer => answer.split("|").map(part => part.trim()));
+  const actualBlanks = studentAnswer.split("|").map(part => part.trim());
+
+  const correctCount = expectedBlanks.filter((expected, index) => {
+    const candidates = [expected, ...acceptedBlanks.map(blanks => blanks[index]).filter(Boolean)];
+    return blankMatches(actualBlanks[index] || "", candidates);
+  }).length;
+
+  // Wrong text answers may still be acceptable synonyms and worked-out answers
+  // need reading, so only plain numbers in numeric blanks are failed without
+  // asking the grader
+  const allNumeric = expectedBlanks.every((expected, index) =>
+    isNumericAnswer(expected) && (!actualBlanks[index] || isNumericAnswer(actualBlanks[index])));
+  if (correctCount < expectedBlanks.length && !allNumeric) return null;
+
+  return proportional(correctCount, expectedBlanks.length, item.points, expectedBlanks.length === 1 ? "blank" : "blanks");
+}
+
+function scoreNumeric(item: AnswerKeyItem, studentAnswer: string): AutoScore | null {
+  if (!isNumericAnswer(item.answer)) return null;
+
+  // Shown work such as "234 × 56 = 13104" is left to the grader
+  if (!isNumericAnswer(studentAnswer)) return null;
+  const actual = parseNumber(studentAnswer)!;
+
+  const candidates = [item.answer, ...item.acceptedAnswers].map(parseNumber).filter((value): value is number => value !== null);
+  return fullOrNothing(candidates.some(expected => numbersMatch(actual, expected)), item.points, item.answer);
+}
+
+/**
+ * Whether a question's activity type can be scored without a model. The
+ * scorer may still defer individual answers it cannot interpret.
+ */
+export function isObjectiveType(type: ActivityType): boolean {
+  return OBJECTIVE_TYPES.includes(type);
+}
+
+/**
+ * Scores an objective answer against the key. Returns null when the answer has
+ * to be judged by the grader instead (open-ended types, unreadable answers or
+ * text that may be an acceptable synonym).
+ */
+export function scoreObjectiveAnswer(
+  item: AnswerKeyItem,
+  studentAnswer: string,
+  question?: WorksheetQuestion,
+  labels?: TrueFalseLabels
+): AutoScore | null {
+  if (!isObjectiveType(item.type)) return null;
+
+  if (!studentAnswer.trim()) {
+    return { pointsAwarded: 0, isCorrect: false, rationale: "No answer given" };
+  }
+
+  switch (item.type) {
+    case "multiple-choice":
+      return scoreMultipleChoice(item, studentAnswer, question);
+    case "true-false":
+      return scoreTrueFalse(item, studentAnswer, labels);
+    case "matching":
+      return scoreOrderedList(item, studentAnswer, "matches");
+    case "sequencing":
+      return scoreOrderedList(item, studentAnswer, "positions");
+    case "fill-blanks":
+      return scoreFillBlanks(item, studentAnswer);
+    case "calculations":
+      return scoreNumeric(item, studentAnswer);
+    default:
+      return null;
+  }
+}
@@ -1,41 +1,98 @@
 import { z } from "zod";
-import { WorksheetStorageManager } from "../classroom/storage/worksheetStorageManager.js";
-import { mistralClient } from "../llm/mistral.js";
-import { getLangchainMistralClient } from "../llm/langchain-mistral.js";
+import type { WorksheetStorageManager } from "../classroom/storage/worksheetStorageManager.js";
+import type { GradingHistoryManager } from "../classroom/storage/gradingHistoryManager.js";
+import { formatProfileForPrompt, type StudentProfileManager } from "../classroom/storage/studentProfileManager.js";
+import type { StudentMemory } from "../memory/studentMemory.js";
+import type { MistralClientApi } from "../llm/mistral.js";
+import type { LangChainMistralClientApi } from "../llm/langchain-mistral.js";
+import { ANSWER_FORMAT_GUIDE, getAllQuestions } from "../worksheets/model.js";
+import type { AnswerKey, AnswerKeyItem, WorksheetDocument } from "../worksheets/model.js";
+import type { WorksheetSettings } from "../worksheets/types.js";
+import { scoreObjectiveAnswer } from "./autoScorer.js";
+import type { AutoScore } from "./autoScorer.js";
+
+/**
+ * Model used for answer extraction and grading, recorded with every result.
+ */
+export const GRADING_MODEL = "mistral-small-latest";
+
+const LearningRecommendationsSchema = z.object({
+  needsScaffolding: z.boolean().describe("Whether the student would benefit from additional support"),
+  scaffoldingAreas: z.array(z.string()).describe("Specific areas where support is needed"),
+  readyForAcceleration: z.boolean().describe("Whether the student is ready for more advanced material"),
+  accelerationAreas: z.array(z.string()).describe("Specific areas where acceleration could be beneficial"),
+  generalRecommendation: z.string().describe("General recommendation for next steps (1-2 sentences)")
+}).describe("Personalized learning recommendations");
+
+const GradedQuestionSchema = z.object({
+  questionNumber: z.number().int().describe("The question number from the answer key"),
+  studentAnswer: z.string().describe("The student's answer exactly as found in their work, or an empty string if unanswered"),
+  pointsAwarded: z.number().describe("Points awarded for this question, between 0 and its point value"),
+  isCorrect: z.boolean().describe("Whether the answer is fully correct"),
+  rationale: z.string().describe("One sentence explaining the points awarded")
+});
+
+const StudentAnswersSchema = z.object({
+  answers: z.array(z.object({
+    questionNumber: z.number().int().describe("The question number"),
+    answer: z.string().describe("The student's answer in the requested format, or an empty string if unanswered or illegible")
+  })).describe("One entry for every question listed")
+});
 
 const GradingResultSchema = z.object({
-  overallScore: z.number().describe("Total score achieved out of total possible points"),
-  totalPossiblePoints: z.number().describe("Total possible points for the worksheet"),
-  percentageScore: z.number().describe("Percentage score (0-100)"),
-  sectionScores: z.array(z.object({
+  questionResults: z.array(GradedQuestionSchema).describe("One result for every question listed for grading"),
+  sectionFeedback: z.array(z.object({
     sectionName: z.string().describe("Name of the section"),
-    pointsEarned: z.number().describe("Points earned in this section"),
-    pointsPossible: z.number().describe("Total possible points for this section"),
     feedback: z.string().describe("Brief, constructive feedback for this section (1-2 sentences)")
-  })).describe("Breakdown of scores by section"),
+  })).describe("Feedback for each section"),
   overallFeedback: z.string().describe("Overall feedback on the submission (2-3 sentences)"),
-  learningRecommendations: z.object({
-    needsScaffolding: z.boolean().describe("Whether the student would benefit from additional support"),
-    scaffoldingAreas: z.array(z.string()).describe("Specific areas where support is needed"),
-    readyForAcceleration: z.boolean().describe("Whether the student is ready for more advanced material"),
-    accelerationAreas: z.array(z.string()).describe("Specific areas where acceleration could be beneficial"),
-    generalRecommendation: z.string().describe("General recommendation for next steps (1-2 sentences)")
-  }).describe("Personalized learning recommendations")
+  learningRecommendations: LearningRecommendationsSchema
 });
 
+// Worksheets generated before structured answer keys only have the key as HTML,
+// so the model also has to report what each question expects and is worth.
+const LegacyGradingResultSchema = GradingResultSchema.extend({
+  questionResults: z.array(GradedQuestionSchema.extend({
+    sectionName: z.string().describe("Name of the section the question belongs to"),
+    expectedAnswer: z.string().describe("The correct answer from the answer key"),
+    pointsPossible: z.number().describe("Points the question is worth according to the answer key")
+  })).describe("One result for every question in the answer key")
+});
+
+type GradingResponse = z.infer<typeof GradingResultSchema>;
+
+function clampPoints(points: number, max: number): number {
+  return Math.min(Math.max(points, 0), Math.max(max, 0));
+}
+
 export interface StudentSubmission {
   assignmentId: string;
+  courseId?: string; // Used to look up the student's learner profile
   userName: string;
   userId: string;
   pdfUrl: string;
 }
 
+export interface QuestionResult {
+  questionNumber: number;
+  sectionName: string;
+  sectionIndex?: number; // Position of the section in the worksheet; results graded without an answer key have none
+  studentAnswer: string;
+  expectedAnswer: string;
+  pointsAwarded: number;
+  pointsPossible: number;
+  isCorrect: boolean;
+  rationale: string;
+  scoredBy: "auto" | "model"; // Rule-based scorer or LLM grader
+}
+
 export interface GradingResult {
   userName: string;
   userId: string;
   assignmentId: string;
   submittedPdfUrl: string;
   gradedAt: string;
+  model: string;
   overallScore: number;
   totalPossiblePoints: number;
   percentageScore: number;
@@ -45,6 +102,7 @@ export interface GradingResult {
     pointsPossible: number;
     feedback: string;
   }>;
+  questionResults: QuestionResult[];
   overallFeedback: string;
   learningRecommendations: {
     needsScaffolding: boolean;
@@ -56,25 +114,126 @@ export interface GradingResult {
 }
 
 export class GradingService {
-  private worksheetStorage = WorksheetStorageManager.getInstance();
+  constructor(
+    private mistral: MistralClientApi,
+    private langchain: LangChainMistralClientApi,
+    private worksheetStorage: WorksheetStorageManager,
+    private gradingHistory: GradingHistoryManager,
+    private studentProfiles: StudentProfileManager,
+    private studentMemory: StudentMemory
+  ) {}
 
   async gradeStudentSubmission(submission: StudentSubmission): Promise<GradingResult> {
-    const { assignmentId, userName, userId, pdfUrl } = submission;
+    const { assignmentId, courseId, userName, userId, pdfUrl } = submission;
 
-    // Step 1: Get answer key and grading breakdown from storage
-    const answerKeyHtml = await this.worksheetStorage.getAnswerKeyHtml(assignmentId);
-    const gradingInfo = await this.worksheetStorage.getGradingInfo(assignmentId);
-    
-    if (!answerKeyHtml) {
+    // Step 1: Get the worksheet record with its answer key from storage
+    const worksheet = await this.worksheetStorage.getWorksheetByAssignment(assignmentId);
+
+    if (!worksheet || (!worksheet.answerKey && !worksheet.answerKeyHtml)) {
       throw new Error(`No answer key found for assignment ${assignmentId}`);
     }
 
-    if (!gradingInfo || !gradingInfo.totalPoints) {
+    if (!worksheet.answerKey && !worksheet.totalPoints) {
       throw new Error(`No grading information found for assignment ${assignmentId}`);
     }
 
     // Step 2: Use OCR to extract content from student's PDF submission
-    console.log(`Processing PDF submission from ${userName} (${userId})`);
+    const studentWorkContent = await this.extractSubmissionText(pdfUrl, userName);
+    const learnerProfile = await this.buildLearnerProfileBlock(courseId, userId);
+
+    // Step 3: Grade each question using LangChain Mistral
+    let questionResults: QuestionResult[];
+    let gradingResponse: GradingResponse;
+    let sectionOrder: string[];
+
+    try {
+      if (worksheet.answerKey) {
+        const answerKey = worksheet.answerKey;
+        const studentAnswers = await this.extractStudentAnswers(studentWorkContent, answerKey, worksheet.document);
+
+        // Objective questions are scored by rules; only the rest go to the model
+        const questions = new Map(worksheet.document ? getAllQuestions(worksheet.document).map(q => [q.number, q]) : []);
+        const autoScores = new Map<number, AutoScore>();
+        for (const item of answerKey.items) {
+          const score = scoreObjectiveAnswer(
+            item,
+            studentAnswers.get(item.questionNumber) || "",
+            questions.get(item.questionNumber),
+            worksheet.document?.labels
+          );
+          if (score) {
+            autoScores.set(item.questionNumber, score);
+          }
+        }
+        console.log(`Auto-scored ${autoScores.size}/${answerKey.items.length} questions for ${userName}`);
+
+        gradingResponse = await this.langchain.generateWithStructuredOutput(
+          this.buildGradingPrompt(answerKey, studentAnswers, autoScores, userName, learnerProfile),
+          GradingResultSchema,
+          {
+            systemPrompt: this.buildSystemPrompt(worksheet.settings),
+            model: GRADING_MODEL,
+            temperature: 0.3, // Lower temperature for more consistent grading
+            maxTokens: 4000
+          }
+        );
+        questionResults = this.mergeWithAnswerKey(answerKey, studentAnswers, autoScores, gradingResponse);
+        sectionOrder = worksheet.document?.sections.map(section => section.title) || answerKey.gradingBreakdown.map(s => s.section);
+      } else {
+        const legacyResponse = await this.langchain.generateWithStructuredOutput(
+          this.buildLegacyGradingPrompt(
+            studentWorkContent,
+            worksheet.answerKeyHtml!,
+            { totalPoints: worksheet.totalPoints, gradingBreakdown: worksheet.gradingBreakdown },
+            userName,
+            learnerProfile
+          ),
+          LegacyGradingResultSchema,
+          {
+            systemPrompt: this.buildSystemPrompt(worksheet.settings),
+            model: GRADING_MODEL,
+            temperature: 0.3,
+            maxTokens: 4000
+          }
+        );
+        gradingResponse = legacyResponse;
+        questionResults = legacyResponse.questionResults.map(result => ({
+          ...result,
+          pointsPossible: Math.max(0, result.pointsPossible),
+          pointsAwarded: clampPoints(result.pointsAwarded, result.pointsPossible),
+          scoredBy: "model" as const
+        }));
+        sectionOrder = worksheet.gradingBreakdown?.map(s => s.section) || [];
+      }
+    } catch (error) {
+      console.error("Grading error:", error);
+      throw new Error(`Failed to grade submission: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+
+    // Step 4: Compute section and overall scores from the question results
+    const sectionScores = this.computeSectionScores(questionResults, sectionOrder, gradingResponse.sectionFeedback);
+    const overallScore = sectionScores.reduce((sum, s) => sum + s.pointsEarned, 0);
+    const totalPossiblePoints = sectionScores.reduce((sum, s) => sum + s.pointsPossible, 0);
+
+    return {
+      userName,
+      userId,
+      assignmentId,
+      submittedPdfUrl: pdfUrl,
+      gradedAt: new Date().toISOString(),
+      model: GRADING_MODEL,
+      overallScore,
+      totalPossiblePoints,
+      percentageScore: totalPossiblePoints > 0 ? Math.round((overallScore / totalPossiblePoints) * 1000) / 10 : 0,
+      sectionScores,
+      questionResults,
+      overallFeedback: gradingResponse.overallFeedback,
+      learningRecommendations: gradingResponse.learningRecommendations
+    };
+  }
+
+  private async extractSubmissionText(pdfUrl: string, userName: string): Promise<string> {
+    console.log(`Processing PDF submission from ${userName}`);
     let studentWorkContent: string;
     
     try {
@@ -85,12 +244,12 @@ export class GradingService {
         // Local file path
         const filePath = pdfUrl.replace('file://', '');
         console.log(`Using file-based OCR for ${userName}, file: ${filePath}`);
-        ocrResult = await mistralClient.processOCRFromFile(filePath);
+        ocrResult = await this.mistral.processOCRFromFile(filePath);
       } else if (pdfUrl.startsWith('data:application/pdf;base64,')) {
         // Extract base64 data from data URL
         const base64Data = pdfUrl.replace('data:application/pdf;base64,', '');
         console.log(`Using base64 OCR for ${userName}, data length: ${base64Data.length}`);
-        ocrResult = await mistralClient.processOCRFromBase64(base64Data);
+        ocrResult = await this.mistral.processOCRFromBase64(base64Data);
       } else if (pdfUrl.startsWith('http://') || pdfUrl.startsWith('https://')) {
         // Regular URL - including S3 URLs
         console.log(`Using URL OCR for ${userName}: ${pdfUrl}`);
@@ -98,15 +257,15 @@ export class GradingService {
         // For S3 URLs, we can use direct URL processing
         if (pdfUrl.includes('.s3.') || pdfUrl.includes('s3.amazonaws.com')) {
           console.log(`Processing S3 URL directly with OCR for ${userName}`);
-          ocrResult = await mistralClient.processOCR(pdfUrl);
+          ocrResult = await this.mistral.processOCR(pdfUrl);
         } else {
           // For other URLs, use standard processing
-          ocrResult = await mistralClient.processOCR(pdfUrl);
+          ocrResult = await this.mistral.processOCR(pdfUrl);
         }
       } else {
         // Unknown URL format
         console.warn(`Unknown URL format for ${userName}: ${pdfUrl}`);
-        ocrResult = await mistralClient.processOCR(pdfUrl);
+        ocrResult = await this.mistral.processOCR(pdfUrl);
       }
       
       console.log(`OCR result for ${userName}:`, {
@@ -129,50 +288,131 @@ export class GradingService {
       studentWorkContent = `OCR processing failed: ${error instanceof Error ? error.message : "Unknown error"}. Unable to extract submission content.`;
     }
 
-    // Step 3: Grade the submission using LangChain Mistral
-    const gradingPrompt = this.buildGradingPrompt(
-      studentWorkContent,
-      answerKeyHtml,
-      gradingInfo,
-      userName
+    return studentWorkContent;
+  }
+
+  /**
+   * Transcribes the student's answer to every question in the answer key format,
+   * so objective answers can be compared by rules.
+   */
+  private async extractStudentAnswers(
+    studentWork: string,
+    answerKey: AnswerKey,
+    document?: WorksheetDocument
+  ): Promise<Map<number, string>> {
+    const questions = new Map(document ? getAllQuestions(document).map(q => [q.number, q]) : []);
+    const questionList = answerKey.items.map(item => {
+      const question = questions.get(item.questionNumber);
+      const details = question
+        ? { prompt: question.prompt, options: question.options, items: question.items }
+        : {};
+      return { number: item.questionNumber, type: item.type, answerFormat: ANSWER_FORMAT_GUIDE[item.type], ...details };
+    });
+
+    const prompt = `Transcribe the student's answers from this worksheet submission. Do not grade or correct them.
+
+QUESTIONS:
+${JSON.stringify(questionList, null, 2)}
+
+Multiple-choice options and matching right-column entries are lettered A, B, C... in the order given.
+Write each answer in the answerFormat of its question. Use an empty string when a question is unanswered or illegible.
+
+STUDENT'S SUBMITTED WORK (OCR extracted):
+${studentWork}`;
+
+    const response = await this.langchain.generateWithStructuredOutput(
+      prompt,
+      StudentAnswersSchema,
+      {
+        systemPrompt: "You transcribe handwritten and typed student answers exactly as written.",
+        model: GRADING_MODEL,
+        temperature: 0,
+        maxTokens: 3000
+      }
     );
 
-    try {
-      const gradingResult = await getLangchainMistralClient().generateWithStructuredOutput(
-        gradingPrompt,
-        GradingResultSchema,
-        {
-          systemPrompt: this.buildSystemPrompt(),
-          model: "mistral-small-latest",
-          temperature: 0.3, // Lower temperature for more consistent grading
-          maxTokens: 3000
-        }
-      );
+    return new Map(response.answers.map(entry => [entry.questionNumber, entry.answer.trim()]));
+  }
+
+  /**
+   * Attaches the expected answer and point value from the answer key to every
+   * question. Questions neither scorer graded count as unanswered.
+   */
+  private mergeWithAnswerKey(
+    answerKey: AnswerKey,
+    studentAnswers: Map<number, string>,
+    autoScores: Map<number, AutoScore>,
+    response: GradingResponse
+  ): QuestionResult[] {
+    const gradedByNumber = new Map(response.questionResults.map(result => [result.questionNumber, result]));
+
+    return answerKey.items.map(item => {
+      const base = {
+        questionNumber: item.questionNumber,
+        sectionName: item.sectionTitle,
+        // Answer keys stored before sections were indexed only know the title
+        sectionIndex: item.sectionIndex ?? answerKey.gradingBreakdown.findIndex(s => s.section === item.sectionTitle),
+        expectedAnswer: item.answer,
+        pointsPossible: item.points
+      };
+
+      const autoScore = autoScores.get(item.questionNumber);
+      if (autoScore) {
+        return {
+          ...base,
+          ...autoScore,
+          studentAnswer: studentAnswers.get(item.questionNumber) || "",
+          scoredBy: "auto" as const
+        };
+      }
+
+      const graded = gradedByNumber.get(item.questionNumber);
+      const pointsAwarded = graded ? clampPoints(graded.pointsAwarded, item.points) : 0;
 
-      // Step 4: Compile and return the full grading result
       return {
-        userName,
-        userId,
-        assignmentId,
-        submittedPdfUrl: pdfUrl,
-        gradedAt: new Date().toISOString(),
-        overallScore: gradingResult.overallScore,
-        totalPossiblePoints: gradingResult.totalPossiblePoints,
-        percentageScore: gradingResult.percentageScore,
-        sectionScores: gradingResult.sectionScores,
-        overallFeedback: gradingResult.overallFeedback,
-        learningRecommendations: gradingResult.learningRecommendations
+        ...base,
+        studentAnswer: studentAnswers.get(item.questionNumber) || graded?.studentAnswer || "",
+        pointsAwarded,
+        isCorrect: pointsAwarded === item.points && item.points > 0,
+        rationale: graded?.rationale || "No answer found in the submission",
+        scoredBy: "model" as const
       };
-    } catch (error) {
-      console.error("Grading error:", error);
-      throw new Error(`Failed to grade submission: ${error instanceof Error ? error.message : "Unknown error"}`);
-    }
+    });
+  }
+
+  private computeSectionScores(
+    questionResults: QuestionResult[],
+    sectionOrder: string[],
+    sectionFeedback: Array<{ sectionName: string; feedback: string; }>
+  ): GradingResult["sectionScores"] {
+    // Results from an answer key are grouped by section position, so two
+    // sections with the same title stay apart; legacy results only have names
+    const indexed = questionResults.every(r => r.sectionIndex !== undefined);
+    const sections = indexed
+      ? sectionOrder.map((sectionName, index) => ({ sectionName, results: questionResults.filter(r => r.sectionIndex === index) }))
+      : [...new Set([...sectionOrder, ...questionResults.map(r => r.sectionName)])]
+        .map(sectionName => ({ sectionName, results: questionResults.filter(r => r.sectionName === sectionName) }));
+
+    return sections
+      .map(({ sectionName, results }, index) => {
+        // The model names sections by title; repeated titles take its feedback in order
+        const repeat = sections.slice(0, index).filter(s => s.sectionName === sectionName).length;
+        const feedback = sectionFeedback.filter(f => f.sectionName === sectionName);
+        return {
+          sectionName,
+          pointsEarned: results.reduce((sum, r) => sum + r.pointsAwarded, 0),
+          pointsPossible: results.reduce((sum, r) => sum + r.pointsPossible, 0),
+          feedback: (feedback[repeat] || feedback[0])?.feedback || ""
+        };
+      })
+      .filter(section => section.pointsPossible > 0);
   }
 
-  private buildSystemPrompt(): string {
+
+  private buildSystemPrompt(settings?: WorksheetSettings): string {
     return `You are an experienced educator grading student worksheets. Your role is to:
 
-1. Compare student answers against the answer key
+1. Compare each student answer against the answer key, question by question
 2. Award partial credit where appropriate
 3. Provide constructive, encouraging feedback
 4. Identify learning patterns and make recommendations
@@ -201,20 +441,86 @@ LEARNING RECOMMENDATIONS:
 - Identify patterns across sections
 - Note if student consistently struggles with certain concepts (needs scaffolding)
 - Note if student shows mastery and could handle more challenge (acceleration)
-- Be specific about which areas need support or could be accelerated`;
+- Be specific about which areas need support or could be accelerated${this.buildFeedbackLanguageRules(settings)}`;
+  }
+
+  /**
+   * Feedback goes back to the student, so it follows the worksheet language.
+   * Bilingual worksheets also get the overall feedback in the home language.
+   */
+  private buildFeedbackLanguageRules(settings?: WorksheetSettings): string {
+    if (!settings) return "";
+
+    let rules = `
+
+FEEDBACK LANGUAGE:
+- Write question rationales, section feedback and overall feedback in ${settings.language}, the language of the worksheet`;
+    if (settings.homeLanguage) {
+      rules += `\n- End the overall feedback with a translation of it into ${settings.homeLanguage}, the student's home language`;
+    }
+    return rules;
   }
 
   private buildGradingPrompt(
+    answerKey: AnswerKey,
+    studentAnswers: Map<number, string>,
+    autoScores: Map<number, AutoScore>,
+    studentName: string,
+    learnerProfile: string
+  ): string {
+    const formatItem = (item: AnswerKeyItem) =>
+      `${item.questionNumber}. [${item.type}, ${item.points} pts, ${item.sectionTitle}]`;
+
+    const autoScoredText = answerKey.items
+      .filter(item => autoScores.has(item.questionNumber))
+      .map(item => {
+        const score = autoScores.get(item.questionNumber)!;
+        return `${formatItem(item)} ${score.pointsAwarded}/${item.points} - ${score.rationale}`;
+      })
+      .join("\n");
+
+    const openItems = answerKey.items.filter(item => !autoScores.has(item.questionNumber));
+    const toGradeText = openItems.map(item => {
+      const accepted = item.acceptedAnswers.length > 0 ? ` (also accept: ${item.acceptedAnswers.join("; ")})` : "";
+      return `${formatItem(item)}
+   Expected: ${item.answer}${accepted}
+   Student: ${studentAnswers.get(item.questionNumber) || "(no answer)"}`;
+    }).join("\n");
+
+    return `Grade ${studentName}'s worksheet submission.
+
+QUESTIONS TO GRADE:
+${toGradeText || "(none - all questions were scored automatically)"}
+
+ALREADY SCORED (do not include these in questionResults):
+${autoScoredText || "(none)"}
+
+Total Points: ${answerKey.totalPoints}
+${learnerProfile}
+TASK:
+1. For each question to grade, award points, never more than its point value, with partial credit where appropriate
+2. Explain the points awarded in one sentence
+3. Provide brief, constructive feedback for each section, considering all questions
+4. Analyze overall performance patterns
+5. Identify areas where the student needs additional support (scaffolding)
+6. Identify areas where the student could handle more advanced material (acceleration)
+7. Provide an overall recommendation for next steps
+
+Return a structured grading result with per-question results, feedback, and learning recommendations.`;
+  }
+
+  private buildLegacyGradingPrompt(
     studentWork: string,
     answerKeyHtml: string,
     gradingInfo: { totalPoints: number | undefined; gradingBreakdown: Array<{ section: string; points: number; }> | undefined },
-    studentName: string
+    studentName: string,
+    learnerProfile: string
   ): string {
     const breakdownText = gradingInfo.gradingBreakdown 
       ? gradingInfo.gradingBreakdown.map(s => `${s.section}: ${s.points} points`).join("\n")
       : `Total: ${gradingInfo.totalPoints} points`;
 
-    return `Grade ${studentName}'s worksheet submission.
+    return `Grade ${studentName}'s worksheet submission question by question.
 
 ANSWER KEY (HTML format):
 ${this.extractAnswersFromHtml(answerKeyHtml)}
@@ -225,18 +531,39 @@ ${breakdownText}
 
 STUDENT'S SUBMITTED WORK (OCR extracted):
 ${studentWork}
-
+${learnerProfile}
 TASK:
-1. Compare each answer in the student's work to the answer key
-2. Award points based on correctness and partial credit where appropriate
-3. Calculate section scores based on the grading breakdown
-4. Provide brief, constructive feedback for each section
-5. Analyze overall performance patterns
-6. Identify areas where the student needs additional support (scaffolding)
-7. Identify areas where the student could handle more advanced material (acceleration)
-8. Provide an overall recommendation for next steps
-
-Return a structured grading result with scores, feedback, and learning recommendations.`;
+1. For EVERY question in the answer key, record its section, the expected answer and its point value
+2. Find the student's answer and copy it into studentAnswer (empty string if unanswered)
+3. Award points for that question, never more than its point value, with partial credit where appropriate
+4. Explain the points awarded in one sentence
+5. Provide brief, constructive feedback for each section
+6. Identify areas where the student needs additional support (scaffolding) or could handle more advanced material (acceleration)
+7. Provide an overall recommendation for next steps
+
+Return a structured grading result with per-question results, feedback, and learning recommendations.`;
+  }
+
+  /**
+   * Describes the student's learner profile for the grading prompt, or returns
+   * an empty string when there is no profile with facts to consider.
+   */
+  private async buildLearnerProfileBlock(courseId: string | undefined, studentId: string): Promise<string> {
+    if (!courseId) return "";
+
+    try {
+      const profile = await this.studentProfiles.getProfile(courseId, studentId);
+      if (!profile) return "";
+
+      return `
+LEARNER PROFILE:
+${formatProfileForPrompt(profile, { includeTimeline: true })}
+Respect the accommodations and language background: do not deduct points for what an accommodation covers (e.g. spelling) unless the question tests exactly that skill. Use known misconceptions and the score history to make the recommendations specific.
+`;
+    } catch (error) {
+      console.error("Failed to load learner profile:", error);
+      return "";
+    }
   }
 
   private extractAnswersFromHtml(html: string): string {
@@ -253,14 +580,16 @@ Return a structured grading result with scores, feedback, and learning recommend
     return cleanedContent;
   }
 
-  async gradeMultipleSubmissions(submissions: StudentSubmission[]): Promise<GradingResult[]> {
+  async gradeMultipleSubmissions(submissions: StudentSubmission[], courseId?: string): Promise<GradingResult[]> {
     const results: GradingResult[] = [];
+    const graded: GradingResult[] = [];
     
     for (const submission of submissions) {
       try {
         console.log(`Grading submission from ${submission.userName}...`);
         const result = await this.gradeStudentSubmission(submission);
         results.push(result);
+        graded.push(result);
         console.log(`Completed grading for ${submission.userName}: ${result.percentageScore}%`);
       } catch (error) {
         console.error(`Failed to grade submission from ${submission.userName}:`, error);
@@ -271,10 +600,12 @@ Return a structured grading result with scores, feedback, and learning recommend
           assignmentId: submission.assignmentId,
           submittedPdfUrl: submission.pdfUrl,
           gradedAt: new Date().toISOString(),
+          model: GRADING_MODEL,
           overallScore: 0,
           totalPossiblePoints: 0,
           percentageScore: 0,
           sectionScores: [],
+          questionResults: [],
           overallFeedback: "Grading failed due to technical error. Please resubmit or contact your teacher.",
           learningRecommendations: {
             needsScaffolding: false,
@@ -286,15 +617,40 @@ Return a structured grading result with scores, feedback, and learning recommend
         });
       }
     }
+
+    if (graded.length > 0) {
+      await this.recordHistory(graded, { courseId });
+    }
     
     return results;
   }
 
+  /**
+   * Stores a grading run in the grading history and, when the course is known,
+   * in the students' performance timelines and the student memory. Storage
+   * failures are logged and never fail the grading itself.
+   */
+  async recordHistory(results: GradingResult[], context: { courseId?: string; assignmentTitle?: string; } = {}): Promise<void> {
+    try {
+      const runId = await this.gradingHistory.recordRun(results, context);
+      if (context.courseId) {
+        await this.studentProfiles.recordPerformance(context.courseId, results, context.assignmentTitle);
+        await this.studentMemory.rememberGradingRun(runId, context.courseId, results, context.assignmentTitle);
+      }
+    } catch (error) {
+      console.error("Failed to record grading history:", error);
+    }
+  }
+
   formatGradingReport(result: GradingResult): string {
     const sections = result.sectionScores.map(s => 
       `  ${s.sectionName}: ${s.pointsEarned}/${s.pointsPossible} points\n    Feedback: ${s.feedback}`
     ).join("\n\n");
 
+    const questions = result.questionResults.map(q =>
+      `  ${q.isCorrect ? "✓" : "✗"} ${q.questionNumber}. ${q.pointsAwarded}/${q.pointsPossible} - answered "${q.studentAnswer}", expected "${q.expectedAnswer}"${q.isCorrect ? "" : `\n      ${q.rationale}`}`
+    ).join("\n");
+
     const scaffolding = result.learningRecommendations.needsScaffolding
       ? `\nAreas needing support: ${result.learningRecommendations.scaffoldingAreas.join(", ")}`
       : "";
@@ -316,6 +672,9 @@ OVERALL SCORE: ${result.overallScore}/${result.totalPossiblePoints} (${result.pe
 SECTION BREAKDOWN:
 ${sections}
 
+QUESTION BREAKDOWN:
+${questions}
+
 OVERALL FEEDBACK:
 ${result.overallFeedback}
 
@@ -324,5 +683,3 @@ ${result.learningRecommendations.generalRecommendation}${scaffolding}${accelerat
 `;
   }
 }
-
-export const gradingService = new GradingService();
\ No newline at end of file
@@ -1,2 +1,3 @@
-export { gradingService, GradingService } from "./gradingService.js";
-export type { StudentSubmission, GradingResult } from "./gradingService.js";
\ No newline at end of file
+export { GradingService, GRADING_MODEL } from "./gradingService.js";
+export type { StudentSubmission, GradingResult, QuestionResult } from "./gradingService.js";export { StudentNotesUpdater } from "./studentNotesUpdater.js";
+export type { NoteUpdate } from "./studentNotesUpdater.js";
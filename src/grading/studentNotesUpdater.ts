@@ -0,0 +1,135 @@
+import { z } from "zod";
+import type { LangChainMistralClientApi } from "../llm/langchain-mistral.js";
+import { MAX_NOTE_LENGTH, type StudentNotesManager } from "../classroom/storage/studentNotesManager.js";
+import type { GradingResult } from "./gradingService.js";
+
+const NoteSummarySchema = z.object({
+  note: z.string().describe(`The updated teacher note, at most 3 sentences and ${MAX_NOTE_LENGTH} characters`)
+});
+
+export interface NoteUpdate {
+  studentId: string;
+  studentName: string;
+  previousNote: string;
+  note?: string;
+  error?: string;
+}
+
+/**
+ * Shortens a note to the last full sentence that fits, or to the last whole
+ * word when even the first sentence is too long.
+ */
+function fitNoteLength(note: string): string {
+  const trimmed = note.trim();
+  if (trimmed.length <= MAX_NOTE_LENGTH) return trimmed;
+
+  const head = trimmed.slice(0, MAX_NOTE_LENGTH);
+  const sentenceEnd = Math.max(head.lastIndexOf(". "), head.lastIndexOf("! "), head.lastIndexOf("? "));
+  if (sentenceEnd > 0) return head.slice(0, sentenceEnd + 1);
+
+  const wordEnd = head.slice(0, MAX_NOTE_LENGTH - 1).lastIndexOf(" ");
+  return `${head.slice(0, wordEnd > 0 ? wordEnd : MAX_NOTE_LENGTH - 1)}…`;
+}
+
+export class StudentNotesUpdater {
+  constructor(private langchain: LangChainMistralClientApi, private notesManager: StudentNotesManager) {}
+
+  private buildPrompt(previousNote: string, result: GradingResult, assignmentTitle?: string, maxLength: number = MAX_NOTE_LENGTH): string {
+    const recommendations = result.learningRecommendations;
+
+    return `Update the teacher's note about ${result.userName} with the latest grading results.
+
+CURRENT NOTE:
+${previousNote || "(empty)"}
+
+LATEST GRADING${assignmentTitle ? ` - ${assignmentTitle}` : ""}:
+- Score: ${result.overallScore}/${result.totalPossiblePoints} (${result.percentageScore}%)
+- Needs support: ${recommendations.needsScaffolding ? recommendations.scaffoldingAreas.join(", ") || "yes" : "no"}
+- Ready for acceleration: ${recommendations.readyForAcceleration ? recommendations.accelerationAreas.join(", ") || "yes" : "no"}
+- Recommendation: ${recommendations.generalRecommendation}
+
+RULES:
+- At most 3 sentences and ${maxLength} characters in total
+- Keep lasting observations from the current note unless the new results contradict them
+- Focus on where the student needs support and where they can be challenged
+- Write for the teacher, in the same language as the current note (English if empty)`;
+  }
+
+  private async summarize(previousNote: string, result: GradingResult, assignmentTitle?: string): Promise<string> {
+    const generate = async (maxLength: number) => {
+      const response = await this.langchain.generateWithStructuredOutput(
+        this.buildPrompt(previousNote, result, assignmentTitle, maxLength),
+        NoteSummarySchema,
+        {
+          systemPrompt: "You maintain short, factual teacher notes about students' learning needs.",
+          model: "mistral-small-latest",
+          temperature: 0.3,
+          maxTokens: 300
+        }
+      );
+      return response.note.trim();
+    };
+
+    let note = await generate(MAX_NOTE_LENGTH);
+
+    // Ask for a tighter note once before falling back to trimming
+    if (note.length > MAX_NOTE_LENGTH) {
+      console.warn(`Note for ${result.userName} is ${note.length} characters, asking for a shorter version`);
+      note = await generate(Math.floor(MAX_NOTE_LENGTH * 0.8));
+    }
+
+    return fitNoteLength(note);
+  }
+
+  /**
+   * Folds a grading result's learning recommendations into the student's note.
+   * The previous note is kept in the note history.
+   */
+  async updateFromGrading(
+    courseId: string,
+    result: GradingResult,
+    context: { courseName?: string; assignmentTitle?: string; } = {}
+  ): Promise<NoteUpdate> {
+    const existing = await this.notesManager.getNote(courseId, result.userId);
+    const previousNote = existing?.note || "";
+
+    const note = await this.summarize(previousNote, result, context.assignmentTitle);
+
+    if (existing) {
+      await this.notesManager.updateNote(courseId, result.userId, note, "grading");
+    } else {
+      await this.notesManager.addNote(courseId, result.userId, result.userName, note, context.courseName, "grading");
+    }
+
+    return { studentId: result.userId, studentName: result.userName, previousNote, note };
+  }
+
+  /**
+   * Updates notes for a batch of results one at a time, so every update is
+   * written to the notes file in order. Failures are reported per student.
+   */
+  async updateFromGradingResults(
+    courseId: string,
+    results: GradingResult[],
+    context: { courseName?: string; assignmentTitle?: string; } = {}
+  ): Promise<NoteUpdate[]> {
+    const updates: NoteUpdate[] = [];
+
+    for (const result of results) {
+      try {
+        updates.push(await this.updateFromGrading(courseId, result, context));
+      } catch (error) {
+        console.error(`Failed to update note for ${result.userName}:`, error);
+        updates.push({
+          studentId: result.userId,
+          studentName: result.userName,
+          previousNote: "",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+    }
+
+    return updates;
+  }
+}
+
@@ -1,75 +1,33 @@
-import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import express, { type Request, type Response } from "express";
-
-import { getServer } from "./server.js";
+import { createApp } from "./app.js";
+import { createServices } from "./services.js";
+import { Tenants } from "./tenants.js";
 import { config } from "./config.js";
-
-const app = express();
-app.use(express.json());
-
-app.post("/mcp", async (req: Request, res: Response) => {
-  try {
-    const transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined,
-    });
-
-    res.on("close", () => {
-      transport.close();
-    });
-
-    const server = getServer();
-    await server.connect(transport);
-
-    await transport.handleRequest(req, res, req.body);
-  } catch (error) {
-    console.error("Error handling MCP request:", error);
-    if (!res.headersSent) {
-      res.status(500).json({
-        jsonrpc: "2.0",
-        error: {
-          code: -32603,
-          message: "Internal server error",
-        },
-        id: null,
-      });
-    }
-  }
-});
-
-app.get("/mcp", async (req: Request, res: Response) => {
-  console.log("Received GET MCP request");
-  res.writeHead(405).end(
-    JSON.stringify({
-      jsonrpc: "2.0",
-      error: {
-        code: -32000,
-        message: "Method not allowed.",
-      },
-      id: null,
-    }),
-  );
-});
-
-app.delete("/mcp", async (req: Request, res: Response) => {
-  console.log("Received GET MCP request");
-  res.writeHead(405).end(
-    JSON.stringify({
-      jsonrpc: "2.0",
-      error: {
-        code: -32000,
-        message: "Method not allowed.",
-      },
-      id: null,
-    }),
-  );
-});
+import { getEncryption } from "./security/encryption.js";
+
+if (!config.MISTRAL_API_KEY) {
+  console.warn("MISTRAL_API_KEY is not set; worksheet generation, grading and OCR are unavailable");
+}
+if (!config.BRIA_API_KEY) {
+  console.warn("BRIA_API_KEY is not set; image generation is unavailable");
+}
+// Fails at startup rather than at the first sign-in if the key is malformed
+if (!getEncryption()) {
+  console.warn("ENCRYPTION_KEY is not set; Google tokens, student data and downloads are stored unencrypted and /auth/google/start is unavailable");
+}
+
+const app = config.TENANCY === "multi"
+  ? createApp({ tenants: new Tenants() })
+  : createApp({ services: createServices() });
 
 app.listen(config.MCP_HTTP_PORT, (error) => {
   if (error) {
     console.error("Failed to start server:", error);
     process.exit(1);
   }
-  console.log(`MCP Streamable HTTP Server listening on port ${config.MCP_HTTP_PORT}`);
+  console.log(`MCP Streamable HTTP Server listening on port ${config.MCP_HTTP_PORT} (${config.TENANCY === "multi" ? "one Google account per teacher" : "single Google account"})`);
+  console.log(config.TENANCY === "multi"
+    ? `Teachers connect their Google accounts at http://localhost:${config.MCP_HTTP_PORT}/auth/google/start`
+    : `Connect the Google account at http://localhost:${config.MCP_HTTP_PORT}/auth/google/start?token=<ADMIN_TOKEN>`);
 });
 
 process.on("SIGINT", async () => {
@@ -5,14 +5,9 @@ import type { ZodSchema } from "zod";
 export class LangChainMistralClient {
   private client: ChatMistralAI;
 
-  constructor(apiKey?: string) {
-    const key = apiKey || process.env.MISTRAL_API_KEY;
-    if (!key) {
-      throw new Error("MISTRAL_API_KEY is required");
-    }
-
+  constructor(apiKey: string) {
     this.client = new ChatMistralAI({
-      apiKey: key,
+      apiKey,
       model: "mistral-small-latest",
       temperature: 0.7,
     });
@@ -111,12 +106,5 @@ export class LangChainMistralClient {
   }
 }
 
-// Create a singleton instance lazily
-let _instance: LangChainMistralClient | null = null;
-
-export const getLangchainMistralClient = (): LangChainMistralClient => {
-  if (!_instance) {
-    _instance = new LangChainMistralClient();
-  }
-  return _instance;
-};
\ No newline at end of file
+// The text and schema-checked generation the worksheet and grading services call
+export type LangChainMistralClientApi = Pick<LangChainMistralClient, keyof LangChainMistralClient>;
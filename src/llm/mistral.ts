@@ -1,6 +1,7 @@
 import { Mistral } from "@mistralai/mistralai";
 import { z } from "zod";
 import fs from "fs";
+import path from "path";
 
 const MistralModelSchema = z.enum([
   "mistral-tiny",
@@ -12,6 +13,15 @@ const MistralModelSchema = z.enum([
 
 type MistralModel = z.infer<typeof MistralModelSchema>;
 
+// Files with these extensions are sent to OCR as images, everything else as a PDF
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+  ".gif": "image/gif"
+};
+
 export interface OCROptions {
   model?: "mistral-ocr-latest";
   includeImageBase64?: boolean;
@@ -48,15 +58,11 @@ export interface MistralCompletionOptions {
   responseFormat?: "text" | "json";
 }
 
-class MistralClient {
+export class MistralClient {
   private client: Mistral;
   private defaultModel: MistralModel = "mistral-medium-latest";
 
-  constructor() {
-    const apiKey = process.env.MISTRAL_API_KEY;
-    if (!apiKey) {
-      throw new Error("Missing MISTRAL_API_KEY environment variable");
-    }
+  constructor(apiKey: string) {
     this.client = new Mistral({ apiKey });
   }
 
@@ -330,16 +336,16 @@ class MistralClient {
       // Read the file and convert to base64 data URL
       const pdfBuffer = fs.readFileSync(filePath);
       const base64Pdf = pdfBuffer.toString('base64');
+      const imageType = IMAGE_MIME_TYPES[path.extname(filePath).toLowerCase()];
       
-      console.log(`Converting PDF to base64 data URL, size: ${pdfBuffer.length} bytes`);
+      console.log(`Converting ${imageType ? "image" : "PDF"} to base64 data URL, size: ${pdfBuffer.length} bytes`);
       
       // Use the base64 data URL approach which is documented to work
       const response = await this.client.ocr.process({
         model,
-        document: {
-          type: "document_url",
-          documentUrl: `data:application/pdf;base64,${base64Pdf}`
-        },
+        document: imageType
+          ? { type: "image_url", imageUrl: `data:${imageType};base64,${base64Pdf}` }
+          : { type: "document_url", documentUrl: `data:application/pdf;base64,${base64Pdf}` },
         includeImageBase64
       });
       
@@ -390,7 +396,26 @@ class MistralClient {
       return result;
     } catch (error) {
       console.error("File OCR processing error:", error);
-      throw new Error(`Failed to process PDF file: ${error instanceof Error ? error.message : "Unknown error"}`);
+      throw new Error(`Failed to process file: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
+  /**
+   * Embeds texts with mistral-embed. Returns one vector per input, in order.
+   */
+  async embed(inputs: string[]): Promise<number[][]> {
+    try {
+      const response = await this.client.embeddings.create({
+        model: "mistral-embed",
+        inputs
+      });
+
+      return response.data
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .map(item => item.embedding || []);
+    } catch (error) {
+      console.error("Mistral embedding error:", error);
+      throw new Error(`Embedding failed: ${error instanceof Error ? error.message : "Unknown error"}`);
     }
   }
 
@@ -453,6 +478,8 @@ class MistralClient {
   }
 }
 
-export const mistralClient = new MistralClient();
+// Completions, OCR, embeddings and file uploads, as FakeMistralClient scripts them offline
+export type MistralClientApi = Pick<MistralClient, keyof MistralClient>;
+
 export type { MistralModel };
 export { MistralModelSchema };
\ No newline at end of file
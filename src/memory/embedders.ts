@@ -0,0 +1,81 @@
+import type { MistralClientApi } from "../llm/mistral.js";
+import type { Embedder } from "./types.js";
+
+// mistral-embed accepts batches; smaller batches keep single requests fast
+const MISTRAL_BATCH_SIZE = 32;
+
+const LOCAL_DIMENSIONS = 512;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "has", "have", "he", "her", "his",
+  "in", "is", "it", "its", "of", "on", "or", "she", "that", "the", "their", "they", "this", "to", "was",
+  "were", "which", "who", "will", "with"
+]);
+
+export class MistralEmbedder implements Embedder {
+  readonly name = "mistral-embed";
+
+  constructor(private mistral: MistralClientApi) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += MISTRAL_BATCH_SIZE) {
+      vectors.push(...await this.mistral.embed(texts.slice(start, start + MISTRAL_BATCH_SIZE)));
+    }
+    return vectors;
+  }
+}
+
+// Crude suffix stripping so "struggles", "struggling" and "struggled" share a feature
+function stem(word: string): string {
+  for (const suffix of ["ing", "ed", "es", "s"]) {
+    if (word.length > suffix.length + 3 && word.endsWith(suffix)) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+// FNV-1a
+function hash(text: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+/**
+ * Offline embedder that hashes word and word-pair features into a fixed-size
+ * vector. It only matches shared words (after stemming), not meaning, but
+ * needs no network and is deterministic, which makes it suitable for tests
+ * and air-gapped deployments.
+ */
+export class LocalHashEmbedder implements Embedder {
+  readonly name = `local-hash-${LOCAL_DIMENSIONS}`;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+    const words = (text.toLowerCase().match(/\p{L}[\p{L}\p{N}'-]*|\p{N}+/gu) || [])
+      .filter(word => !STOP_WORDS.has(word))
+      .map(stem);
+
+    const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+    for (const feature of features) {
+      const value = hash(feature);
+      vector[value % LOCAL_DIMENSIONS] += value & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+    return norm > 0 ? vector.map(x => x / norm) : vector;
+  }
+}
+
+export function createEmbedder(kind: "mistral" | "local", mistral: MistralClientApi): Embedder {
+  return kind === "local" ? new LocalHashEmbedder() : new MistralEmbedder(mistral);
+}
@@ -0,0 +1,5 @@
+export { StudentMemory } from "./studentMemory.js";
+export type { ObservationFilter, RecallOptions, RecalledObservation } from "./studentMemory.js";
+export { MistralEmbedder, LocalHashEmbedder, createEmbedder } from "./embedders.js";
+export { InMemoryVectorStore, StorageVectorStore, createVectorStore } from "./vectorStores.js";
+export type { ObservationKind, StudentObservation, Embedder, VectorStore, VectorRecord, VectorMatch, VectorQuery } from "./types.js";
@@ -0,0 +1,290 @@
+import { createHash, randomUUID } from "crypto";
+import type { StorageDocument, StorageProvider } from "../classroom/storage/storageBackend.js";
+import type { StudentProfileManager } from "../classroom/storage/studentProfileManager.js";
+import type { GradingHistoryManager, GradingHistoryRecord } from "../classroom/storage/gradingHistoryManager.js";
+import type { GradingResult } from "../grading/gradingService.js";
+import type { Embedder, ObservationKind, StudentObservation, VectorStore } from "./types.js";
+
+export interface ObservationFilter {
+  courseId?: string;
+  studentId?: string;
+  kind?: ObservationKind;
+}
+
+export interface RecallOptions {
+  courseId?: string;
+  studentId?: string;
+  kinds?: ObservationKind[];
+  limit?: number;
+}
+
+export interface RecalledObservation {
+  observation: StudentObservation;
+  score: number; // Cosine similarity to the query, higher is closer
+}
+
+interface StorageData {
+  version: number;
+  observations: Record<string, StudentObservation>;
+  backfilledAt?: string; // When existing notes and grading history were imported
+}
+
+const STUDENT_MEMORY_STORAGE: StorageDocument<StorageData> = {
+  name: "student-memory",
+  version: 1,
+  create: () => ({ version: 1, observations: {} })
+};
+
+const DEFAULT_RECALL_LIMIT = 10;
+
+// Ids derived from the source, so importing or recording the same thing twice keeps one observation
+function observationId(...parts: string[]): string {
+  return createHash("sha256").update(parts.join("\u0000")).digest("hex").slice(0, 24);
+}
+
+function matchesFilter(observation: StudentObservation, filter: ObservationFilter): boolean {
+  return (!filter.courseId || observation.courseId === filter.courseId) &&
+    (!filter.studentId || observation.studentId === filter.studentId) &&
+    (!filter.kind || observation.kind === filter.kind);
+}
+
+function noteObservation(courseId: string, studentId: string, studentName: string, note: string, observedAt: string): StudentObservation {
+  return {
+    id: observationId("note", courseId, studentId, observedAt),
+    courseId,
+    studentId,
+    studentName,
+    kind: "note",
+    text: note,
+    observedAt
+  };
+}
+
+function gradingObservation(
+  runId: string,
+  courseId: string,
+  result: Pick<GradingResult, "assignmentId" | "userId" | "userName" | "gradedAt" | "percentageScore" | "learningRecommendations">,
+  assignmentTitle?: string
+): StudentObservation {
+  const recommendations = result.learningRecommendations;
+  const text = [
+    `${assignmentTitle || `Assignment ${result.assignmentId}`}: scored ${result.percentageScore}%.`,
+    recommendations.needsScaffolding && recommendations.scaffoldingAreas.length
+      ? `Needs support with ${recommendations.scaffoldingAreas.join(", ")}.`
+      : "",
+    recommendations.readyForAcceleration && recommendations.accelerationAreas.length
+      ? `Ready for more challenge in ${recommendations.accelerationAreas.join(", ")}.`
+      : "",
+    recommendations.generalRecommendation
+  ].filter(Boolean).join(" ");
+
+  return {
+    id: observationId("grading", runId, result.userId),
+    courseId,
+    studentId: result.userId,
+    studentName: result.userName,
+    kind: "grading",
+    text,
+    observedAt: result.gradedAt,
+    assignmentId: result.assignmentId
+  };
+}
+
+function historyObservation(record: GradingHistoryRecord & { courseId: string; }): StudentObservation {
+  return gradingObservation(record.runId, record.courseId, {
+    assignmentId: record.assignmentId,
+    userId: record.studentId,
+    userName: record.studentName,
+    gradedAt: record.gradedAt,
+    percentageScore: record.percentageScore,
+    learningRecommendations: record.learningRecommendations
+  }, record.assignmentTitle);
+}
+
+/**
+ * Long-term memory of timestamped observations about students (teacher notes,
+ * grading recommendations and teacher remarks) with semantic recall.
+ *
+ * Observations are the source of truth and live in the storage backend; the
+ * vector store is an index over them. Observations the current embedder has
+ * not indexed yet (after an embedding failure, a restart with the in-memory
+ * store, or a change of MEMORY_EMBEDDER) are embedded on the next recall.
+ */
+export class StudentMemory {
+  constructor(
+    private embedder: Embedder,
+    private vectorStore: VectorStore,
+    private storage: StorageProvider,
+    private profiles: StudentProfileManager,
+    private gradingHistory: GradingHistoryManager
+  ) {}
+
+  private async read(): Promise<StorageData> {
+    return (await this.storage()).read(STUDENT_MEMORY_STORAGE);
+  }
+
+  private async update<R>(mutate: (data: StorageData) => R): Promise<R> {
+    return (await this.storage()).update(STUDENT_MEMORY_STORAGE, mutate);
+  }
+
+  /**
+   * Stores observations and indexes them. Embedding failures are logged, not
+   * thrown: the observations are kept and indexed on the next recall.
+   */
+  private async store(observations: StudentObservation[]): Promise<void> {
+    if (observations.length === 0) return;
+
+    await this.update(data => {
+      for (const observation of observations) {
+        data.observations[observation.id] = observation;
+      }
+    });
+
+    try {
+      await this.index(observations);
+    } catch (error) {
+      console.error("Failed to index student observations, will retry on the next recall:", error);
+    }
+  }
+
+  private async index(observations: StudentObservation[]): Promise<void> {
+    if (observations.length === 0) return;
+
+    const vectors = await this.embedder.embed(observations.map(observation => observation.text));
+    await this.vectorStore.upsert(observations.map((observation, i) => ({
+      id: observation.id,
+      vector: vectors[i],
+      metadata: {
+        embedder: this.embedder.name,
+        courseId: observation.courseId,
+        studentId: observation.studentId,
+        kind: observation.kind
+      }
+    })));
+  }
+
+  // An empty note says nothing about the student and is not worth an embedding
+  async rememberNote(courseId: string, studentId: string, studentName: string, note: string, observedAt = new Date().toISOString()): Promise<void> {
+    if (!note.trim()) return;
+    await this.store([noteObservation(courseId, studentId, studentName, note, observedAt)]);
+  }
+
+  async rememberRemark(courseId: string, studentId: string, studentName: string, text: string): Promise<StudentObservation> {
+    const observation: StudentObservation = {
+      id: randomUUID(),
+      courseId,
+      studentId,
+      studentName,
+      kind: "remark",
+      text,
+      observedAt: new Date().toISOString()
+    };
+    await this.store([observation]);
+    return observation;
+  }
+
+  async rememberGradingRun(runId: string, courseId: string, results: GradingResult[], assignmentTitle?: string): Promise<void> {
+    await this.store(results.map(result => gradingObservation(runId, courseId, result, assignmentTitle)));
+  }
+
+  /**
+   * Returns the observations closest in meaning to the query, best match first.
+   * Observations with no similarity at all are left out.
+   */
+  async recall(query: string, options: RecallOptions = {}): Promise<RecalledObservation[]> {
+    await this.backfill();
+    const data = await this.read();
+    await this.indexMissing(data, options);
+
+    const limit = options.limit ?? DEFAULT_RECALL_LIMIT;
+    const [vector] = await this.embedder.embed([query]);
+    const kinds: Array<ObservationKind | undefined> = options.kinds?.length ? options.kinds : [undefined];
+
+    const matches = (await Promise.all(kinds.map(kind => this.vectorStore.query({
+      vector,
+      topK: limit,
+      filter: { embedder: this.embedder.name, courseId: options.courseId, studentId: options.studentId, kind }
+    })))).flat();
+
+    return matches
+      .filter(match => match.score > 0 && data.observations[match.id])
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(match => ({ observation: data.observations[match.id], score: match.score }));
+  }
+
+  async getObservations(filter: ObservationFilter = {}): Promise<StudentObservation[]> {
+    const data = await this.read();
+    return Object.values(data.observations)
+      .filter(observation => matchesFilter(observation, filter))
+      .sort((a, b) => a.observedAt.localeCompare(b.observedAt));
+  }
+
+  /**
+   * Removes matching observations and their vectors. Returns how many were removed.
+   */
+  async forget(filter: ObservationFilter): Promise<number> {
+    const removed = await this.update(data => {
+      const ids = Object.values(data.observations)
+        .filter(observation => matchesFilter(observation, filter))
+        .map(observation => observation.id);
+      ids.forEach(id => delete data.observations[id]);
+      return ids;
+    });
+
+    await this.vectorStore.delete(removed);
+    return removed.length;
+  }
+
+  private async indexMissing(data: StorageData, options: RecallOptions): Promise<void> {
+    const indexed = new Set(await this.vectorStore.listIds({
+      embedder: this.embedder.name,
+      courseId: options.courseId,
+      studentId: options.studentId
+    }));
+
+    const missing = Object.values(data.observations).filter(observation =>
+      matchesFilter(observation, options) && !indexed.has(observation.id)
+    );
+    if (missing.length > 0) {
+      console.log(`Indexing ${missing.length} student observations with ${this.embedder.name}`);
+      await this.index(missing);
+    }
+  }
+
+  /**
+   * Imports teacher notes and grading history recorded before the memory
+   * existed. Runs once per storage; the sources are read before the memory
+   * document is locked, so no two documents are ever locked at once.
+   */
+  private async backfill(): Promise<void> {
+    if ((await this.read()).backfilledAt) return;
+
+    const observations: StudentObservation[] = [];
+    for (const profile of await this.profiles.getAllProfiles()) {
+      const notes = [
+        ...profile.noteHistory,
+        { note: profile.note, updatedAt: profile.noteUpdatedAt, source: profile.noteSource }
+      ];
+      for (const note of notes) {
+        if (note.note?.trim() && note.source !== "grading") {
+          observations.push(noteObservation(profile.courseId, profile.studentId, profile.studentName, note.note, note.updatedAt));
+        }
+      }
+    }
+
+    for (const record of await this.gradingHistory.getRecords()) {
+      if (record.courseId) {
+        observations.push(historyObservation({ ...record, courseId: record.courseId }));
+      }
+    }
+
+    await this.update(data => {
+      if (data.backfilledAt) return;
+      for (const observation of observations) {
+        data.observations[observation.id] ??= observation;
+      }
+      data.backfilledAt = new Date().toISOString();
+    });
+  }
+}
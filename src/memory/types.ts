@@ -0,0 +1,50 @@
+export type ObservationKind = "note" | "grading" | "remark";
+
+/**
+ * One timestamped thing we know about a student: a teacher note, the
+ * recommendations of a grading run, or a remark the teacher asked to remember.
+ */
+export interface StudentObservation {
+  id: string;
+  courseId: string;
+  studentId: string;
+  studentName: string;
+  kind: ObservationKind;
+  text: string;
+  observedAt: string;
+  assignmentId?: string; // Set for grading observations
+}
+
+/**
+ * Turns texts into vectors. Vectors from different embedders are not
+ * comparable, so every stored vector is tagged with the embedder name.
+ */
+export interface Embedder {
+  readonly name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface VectorRecord {
+  id: string;
+  vector: number[];
+  metadata: Record<string, string>;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number; // Cosine similarity
+  metadata: Record<string, string>;
+}
+
+export interface VectorQuery {
+  vector: number[];
+  topK: number;
+  filter?: Record<string, string | undefined>; // Exact metadata matches; undefined values are ignored
+}
+
+export interface VectorStore {
+  upsert(records: VectorRecord[]): Promise<void>;
+  query(query: VectorQuery): Promise<VectorMatch[]>;
+  delete(ids: string[]): Promise<void>;
+  listIds(filter?: Record<string, string | undefined>): Promise<string[]>;
+}
@@ -0,0 +1,141 @@
+import type { StorageDocument, StorageProvider } from "../classroom/storage/storageBackend.js";
+import type { VectorMatch, VectorQuery, VectorRecord, VectorStore } from "./types.js";
+
+type MetadataFilter = Record<string, string | undefined>;
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function matchesFilter(metadata: Record<string, string>, filter: MetadataFilter = {}): boolean {
+  return Object.entries(filter).every(([key, value]) => value === undefined || metadata[key] === value);
+}
+
+function rank(records: Iterable<VectorRecord>, query: VectorQuery): VectorMatch[] {
+  const matches: VectorMatch[] = [];
+  for (const record of records) {
+    if (matchesFilter(record.metadata, query.filter)) {
+      matches.push({ id: record.id, score: cosineSimilarity(query.vector, record.vector), metadata: record.metadata });
+    }
+  }
+  return matches.sort((a, b) => b.score - a.score).slice(0, query.topK);
+}
+
+/**
+ * Keeps vectors in process memory. Nothing survives a restart, so this is
+ * meant for tests and short-lived scripts.
+ */
+export class InMemoryVectorStore implements VectorStore {
+  private records = new Map<string, VectorRecord>();
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    for (const record of records) {
+      this.records.set(record.id, { ...record, vector: [...record.vector], metadata: { ...record.metadata } });
+    }
+  }
+
+  async query(query: VectorQuery): Promise<VectorMatch[]> {
+    return rank(this.records.values(), query);
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    ids.forEach(id => this.records.delete(id));
+  }
+
+  async listIds(filter?: MetadataFilter): Promise<string[]> {
+    return [...this.records.values()].filter(record => matchesFilter(record.metadata, filter)).map(record => record.id);
+  }
+}
+
+interface StoredVector {
+  vector: string; // Little-endian float32 values, base64 encoded
+  metadata: Record<string, string>;
+}
+
+interface StorageData {
+  version: number;
+  vectors: Record<string, StoredVector>;
+}
+
+const VECTOR_STORAGE: StorageDocument<StorageData> = {
+  name: "student-memory-vectors",
+  version: 1,
+  create: () => ({ version: 1, vectors: {} })
+};
+
+function encodeVector(vector: number[]): string {
+  const bytes = Buffer.alloc(vector.length * 4);
+  vector.forEach((value, i) => bytes.writeFloatLE(value, i * 4));
+  return bytes.toString("base64");
+}
+
+function decodeVector(encoded: string): number[] {
+  const bytes = Buffer.from(encoded, "base64");
+  const vector = new Array<number>(bytes.length / 4);
+  for (let i = 0; i < vector.length; i++) {
+    vector[i] = bytes.readFloatLE(i * 4);
+  }
+  return vector;
+}
+
+/**
+ * Keeps vectors in the configured storage backend (JSON file or SQLite) next
+ * to the other documents, and searches them with a linear scan. That is fast
+ * enough for the few thousand observations a school produces.
+ */
+export class StorageVectorStore implements VectorStore {
+  constructor(private storage: StorageProvider) {}
+
+  private async read(): Promise<StorageData> {
+    return (await this.storage()).read(VECTOR_STORAGE);
+  }
+
+  private async update<R>(mutate: (data: StorageData) => R): Promise<R> {
+    return (await this.storage()).update(VECTOR_STORAGE, mutate);
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    await this.update(data => {
+      for (const record of records) {
+        data.vectors[record.id] = { vector: encodeVector(record.vector), metadata: record.metadata };
+      }
+    });
+  }
+
+  async query(query: VectorQuery): Promise<VectorMatch[]> {
+    const data = await this.read();
+    const records = Object.entries(data.vectors)
+      .filter(([, stored]) => matchesFilter(stored.metadata, query.filter))
+      .map(([id, stored]) => ({ id, vector: decodeVector(stored.vector), metadata: stored.metadata }));
+    return rank(records, query);
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    await this.update(data => {
+      ids.forEach(id => delete data.vectors[id]);
+    });
+  }
+
+  async listIds(filter?: MetadataFilter): Promise<string[]> {
+    const data = await this.read();
+    return Object.entries(data.vectors)
+      .filter(([, stored]) => matchesFilter(stored.metadata, filter))
+      .map(([id]) => id);
+  }
+}
+
+export function createVectorStore(kind: "storage" | "memory", storage: StorageProvider): VectorStore {
+  return kind === "memory" ? new InMemoryVectorStore() : new StorageVectorStore(storage);
+}
@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 
 import { AuthManager } from '../classroom/auth/authManager.js';
+import { Tenants } from '../tenants.js';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -25,7 +26,13 @@ async function main() {
     process.exit(1);
   }
 
-  const authManager = AuthManager.getInstance();
+  const authManager = new AuthManager();
+
+  // Multi-teacher deployments (TENANCY=multi): connect the teacher's own account
+  if (process.argv.includes('--teacher')) {
+    await connectTeacher(authManager);
+    return;
+  }
 
   try {
     const isAuthenticated = await authManager.isAuthenticated();
@@ -60,6 +67,27 @@ async function main() {
   }
 }
 
+async function connectTeacher(authManager: AuthManager) {
+  try {
+    console.log('🚀 Starting OAuth authentication flow for a teacher...');
+    console.log('Sign in with the teacher\'s own Google account.\n');
+
+    const auth = await authManager.authorize();
+    const { teacher, accessKey } = await new Tenants().connect(auth.credentials);
+
+    console.log(`\n✅ Connected ${teacher.name}${teacher.email ? ` (${teacher.email})` : ''}`);
+    console.log('\nAccess key (shown only once, any earlier key of this teacher no longer works):');
+    console.log(`\n  ${accessKey}\n`);
+    console.log('Configure the MCP client to send it with every request:');
+    console.log(`  Authorization: Bearer ${accessKey}`);
+
+    process.exit(0);
+  } catch (error) {
+    console.error('\n❌ Connecting the teacher failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
 main().catch((error) => {
   console.error('Unexpected error:', error);
   process.exit(1);
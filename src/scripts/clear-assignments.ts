@@ -1,7 +1,6 @@
 #!/usr/bin/env node
 
-import { ClassroomService } from "../classroom/services/classroomService.js";
-import { ClassroomClient } from "../classroom/api/classroomClient.js";
+import { createServices } from "../services.js";
 import readline from "readline";
 
 const colors = {
@@ -34,8 +33,9 @@ async function clearAllAssignments() {
     console.log(`${colors.yellow}${colors.bold}⚠️  WARNING: Assignment Deletion Tool${colors.reset}`);
     console.log(`${colors.yellow}This will DELETE all assignments and submissions from ALL your Google Classrooms!${colors.reset}\n`);
     
-    const service = ClassroomService.getInstance();
-    const client = ClassroomClient.getInstance();
+    const services = createServices();
+    const service = services.classroom;
+    const client = services.classroomClient;
     
     // Get all courses
     console.log(`${colors.cyan}Fetching all courses...${colors.reset}`);
@@ -195,15 +195,11 @@ async function clearAllAssignments() {
       const fs = await import("fs/promises");
       const path = await import("path");
       
-      const storageFile = path.join(process.cwd(), "worksheet-assignments.json");
-      const exists = await fs.access(storageFile).then(() => true).catch(() => false);
+      const removed = await services.worksheetStorage.clearAll();
       
-      if (exists) {
+      if (removed.length > 0) {
         const backupFile = path.join(process.cwd(), `worksheet-assignments.backup.${Date.now()}.json`);
-        await fs.rename(storageFile, backupFile);
-        
-        // Create empty storage
-        await fs.writeFile(storageFile, JSON.stringify({ worksheets: {}, assignmentMapping: {} }, null, 2));
+        await fs.writeFile(backupFile, JSON.stringify(removed, null, 2));
         
         console.log(`${colors.dim}Also cleared worksheet storage (backup saved as ${path.basename(backupFile)})${colors.reset}`);
       }
@@ -1,7 +1,6 @@
 #!/usr/bin/env node
 
-import { ClassroomService } from "../classroom/services/classroomService.js";
-import { ClassroomClient } from "../classroom/api/classroomClient.js";
+import { createServices } from "../services.js";
 
 const colors = {
   reset: "\x1b[0m",
@@ -19,8 +18,9 @@ async function listAllAssignments() {
   try {
     console.log(`${colors.cyan}${colors.bold}📋 Listing All Assignments${colors.reset}\n`);
     
-    const service = ClassroomService.getInstance();
-    const client = ClassroomClient.getInstance();
+    const services = createServices();
+    const service = services.classroom;
+    const client = services.classroomClient;
     
     // Get all courses
     console.log(`${colors.cyan}Fetching courses...${colors.reset}`);
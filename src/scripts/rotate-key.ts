@@ -0,0 +1,89 @@
+#!/usr/bin/env node
+
+import fs from 'fs/promises';
+import path from 'path';
+import { getEncryption } from '../security/encryption.js';
+import { resealFile } from '../security/encryptedFiles.js';
+import { TokenStore } from '../classroom/auth/tokenStore.js';
+import { getStorageBackend, getStorageDirectory } from '../classroom/storage/storage.js';
+
+/**
+ * Re-encrypts everything stored at rest with the current ENCRYPTION_KEY:
+ * Google tokens, storage documents and downloaded submissions, for the
+ * shared storage and every teacher. Run it with the new key in
+ * ENCRYPTION_KEY and the old ones in ENCRYPTION_PREVIOUS_KEYS; afterwards the
+ * old keys can be dropped. Running it for the first time encrypts data
+ * written before encryption was enabled.
+ */
+async function main() {
+  console.log('🔑 Encryption Key Rotation');
+  console.log('==========================\n');
+
+  const encryption = getEncryption();
+  if (!encryption) {
+    console.error('❌ ENCRYPTION_KEY is not set.');
+    console.error('Set ENCRYPTION_KEY to the new key and ENCRYPTION_PREVIOUS_KEYS to the old key(s), comma-separated.');
+    process.exit(1);
+  }
+
+  const teachersDirectory = path.join(getStorageDirectory(), 'teachers');
+  const teacherIds = await fs.readdir(teachersDirectory, { withFileTypes: true })
+    .then(entries => entries.filter(entry => entry.isDirectory()).map(entry => entry.name))
+    .catch(() => [] as string[]);
+
+  // The shared storage keeps its tokens and downloads in the working directory
+  const namespaces = [
+    { namespace: '', directory: process.cwd(), label: 'shared storage' },
+    ...teacherIds.map(teacherId => ({ namespace: teacherId, directory: getStorageDirectory(teacherId), label: `teacher ${teacherId}` }))
+  ];
+
+  let failures = 0;
+  for (const { namespace, directory, label } of namespaces) {
+    try {
+      const tokens = await new TokenStore(path.join(directory, 'tokens.json'), encryption).reseal();
+      const documents = await (await getStorageBackend(namespace)).reseal();
+      const legacyNotes = namespace ? false : await resealIfExists(path.join(directory, 'student-notes.json'));
+
+      let downloads = 0;
+      for (const filePath of await listFiles(path.join(directory, 'downloaded-submissions'))) {
+        if (await resealFile(filePath, encryption)) downloads++;
+      }
+
+      console.log(`✅ ${label}: ${tokens ? 'tokens, ' : ''}${documents.length} document(s)${legacyNotes ? ', student-notes.json' : ''}, ${downloads} download(s)`);
+    } catch (error) {
+      failures++;
+      console.error(`❌ ${label}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  for (const { namespace } of namespaces) {
+    await getStorageBackend(namespace).then(backend => backend.close(), () => undefined);
+  }
+
+  if (failures) {
+    console.error(`\n${failures} storage location(s) could not be re-encrypted. Keep the previous keys until they are fixed.`);
+    process.exit(1);
+  }
+  console.log('\nAll data is encrypted with the current key. ENCRYPTION_PREVIOUS_KEYS can now be removed.');
+}
+
+async function resealIfExists(filePath: string): Promise<boolean> {
+  try {
+    return await resealFile(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') return false;
+    throw error;
+  }
+}
+
+async function listFiles(directory: string): Promise<string[]> {
+  const entries = await fs.readdir(directory, { withFileTypes: true, recursive: true }).catch(() => []);
+  return entries
+    .filter(entry => entry.isFile() && !entry.name.endsWith('.tmp'))
+    .map(entry => path.join(entry.parentPath, entry.name));
+}
+
+main().catch((error) => {
+  console.error('Key rotation failed:', error);
+  process.exit(1);
+});
@@ -19,7 +19,7 @@ async function testTokenRefresh() {
   console.log(`${colors.bold}${colors.blue}🔐 Testing Token Refresh Logic${colors.reset}\n`);
 
   try {
-    const authManager = AuthManager.getInstance();
+    const authManager = new AuthManager();
     
     // Get current auth client
     console.log(`${colors.cyan}Getting auth client...${colors.reset}`);
@@ -1,13 +1,13 @@
 #!/usr/bin/env tsx
 
-import { ClassroomService } from '../classroom/index.js';
-import { optimizedWorksheetService } from '../worksheets/index.js';
+import { createServices } from '../services.js';
 
 async function testWorksheetAssignment() {
   console.log('🧪 Testing worksheet assignment creation...\n');
 
   try {
-    const service = ClassroomService.getInstance();
+    const services = createServices();
+    const service = services.classroom;
 
     // Step 1: List courses
     console.log('📚 Fetching available courses...');
@@ -32,9 +32,9 @@ async function testWorksheetAssignment() {
     console.log('📝 Generating a test worksheet...');
     const worksheetPrompt = 'Create a 4th grade math worksheet on fractions with 10 questions including addition and subtraction of fractions';
 
-    const worksheetResult = await optimizedWorksheetService.generateWorksheetWithPDF(
+    const worksheetResult = await services.worksheets.generateWorksheetWithPDF(
       worksheetPrompt,
-      true // Include answer key
+      { includeAnswerKey: true }
     );
 
     console.log(`✅ Worksheet generated: ${worksheetResult.title}`);
@@ -69,9 +69,9 @@ async function testWorksheetAssignment() {
 
     if (students.length > 1) {
       // Create another worksheet
-      const worksheet2 = await optimizedWorksheetService.generateWorksheetWithPDF(
+      const worksheet2 = await services.worksheets.generateWorksheetWithPDF(
         'Create a 4th grade advanced math worksheet on word problems involving fractions',
-        true
+        { includeAnswerKey: true }
       );
 
       // Assign to first half of students
@@ -97,9 +97,9 @@ async function testWorksheetAssignment() {
       const excludeIds = students.slice(-2).map(s => s.userId!).filter(Boolean);
 
       if (excludeIds.length > 0) {
-        const worksheet3 = await optimizedWorksheetService.generateWorksheetWithPDF(
+        const worksheet3 = await services.worksheets.generateWorksheetWithPDF(
           'Create a 4th grade review worksheet on basic fractions',
-          true
+          { includeAnswerKey: true }
         );
 
         const assignment3 = await service.createAssignmentWithWorksheet({
@@ -0,0 +1,52 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import { decryptIfSealed, getEncryption, type Encryption } from "./encryption.js";
+
+/**
+ * Reads a file written by writeEncryptedFile, or a plaintext file from
+ * before encryption was enabled.
+ */
+export async function readEncryptedFile(filePath: string, encryption: Encryption | null = getEncryption()): Promise<Buffer> {
+  return decryptIfSealed(await fs.readFile(filePath), encryption, path.basename(filePath));
+}
+
+/**
+ * Writes the file readable only by this user, encrypted when ENCRYPTION_KEY
+ * is set. The content goes to a temporary file that is renamed over the
+ * target, so a crash never leaves half a file.
+ */
+export async function writeEncryptedFile(
+  filePath: string,
+  content: Buffer | string,
+  encryption: Encryption | null = getEncryption()
+): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  await fs.writeFile(tempPath, encryption ? encryption.seal(content) : content, { mode: 0o600 });
+  try {
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Encrypts an existing file with the current key, e.g. one written by a
+ * library that only writes plaintext, or one sealed with a previous key.
+ * Returns false if the file was already encrypted with the current key.
+ */
+export async function resealFile(filePath: string, encryption: Encryption | null = getEncryption()): Promise<boolean> {
+  if (!encryption) {
+    return false;
+  }
+
+  const content = await fs.readFile(filePath);
+  if (encryption.isCurrent(content)) {
+    return false;
+  }
+  await writeEncryptedFile(filePath, decryptIfSealed(content, encryption, path.basename(filePath)), encryption);
+  return true;
+}
@@ -0,0 +1,108 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { config } from "../config.js";
+
+// Sealed data: MAGIC, key ID, IV, GCM auth tag, then the ciphertext
+const MAGIC = Buffer.from("EDUENC1\n", "utf-8");
+const KEY_ID_LENGTH = 8;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const HEADER_LENGTH = MAGIC.length + KEY_ID_LENGTH + IV_LENGTH + TAG_LENGTH;
+
+/**
+ * Decodes a 32-byte key given as base64 or hex, e.g. from `openssl rand -base64 32`.
+ */
+export function parseEncryptionKey(value: string): Buffer {
+  const trimmed = value.trim();
+  const key = /^[0-9a-f]{64}$/i.test(trimmed) ? Buffer.from(trimmed, "hex") : Buffer.from(trimmed, "base64");
+  if (key.length !== 32) {
+    throw new Error("ENCRYPTION_KEY must be 32 bytes, base64 or hex encoded. Generate one with: openssl rand -base64 32");
+  }
+  return key;
+}
+
+function keyIdOf(key: Buffer): Buffer {
+  return createHash("sha256").update(key).digest().subarray(0, KEY_ID_LENGTH);
+}
+
+/**
+ * AES-256-GCM encryption of files at rest. Sealed data names the key it was
+ * sealed with, so data sealed with an unknown key fails with a clear error
+ * instead of decrypting to garbage. New data is always sealed with the
+ * current key; previous keys only open data that has not been rotated yet.
+ */
+export class Encryption {
+  private keyId: Buffer;
+  private keys = new Map<string, Buffer>(); // By hex key ID
+
+  constructor(private key: Buffer, previousKeys: Buffer[] = []) {
+    this.keyId = keyIdOf(key);
+    for (const previousKey of [...previousKeys, key]) {
+      this.keys.set(keyIdOf(previousKey).toString("hex"), previousKey);
+    }
+  }
+
+  static isSealed(data: Buffer): boolean {
+    return data.length >= HEADER_LENGTH && data.subarray(0, MAGIC.length).equals(MAGIC);
+  }
+
+  /**
+   * Whether the data is sealed with the current key, i.e. needs no rotation.
+   */
+  isCurrent(data: Buffer): boolean {
+    return Encryption.isSealed(data) && data.subarray(MAGIC.length, MAGIC.length + KEY_ID_LENGTH).equals(this.keyId);
+  }
+
+  seal(plaintext: Buffer | string): Buffer {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv("aes-256-gcm", this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([MAGIC, this.keyId, iv, cipher.getAuthTag(), ciphertext]);
+  }
+
+  open(sealed: Buffer): Buffer {
+    if (!Encryption.isSealed(sealed)) {
+      throw new Error("Data is not encrypted");
+    }
+
+    let offset = MAGIC.length;
+    const keyId = sealed.subarray(offset, offset += KEY_ID_LENGTH);
+    const iv = sealed.subarray(offset, offset += IV_LENGTH);
+    const tag = sealed.subarray(offset, offset += TAG_LENGTH);
+    const key = this.keys.get(keyId.toString("hex"));
+    if (!key) {
+      throw new Error(`Data was encrypted with an unknown key (key ID ${keyId.toString("hex")}). Add that key to ENCRYPTION_PREVIOUS_KEYS.`);
+    }
+
+    const decipher = createDecipheriv("aes-256-gcm", key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(sealed.subarray(offset)), decipher.final()]);
+  }
+}
+
+/**
+ * Decrypts sealed data and passes plaintext through, so data written before
+ * encryption was enabled stays readable. `source` names the data in errors.
+ */
+export function decryptIfSealed(data: Buffer, encryption: Encryption | null, source: string): Buffer {
+  if (!Encryption.isSealed(data)) {
+    return data;
+  }
+  if (!encryption) {
+    throw new Error(`${source} is encrypted. Set ENCRYPTION_KEY to the key it was encrypted with.`);
+  }
+  return encryption.open(data);
+}
+
+let encryption: Encryption | null | undefined;
+
+/**
+ * The encryption configured with ENCRYPTION_KEY (and ENCRYPTION_PREVIOUS_KEYS
+ * while rotating), or null when data is stored in plaintext.
+ */
+export function getEncryption(): Encryption | null {
+  if (encryption === undefined) {
+    const previousKeys = (config.ENCRYPTION_PREVIOUS_KEYS || "").split(",").filter(key => key.trim()).map(parseEncryptionKey);
+    encryption = config.ENCRYPTION_KEY ? new Encryption(parseEncryptionKey(config.ENCRYPTION_KEY), previousKeys) : null;
+  }
+  return encryption;
+}
@@ -0,0 +1,149 @@
+import dns from "dns";
+import http from "http";
+import https from "https";
+import { BlockList, isIP } from "net";
+
+const MAX_REDIRECTS = 5;
+const FETCH_TIMEOUT_MS = 15_000;
+
+// Loopback, private, link-local (cloud metadata), shared, multicast and reserved ranges
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [["::", 127], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export interface FetchedDocument {
+  contentType: string;
+  body: Buffer;
+}
+
+/**
+ * Whether an IP address belongs to this machine or a private network, where
+ * a URL given by a teacher must never lead the server.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  const family = isIP(address);
+  if (family === 0) return true;
+  return PRIVATE_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+function refuse(url: string): Error {
+  return new Error(`Refusing to fetch ${url}: it points to a local or private network address`);
+}
+
+// Resolves like dns.lookup but fails for private addresses, so the address
+// that is checked is the one connected to, for every redirect
+function publicLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void
+): void {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "");
+    } else if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+      callback(refuse(hostname), "");
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+function checkUrl(url: URL): void {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Only http and https URLs can be fetched, got ${url.protocol}`);
+  }
+  // IP literals are connected to without a lookup
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host) && isPrivateAddress(host)) {
+    throw refuse(url.href);
+  }
+}
+
+function get(url: URL): Promise<http.IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === "https:" ? https : http).get(url, {
+      lookup: publicLookup,
+      headers: { "User-Agent": "EduAdapt worksheet generator" },
+      timeout: FETCH_TIMEOUT_MS
+    }, resolve);
+    request.on("timeout", () => request.destroy(new Error(`Timed out fetching ${url.href}`)));
+    request.on("error", reject);
+  });
+}
+
+async function readBody(response: http.IncomingMessage, url: string, maxBytes: number): Promise<Buffer> {
+  const tooLarge = () => new Error(`${url} is larger than ${Math.round(maxBytes / 1_000_000)} MB`);
+  if (Number(response.headers["content-length"]) > maxBytes) {
+    response.destroy();
+    throw tooLarge();
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      response.destroy();
+      throw tooLarge();
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Checks that a URL is http(s) on a public address without downloading it,
+ * e.g. before handing it to a service that fetches it itself.
+ */
+export async function checkPublicUrl(url: string): Promise<void> {
+  const target = new URL(url);
+  checkUrl(target);
+  await new Promise<void>((resolve, reject) => {
+    publicLookup(target.hostname, {}, error => error ? reject(error) : resolve());
+  });
+}
+
+/**
+ * Downloads a URL given by a user. Only http(s) URLs on public addresses are
+ * fetched, redirects included, and bodies over maxBytes are refused.
+ */
+export async function fetchPublicUrl(url: string, maxBytes: number): Promise<FetchedDocument> {
+  let target = new URL(url);
+
+  for (let redirects = 0; ; redirects++) {
+    checkUrl(target);
+    const response = await get(target);
+    const status = response.statusCode || 0;
+
+    if (status >= 300 && status < 400 && response.headers.location) {
+      response.resume();
+      if (redirects === MAX_REDIRECTS) {
+        throw new Error(`Too many redirects fetching ${url}`);
+      }
+      target = new URL(response.headers.location, target);
+      continue;
+    }
+
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new Error(`Could not fetch ${url}: ${status} ${response.statusMessage || ""}`.trim());
+    }
+
+    return {
+      contentType: response.headers["content-type"] || "",
+      body: await readBody(response, url, maxBytes)
+    };
+  }
+}
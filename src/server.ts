@@ -8,15 +8,64 @@ import {
   getComprehensiveClassroomData,
   nudgeStudents,
   createWorksheetAssignment,
+  differentiateWorksheet,
+  differentiateWorksheetSchema,
+  generateRemediation,
+  generateRemediationSchema,
+  createParallelForms,
+  parallelFormsSchema,
+  generateWorksheetFromMaterials,
+  worksheetFromMaterialsSchema,
+  listWorksheets,
+  listWorksheetsSchema,
+  searchWorksheets,
+  searchWorksheetsSchema,
+  getWorksheet,
+  getWorksheetSchema,
+  deleteWorksheet,
+  deleteWorksheetSchema,
+  assignLibraryWorksheet,
+  assignLibraryWorksheetSchema,
   createAnnouncement,
+  listPendingGrades,
+  listPendingGradesSchema,
+  editPendingGrade,
+  editPendingGradeSchema,
+  approveGrades,
+  approveGradesSchema,
+  publishGrades,
+  publishGradesSchema,
+  getGradingHistory,
+  gradingHistorySchema,
+  getStudentNote,
+  getStudentNoteSchema,
+  setStudentNote,
+  setStudentNoteSchema,
+  appendStudentNote,
+  appendStudentNoteSchema,
+  searchStudentNotes,
+  searchStudentNotesSchema,
+  deleteStudentNote,
+  deleteStudentNoteSchema,
+  getStudentProfile,
+  getStudentProfileSchema,
+  updateStudentProfile,
+  updateStudentProfileSchema,
+  recallStudentMemories,
+  recallStudentMemoriesSchema,
+  rememberStudentObservation,
+  rememberStudentObservationSchema,
 } from "./classroom/tools/index.js";
-import { optimizedWorksheetService } from "./worksheets/index.js";
-import { gradingService } from "./grading/index.js";
-import { ClassroomService } from "./classroom/services/classroomService.js";
-import { initializeBriaClient } from "./bria/service.js";
-import { config } from "./config.js";
-
-export const getServer = (): McpServer => {
+import { loadReadingPassage, AgeGroupSchema, ActivityTypeSchema } from "./worksheets/index.js";
+import { GRADING_MODEL } from "./grading/index.js";
+import type { Services } from "./services.js";
+import { writeEncryptedFile } from "./security/encryptedFiles.js";
+
+/**
+ * Builds the MCP server on the given services. Each call gets its own server,
+ * so differently configured services can be served side by side.
+ */
+export const getServer = (services: Services): McpServer => {
   const server = new McpServer(
     {
       name: "eduadapt-mcp-server",
@@ -30,7 +79,7 @@ export const getServer = (): McpServer => {
     "google-classroom-courses",
     "Lists all Google Classroom courses for the authenticated user. Returns an array of courses with their IDs, names, sections, and enrollment information. Use this first to get course IDs for other operations.",
     {},
-    async () => await listCourses()
+    async () => await listCourses(services)
   );
 
   server.tool(
@@ -39,7 +88,7 @@ export const getServer = (): McpServer => {
     {
       courseId: z.string().describe('The ID of the course to get details for'),
     },
-    async (args) => await getCourseDetails(args)
+    async (args) => await getCourseDetails(args, services)
   );
 
   server.tool(
@@ -53,7 +102,7 @@ export const getServer = (): McpServer => {
         .default(true)
         .describe('Whether to include submission details for each assignment'),
     },
-    async (args) => await getAssignments(args)
+    async (args) => await getAssignments(args, services)
   );
 
   // Register comprehensive Google Classroom data tool
@@ -82,7 +131,7 @@ export const getServer = (): McpServer => {
         .default(10)
         .describe('Maximum number of recent announcements to fetch per course'),
     },
-    async (args) => await getComprehensiveClassroomData(args)
+    async (args) => await getComprehensiveClassroomData(args, services)
   );
 
   // Register nudge students tool
@@ -92,7 +141,7 @@ export const getServer = (): McpServer => {
     {
       courseId: z.string().describe('The ID of the course to nudge students in'),
     },
-    async (args) => await nudgeStudents(args)
+    async (args) => await nudgeStudents(args, services)
   );
 
   // Register create announcement tool with optional image generation
@@ -125,25 +174,54 @@ export const getServer = (): McpServer => {
         title: z.string().optional().describe('Title for the material')
       })).optional().describe('Additional materials to attach to the announcement')
     },
-    async (args) => await createAnnouncement(args)
+    async (args) => await createAnnouncement(args, services)
   );
 
   // Register worksheet generation tool
   server.tool(
     "generate-worksheet",
-    "Generates a comprehensive, printer-friendly educational worksheet based on a text prompt. The tool automatically creates age-appropriate content with varied question types (fill-in-the-blanks, multiple choice, short answer, essays, math problems, etc.). The worksheet is automatically converted to PDF and uploaded to S3 for easy sharing and printing. An answer key PDF is also generated. Simply provide a description of what you want the worksheet to cover, including subject, topic, grade level or age, and any specific requirements. Examples: 'Create a 4th grade math worksheet on fractions', 'Generate a high school biology worksheet about cell division', 'Make a kindergarten worksheet for learning letters A-E with tracing'. The tool uses AI to generate 15-25 questions/activities in a beautifully formatted, dense layout perfect for classroom use.",
+    "Generates a comprehensive, printer-friendly educational worksheet based on a text prompt. The tool automatically creates age-appropriate content with varied question types (fill-in-the-blanks, multiple choice, short answer, essays, math problems, etc.). The worksheet is automatically converted to PDF and uploaded to S3 for easy sharing and printing. An answer key PDF is also generated. Simply provide a description of what you want the worksheet to cover, including subject, topic, grade level or age, and any specific requirements. Optional settings control the language, age group, complexity, number of sections and the exact activity types (e.g. language 'Spanish', ageGroup '8 - 9', activityTypes ['matching', 'fill-blanks']). For a reading comprehension worksheet, pass a source text (sourceText, or sourceUrl for a web page or PDF): the passage is printed with line numbers and the questions cite line ranges. Examples: 'Create a 4th grade math worksheet on fractions', 'Generate a high school biology worksheet about cell division', 'Make a kindergarten worksheet for learning letters A-E with tracing'. The tool uses AI to generate 15-25 questions/activities in a beautifully formatted, dense layout perfect for classroom use.",
     {
       prompt: z.string().describe('Description of the worksheet to generate. Include subject, topic, grade level/age, and any specific requirements.'),
-      includeAnswerKey: z.boolean().optional().default(true).describe('Whether to generate an answer key (default: true)')
+      language: z.string().optional().default('English (US)').describe('Language for all worksheet text, e.g. "Spanish", "French (Canada)" or "Arabic" (right-to-left scripts are laid out right to left). Default: English (US)'),
+      homeLanguage: z.string().optional().describe('Bilingual mode: repeat every section\'s instructions in this language, e.g. the home language of English learners ("Spanish", "Arabic"). Answer key and grading feedback follow the worksheet language'),
+      ageGroup: AgeGroupSchema.optional().default('auto').describe('Target age group of the students. Default: auto (inferred from the prompt)'),
+      complexity: z.number().min(0).max(3).optional().default(0).describe('Complexity level: 0 = automatic, 1 = simple, 2 = moderate, 3 = advanced. Default: 0'),
+      sectionCount: z.union([z.string(), z.number()]).optional().default('3-4').describe('Number of sections, either a number (3) or a range ("3-4"). Default: "3-4"'),
+      activityTypes: z.union([z.literal('automatic'), z.array(ActivityTypeSchema)])
+        .optional()
+        .default('automatic')
+        .describe('Activity types to use: "automatic" (chosen by age group) or a list such as ["matching", "fill-blanks"]. When a list is given, ONLY those activity types are used'),
+      includeAnswerKey: z.boolean().optional().default(true).describe('Whether to generate an answer key (default: true)'),
+      courseId: z.string().optional().describe('Google Classroom course ID. When given, the worksheet is adapted to the students\' learner profiles (language background, accommodations, reading level, misconceptions, interests)'),
+      studentIds: z.array(z.string()).optional().describe('Only adapt to these students\' profiles (requires courseId). Default: every profile in the course'),
+      sourceText: z.string().optional().describe('Reading worksheet: pasted source text. The worksheet prints the passage with line numbers and asks vocabulary, inference and evidence questions about it'),
+      sourceUrl: z.string().url().optional().describe('Reading worksheet: public http(s) URL of the source text - a web page, a plain text file or a PDF (read with OCR). Ignored when sourceText is given'),
+      sourceTitle: z.string().optional().describe('Title printed above the passage. Default: the page title for web pages')
     },
-    async ({ prompt, includeAnswerKey }) => {
+    async ({ prompt, courseId, studentIds, sourceText, sourceUrl, sourceTitle, ...settings }) => {
       try {
-        const result = await optimizedWorksheetService.generateWorksheetWithPDF(prompt, includeAnswerKey);
+        const learnerProfiles = courseId
+          ? await services.studentProfiles.getCourseProfiles(courseId, studentIds)
+          : [];
+        const passage = sourceText || sourceUrl
+          ? await loadReadingPassage({ text: sourceText, url: sourceUrl, title: sourceTitle }, services.mistral)
+          : undefined;
+        const result = await services.worksheets.generateWorksheetWithPDF(prompt, settings, { learnerProfiles, passage });
 
         let responseText = `✅ **Worksheet Generated Successfully!**\n\n`;
         responseText += `**Title:** ${result.title}\n`;
         responseText += `**Subject:** ${result.subject}\n`;
-        responseText += `**Grade Level:** ${result.grade}\n\n`;
+        responseText += `**Grade Level:** ${result.grade}\n`;
+        responseText += `**Language:** ${result.settings.language}${result.settings.homeLanguage ? ` (instructions also in ${result.settings.homeLanguage})` : ''}\n`;
+        responseText += `**Activity Types:** ${Array.isArray(result.settings.activityTypes) ? result.settings.activityTypes.join(', ') : 'automatic'}\n`;
+        if (learnerProfiles.length > 0) {
+          responseText += `**Adapted For:** ${learnerProfiles.map(profile => profile.studentName).join(', ')}\n`;
+        }
+        if (passage) {
+          responseText += `**Reading Passage:** ${passage.title || sourceUrl || 'pasted text'} (${passage.paragraphs.flat().length} numbered lines)\n`;
+        }
+        responseText += `\n`;
         responseText += `**Summary:** ${result.summary}\n\n`;
 
         if (result.totalPoints) {
@@ -207,7 +285,75 @@ export const getServer = (): McpServer => {
       studentIds: z.array(z.string()).optional().describe('List of student IDs to assign to (only used when assigneeMode is INDIVIDUAL_STUDENTS)'),
       excludeStudentIds: z.array(z.string()).optional().describe('List of student IDs to exclude (only used when assigneeMode is GROUP_WITH_EXCLUSIONS)'),
     },
-    async (args) => await createWorksheetAssignment(args)
+    async (args) => await createWorksheetAssignment(args, services)
+  );
+
+  // Register worksheet differentiation tool
+  server.tool(
+    "google-classroom-differentiate-worksheet",
+    "Turns a generated worksheet into tiered versions and assigns each student the version that fits them. Students are placed in a support, core or extension tier from their latest grading results (scaffolding/acceleration recommendations and score); students without grading history get the core worksheet. The support and extension worksheets are rewritten from the base worksheet using the students' learner profiles and notes, each with its own PDF and answer key, and every tier becomes a separate Classroom assignment assigned to its students only. REQUIRES courseId and worksheetPdfUrl (from generate-worksheet). Use previewOnly to check the tiers first and tierOverrides to move students.",
+    differentiateWorksheetSchema.shape,
+    async (args) => await differentiateWorksheet(args, services)
+  );
+
+  // Register remediation worksheet tool
+  server.tool(
+    "google-classroom-generate-remediation",
+    "Generates follow-up practice after a grading run. Students whose latest result for the assignment needs scaffolding are grouped by shared scaffolding areas; each group gets a short worksheet on just those concepts (worked examples, easier items, adapted to the students' learner profiles) with an answer key, assigned only to that group. REQUIRES courseId and assignmentId of an assignment graded with google-classroom-grade-all-submissions. Use previewOnly to check the groups first.",
+    generateRemediationSchema.shape,
+    async (args) => await generateRemediation(args, services)
+  );
+
+  // Register parallel forms tool
+  server.tool(
+    "google-classroom-create-parallel-forms",
+    "Creates parallel forms (A/B/C...) of a stored worksheet to deter copying. The original worksheet is Form A; every other form has the same sections, activity types and point values but different numbers, examples and scenarios, with its own answer key stored for grading. REQUIRES worksheetPdfUrl (from generate-worksheet). With courseId, the students (sorted by name) are dealt out over the forms and each form becomes its own assignment, so google-classroom-grade-all-submissions grades every student against their form's answer key.",
+    parallelFormsSchema.shape,
+    async (args) => await createParallelForms(args, services)
+  );
+
+  // Register worksheet from course materials tool
+  server.tool(
+    "google-classroom-worksheet-from-materials",
+    "Generates a practice worksheet and answer key from the materials a teacher already attached to a coursework item, so review sheets match what was actually taught. Downloads the coursework's Google Drive files (Google Docs and Slides are exported as PDF), reads them with Mistral OCR, and writes questions that stay within their content, vocabulary and methods. REQUIRES courseId and courseWorkId (from google-classroom-assignments). Optional focus narrows the worksheet, and the usual worksheet settings (language, ageGroup, complexity, sectionCount, activityTypes) apply. Returns worksheet and answer key PDF URLs; assign them with google-classroom-create-worksheet-assignment.",
+    worksheetFromMaterialsSchema.shape,
+    async (args) => await generateWorksheetFromMaterials(args, services)
+  );
+
+  // Register worksheet library tools
+  server.tool(
+    "google-classroom-list-worksheets",
+    "Lists stored worksheets from the worksheet library, newest first. Every worksheet generated by generate-worksheet (and its differentiated versions, parallel forms and follow-up practice) is stored with its answer key. Optional courseId lists only worksheets assigned in that course; optional limit (default 20). Returns title, subject, grade, points, assignment status and the worksheet PDF URL used by the other worksheet tools.",
+    listWorksheetsSchema.shape,
+    async (args) => await listWorksheets(args, services)
+  );
+
+  server.tool(
+    "google-classroom-search-worksheets",
+    "Searches the worksheet library by title, subject, grade, summary or course name. REQUIRES query. Optional courseId and limit (default 20). Use it to find a worksheet from an earlier conversation, e.g. \"fractions\" or \"Grade 4\".",
+    searchWorksheetsSchema.shape,
+    async (args) => await searchWorksheets(args, services)
+  );
+
+  server.tool(
+    "google-classroom-get-worksheet",
+    "Shows the details of a stored worksheet: title, subject, grade, summary, language and settings, total points and points per section, number of questions, the worksheet it was derived from, every Classroom assignment (in any course) it was assigned as, and the worksheet and answer key PDF URLs. REQUIRES worksheetPdfUrl or assignmentId.",
+    getWorksheetSchema.shape,
+    async (args) => await getWorksheet(args, services)
+  );
+
+  server.tool(
+    "google-classroom-delete-worksheet",
+    "Deletes a worksheet from the worksheet library. REQUIRES worksheetPdfUrl. Classroom assignments and the PDF files are kept, but assignments of the worksheet can no longer be graded against its stored answer key.",
+    deleteWorksheetSchema.shape,
+    async (args) => await deleteWorksheet(args, services)
+  );
+
+  server.tool(
+    "google-classroom-assign-library-worksheet",
+    "Assigns a stored worksheet in a course without regenerating it, e.g. to reuse last year's worksheet or give it to another class. REQUIRES worksheetPdfUrl (from the worksheet library) and courseId. Title, description and max points default to the stored worksheet's title, summary and total points. The new assignment is linked to the stored answer key, so it can be graded with google-classroom-grade-all-submissions.",
+    assignLibraryWorksheetSchema.shape,
+    async (args) => await assignLibraryWorksheet(args, services)
   );
 
   // Register grade all submissions tool
@@ -217,10 +363,11 @@ export const getServer = (): McpServer => {
     {
       courseId: z.string().describe('The ID of the course. Must be obtained from google-classroom-courses tool first'),
       assignmentId: z.string().describe('The ID of the assignment to grade. Must be obtained from google-classroom-assignments tool'),
+      updateStudentNotes: z.boolean().optional().default(false).describe('Whether to fold each student\'s learning recommendations into their teacher note (previous notes are kept in the note history). Default: false'),
     },
-    async ({ courseId, assignmentId }) => {
+    async ({ courseId, assignmentId, updateStudentNotes }) => {
       try {
-        const classroomService = ClassroomService.getInstance();
+        const classroomService = services.classroom;
         
         // Get assignment details
         const assignment = await classroomService.client.getCourseWork(courseId, assignmentId);
@@ -302,7 +449,7 @@ export const getServer = (): McpServer => {
             console.log(`Processing PDF submission from ${sub.userName} (${sub.userId})`);
             
             // Create downloads directory for inspection
-            const downloadsDir = path.join(process.cwd(), 'downloaded-submissions');
+            const downloadsDir = services.downloadsDirectory;
             await fs.mkdir(downloadsDir, { recursive: true });
             
             const savedFilePath = path.join(downloadsDir, `${sub.submissionId}_${sub.userName.replace(/[^a-z0-9]/gi, '_')}_${sub.driveFileName}`);
@@ -332,12 +479,12 @@ export const getServer = (): McpServer => {
               const arrayBuffer = response.data as ArrayBuffer;
               console.log(`Downloaded ${arrayBuffer.byteLength} bytes for ${sub.userName}`);
               
-              // Save to file for inspection
-              await fs.writeFile(savedFilePath, Buffer.from(arrayBuffer));
+              // Save to file for inspection, encrypted when ENCRYPTION_KEY is set
+              const fileBuffer = Buffer.from(arrayBuffer);
+              await writeEncryptedFile(savedFilePath, fileBuffer);
               console.log(`✅ PDF saved for inspection: ${savedFilePath}`);
               
               // Check if it's actually a PDF
-              const fileBuffer = await fs.readFile(savedFilePath);
               const isPDF = fileBuffer.slice(0, 4).toString() === '%PDF';
               if (!isPDF) {
                 console.warn(`⚠️ File does not appear to be a PDF for ${sub.userName}. First bytes: ${fileBuffer.slice(0, 20).toString('hex')}`);
@@ -345,11 +492,9 @@ export const getServer = (): McpServer => {
               
               // Upload to S3 first for reliable OCR processing
               console.log(`📤 Uploading PDF to S3 for ${sub.userName}...`);
-              const { pdfExportService } = await import('./worksheets/pdf.js');
-              
               let pdfUrl: string;
               try {
-                const s3Url = await pdfExportService.uploadToS3(
+                const s3Url = await services.pdfExport.uploadToS3(
                   fileBuffer,
                   `${sub.submissionId}_${sub.userName.replace(/[^a-z0-9]/gi, '_')}.pdf`,
                   {
@@ -362,13 +507,14 @@ export const getServer = (): McpServer => {
                 pdfUrl = s3Url;
               } catch (s3Error) {
                 console.warn(`⚠️ S3 upload failed for ${sub.userName}, falling back to local file:`, s3Error);
-                // Fallback to local file if S3 fails
-                pdfUrl = `file://${savedFilePath}`;
+                // Fallback to the downloaded bytes if S3 fails; OCR cannot read the encrypted copy
+                pdfUrl = `data:application/pdf;base64,${fileBuffer.toString('base64')}`;
               }
               
               // Grade the submission using S3 URL or local file
-              const result = await gradingService.gradeStudentSubmission({
+              const result = await services.grading.gradeStudentSubmission({
                 assignmentId: sub.assignmentId,
+                courseId,
                 userName: sub.userName,
                 userId: sub.userId,
                 pdfUrl: pdfUrl
@@ -383,26 +529,31 @@ export const getServer = (): McpServer => {
               
               // Try alternative download method using classroom client
               try {
-                const downloadPath = await classroomService.client.downloadFile(
-                  sub.driveFileId,
-                  savedFilePath
-                );
+                // Download outside the downloads directory so no plaintext copy is left behind
+                const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'eduadapt-submission-'));
+                let fileBuffer: Buffer;
+                try {
+                  const downloadPath = await classroomService.client.downloadFile(
+                    sub.driveFileId,
+                    path.join(tempDir, 'submission.pdf')
+                  );
+                  fileBuffer = await fs.readFile(downloadPath);
+                } finally {
+                  await fs.rm(tempDir, { recursive: true, force: true });
+                }
                 
-                console.log(`✅ PDF saved via alternative method: ${downloadPath}`);
+                // Keep the file for inspection, encrypted when ENCRYPTION_KEY is set, and OCR the downloaded bytes
+                await writeEncryptedFile(savedFilePath, fileBuffer);
+                console.log(`✅ PDF saved via alternative method: ${savedFilePath}`);
                 
-                // Use file path for OCR
-                const filePdfUrl = `file://${downloadPath}`;
-                
-                const result = await gradingService.gradeStudentSubmission({
+                const result = await services.grading.gradeStudentSubmission({
                   assignmentId: sub.assignmentId,
+                  courseId,
                   userName: sub.userName,
                   userId: sub.userId,
-                  pdfUrl: filePdfUrl
+                  pdfUrl: `data:application/pdf;base64,${fileBuffer.toString('base64')}`
                 });
                 
-                // Keep the file for inspection
-                console.log(`📁 Keeping downloaded PDF for inspection: ${downloadPath}`);
-                
                 return result;
               } catch (altError) {
                 throw new Error(`Could not download PDF: ${downloadError.message}`);
@@ -415,10 +566,12 @@ export const getServer = (): McpServer => {
               assignmentId: sub.assignmentId,
               submittedPdfUrl: `Drive file: ${sub.driveFileId}`,
               gradedAt: new Date().toISOString(),
+              model: GRADING_MODEL,
               overallScore: 0,
               totalPossiblePoints: 0,
               percentageScore: 0,
               sectionScores: [],
+              questionResults: [],
               overallFeedback: `Grading failed: ${error.message}`,
               learningRecommendations: {
                 needsScaffolding: false,
@@ -443,6 +596,33 @@ export const getServer = (): McpServer => {
           ? successful.reduce((sum, r) => sum + r.percentageScore, 0) / successful.length 
           : 0;
         
+        if (successful.length > 0) {
+          await services.grading.recordHistory(successful, {
+            courseId,
+            assignmentTitle: assignment.title || undefined
+          });
+        }
+
+        // Queue results for teacher review before anything is pushed to Classroom
+        let queuedForReview = false;
+        if (successful.length > 0) {
+          try {
+            await services.gradingReview.addGradingResults(courseId, successful, {
+              title: assignment.title || undefined,
+              maxPoints: assignment.maxPoints || 100
+            });
+            queuedForReview = true;
+          } catch (storageError) {
+            console.error('Failed to queue grading results for review:', storageError);
+          }
+        }
+
+        const noteUpdates = updateStudentNotes && successful.length > 0
+          ? await services.studentNotesUpdater.updateFromGradingResults(courseId, successful, {
+            assignmentTitle: assignment.title || undefined
+          })
+          : [];
+
         const needsSupport = successful.filter(r => r.learningRecommendations.needsScaffolding);
         const readyForMore = successful.filter(r => r.learningRecommendations.readyForAcceleration);
 
@@ -474,6 +654,15 @@ export const getServer = (): McpServer => {
             ).join(', ');
             responseText += `\n`;
           }
+
+          const missed = result.questionResults.filter(q => !q.isCorrect);
+          if (missed.length > 0) {
+            responseText += `• Marked wrong or partial:\n`;
+            responseText += missed.map(q =>
+              `  - Q${q.questionNumber} (${q.pointsAwarded}/${q.pointsPossible}): answered "${q.studentAnswer || '—'}", expected "${q.expectedAnswer}". ${q.rationale}`
+            ).join('\n');
+            responseText += `\n`;
+          }
           
           responseText += `• Feedback: ${result.overallFeedback}\n`;
           
@@ -497,6 +686,23 @@ export const getServer = (): McpServer => {
           }
         }
 
+        if (noteUpdates.length > 0) {
+          const updatedNotes = noteUpdates.filter(u => !u.error);
+          responseText += `\n**Student Notes Updated:** ${updatedNotes.length}/${noteUpdates.length}\n`;
+          responseText += noteUpdates.map(u =>
+            u.error ? `• ${u.studentName}: ⚠️ ${u.error}` : `• ${u.studentName}: ${u.note}`
+          ).join('\n');
+          responseText += `\n`;
+        }
+
+        if (queuedForReview) {
+          responseText += `\n**Next steps:** These results are saved for review. Use google-classroom-list-pending-grades to review them, google-classroom-edit-pending-grade to override a grade or feedback, google-classroom-approve-grades to approve, and google-classroom-publish-grades to push them to Google Classroom.\n`;
+        }
+
+        if (successful.some(r => r.learningRecommendations.needsScaffolding)) {
+          responseText += `\nUse google-classroom-generate-remediation to create follow-up practice for the students who need scaffolding.\n`;
+        }
+
         return {
           content: [{
             type: "text",
@@ -536,12 +742,11 @@ export const getServer = (): McpServer => {
     },
     async ({ prompt, aspectRatio, style, isMotivational }) => {
       try {
-        // Initialize Bria client if needed
-        if (!config.BRIA_API_KEY) {
+        if (!services.configured.bria) {
           throw new Error('Bria API key not configured. Please set BRIA_API_KEY environment variable.');
         }
         
-        const briaClient = initializeBriaClient({ apiKey: config.BRIA_API_KEY });
+        const briaClient = services.bria;
         
         let imageUrl: string;
         
@@ -571,6 +776,109 @@ export const getServer = (): McpServer => {
     }
   );
 
+  // Register student notes tools
+  server.tool(
+    "google-classroom-get-student-note",
+    "Reads the teacher's note about a student in a course. REQUIRES courseId and student (student ID or full name from the course roster). Optional includeHistory shows previous versions of the note.",
+    getStudentNoteSchema.shape,
+    async (args) => await getStudentNote(args, services)
+  );
+
+  server.tool(
+    "google-classroom-set-student-note",
+    "Saves a note about a student, replacing the current note (previous versions are kept in the history). REQUIRES courseId, student (student ID or full name) and note. Notes are limited to about 3 sentences (300 characters). Use this whenever the teacher shares something worth remembering about a student, e.g. \"Maria struggles with word problems\".",
+    setStudentNoteSchema.shape,
+    async (args) => await setStudentNote(args, services)
+  );
+
+  server.tool(
+    "google-classroom-append-student-note",
+    "Adds text to the end of a student's note without losing what is already there. REQUIRES courseId, student (student ID or full name) and text. Fails if the combined note would exceed 300 characters; condense it with google-classroom-set-student-note in that case.",
+    appendStudentNoteSchema.shape,
+    async (args) => await appendStudentNote(args, services)
+  );
+
+  server.tool(
+    "google-classroom-search-student-notes",
+    "Searches student notes by text, student name or course name. REQUIRES searchTerm. Optional courseId limits the search to one course. Useful for questions like \"which students struggle with fractions?\".",
+    searchStudentNotesSchema.shape,
+    async (args) => await searchStudentNotes(args, services)
+  );
+
+  server.tool(
+    "google-classroom-delete-student-note",
+    "Deletes the note about a student in a course. The deleted note stays in the note history. REQUIRES courseId and student (student ID or full name). The rest of the student's profile is kept.",
+    deleteStudentNoteSchema.shape,
+    async (args) => await deleteStudentNote(args, services)
+  );
+
+  // Register student profile tools
+  server.tool(
+    "google-classroom-get-student-profile",
+    "Shows a student's learner profile: language background, IEP/504 accommodations, reading level, known misconceptions, interests, preferred activity types, the teacher note and the performance timeline from past grading runs. REQUIRES courseId and student (student ID or full name from the course roster).",
+    getStudentProfileSchema.shape,
+    async (args) => await getStudentProfile(args, services)
+  );
+
+  server.tool(
+    "google-classroom-update-student-profile",
+    "Updates a student's learner profile. REQUIRES courseId and student (student ID or full name). Only the fields you pass are changed; list fields (accommodations, interests, preferredActivityTypes) replace the current list. Use addMisconception to record something the student gets wrong and resolveMisconceptionTopic once they have mastered it. Profiles are used to adapt generated worksheets (generate-worksheet with courseId) and to personalize grading feedback.",
+    updateStudentProfileSchema.shape,
+    async (args) => await updateStudentProfile(args, services)
+  );
+
+  // Register student memory tools
+  server.tool(
+    "google-classroom-recall-student-memories",
+    "Semantic search over everything remembered about students: teacher notes, the recommendations of past grading runs and observations saved with google-classroom-remember-student-observation. Ask in plain language, e.g. \"which students struggle with fractions?\" or \"who is ready for harder reading?\". Matches by meaning, not exact words. Optionally filter by courseId, student (requires courseId) and kinds (note, grading, remark). Results are grouped by student with the date and a match score.",
+    recallStudentMemoriesSchema.shape,
+    async (args) => await recallStudentMemories(args, services)
+  );
+
+  server.tool(
+    "google-classroom-remember-student-observation",
+    "Saves a dated observation about a student to the student memory, without changing the teacher note. REQUIRES courseId, student (student ID or full name from the course roster) and text. Use it for anything worth recalling later, e.g. \"confuses numerator and denominator when comparing fractions\".",
+    rememberStudentObservationSchema.shape,
+    async (args) => await rememberStudentObservation(args, services)
+  );
+
+  // Register grading review tools
+  server.tool(
+    "google-classroom-list-pending-grades",
+    "Lists AI-graded results saved by google-classroom-grade-all-submissions that are waiting for teacher review. REQUIRES courseId. Optionally filter by assignmentId and review status (pending, approved, published). Shows each student's suggested grade in assignment points, the feedback that will be sent, and the questions marked wrong with the student's answer and the expected answer.",
+    listPendingGradesSchema.shape,
+    async (args) => await listPendingGrades(args, services)
+  );
+
+  server.tool(
+    "google-classroom-edit-pending-grade",
+    "Overrides the suggested grade and/or feedback of a saved grading result before it is published. REQUIRES courseId, assignmentId and studentId, plus a new grade (in assignment points) and/or feedback. Edited results go back to pending and must be approved again.",
+    editPendingGradeSchema.shape,
+    async (args) => await editPendingGrade(args, services)
+  );
+
+  server.tool(
+    "google-classroom-approve-grades",
+    "Approves saved grading results so they can be published. REQUIRES courseId and assignmentId. Approves every pending result for the assignment, or only the given studentIds.",
+    approveGradesSchema.shape,
+    async (args) => await approveGrades(args, services)
+  );
+
+  server.tool(
+    "google-classroom-publish-grades",
+    "Pushes approved grading results to Google Classroom in bulk, setting each student's grade and sending their feedback privately. REQUIRES courseId and assignmentId. mode 'draft' (default) sets draft grades only the teacher sees; mode 'assigned' sets assigned grades visible to students. Publishes every approved result for the assignment, or only the given studentIds.",
+    publishGradesSchema.shape,
+    async (args) => await publishGrades(args, services)
+  );
+
+  // Register grading history tool
+  server.tool(
+    "google-classroom-grading-history",
+    "Shows the stored grading history from every google-classroom-grade-all-submissions run. Filter by courseId, assignmentId and/or studentId (at least one is required). Results are grouped per student in chronological order with scores, section breakdown, learning recommendations, the model used, and the score trend over time. Use this to follow a student's trajectory over a term.",
+    gradingHistorySchema.shape,
+    async (args) => await getGradingHistory(args, services)
+  );
+
   // Register set grade and send feedback tool
   server.tool(
     "google-classroom-set-grade-feedback",
@@ -585,7 +893,7 @@ export const getServer = (): McpServer => {
     },
     async ({ courseId, assignmentId, studentId, grade, feedback, isDraft }) => {
       try {
-        const classroomService = ClassroomService.getInstance();
+        const classroomService = services.classroom;
         
         const result = await classroomService.setGradeAndFeedback(
           courseId,
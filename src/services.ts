@@ -0,0 +1,142 @@
+import * as path from "path";
+import type { classroom_v1, drive_v3 } from "googleapis";
+import { config } from "./config.js";
+import { AuthManager } from "./classroom/auth/authManager.js";
+import { ClassroomClient } from "./classroom/api/classroomClient.js";
+import { ClassroomService } from "./classroom/services/classroomService.js";
+import { getStorageBackend } from "./classroom/storage/storage.js";
+import type { StorageProvider } from "./classroom/storage/storageBackend.js";
+import { WorksheetStorageManager } from "./classroom/storage/worksheetStorageManager.js";
+import { StudentProfileManager } from "./classroom/storage/studentProfileManager.js";
+import { StudentNotesManager } from "./classroom/storage/studentNotesManager.js";
+import { GradingHistoryManager } from "./classroom/storage/gradingHistoryManager.js";
+import { GradingReviewManager } from "./classroom/storage/gradingReviewManager.js";
+import { MistralClient, type MistralClientApi } from "./llm/mistral.js";
+import { LangChainMistralClient, type LangChainMistralClientApi } from "./llm/langchain-mistral.js";
+import { BriaClient, type BriaClientApi } from "./bria/client.js";
+import { PDFExportService, type PDFExportServiceApi } from "./worksheets/pdf.js";
+import { OptimizedWorksheetService } from "./worksheets/optimized-service.js";
+import { GradingService } from "./grading/gradingService.js";
+import { StudentNotesUpdater } from "./grading/studentNotesUpdater.js";
+import { StudentMemory } from "./memory/studentMemory.js";
+import { createEmbedder } from "./memory/embedders.js";
+import { createVectorStore } from "./memory/vectorStores.js";
+import type { Embedder, VectorStore } from "./memory/types.js";
+
+/**
+ * Everything the MCP tools use, built once by createServices() and passed to
+ * getServer(). Nothing below reaches for a global instance, so one process can
+ * hold several independently configured sets of services.
+ */
+export interface Services {
+  auth: AuthManager;
+  classroomClient: ClassroomClient;
+  classroom: ClassroomService;
+  worksheetStorage: WorksheetStorageManager;
+  studentProfiles: StudentProfileManager;
+  studentNotes: StudentNotesManager;
+  gradingHistory: GradingHistoryManager;
+  gradingReview: GradingReviewManager;
+  studentMemory: StudentMemory;
+  mistral: MistralClientApi;
+  langchain: LangChainMistralClientApi;
+  bria: BriaClientApi;
+  pdfExport: PDFExportServiceApi;
+  worksheets: OptimizedWorksheetService;
+  grading: GradingService;
+  studentNotesUpdater: StudentNotesUpdater;
+  downloadsDirectory: string; // Where submissions are saved while grading
+  // Optional providers with credentials; the others stand in with errors naming the missing setting
+  configured: { mistral: boolean; bria: boolean; };
+}
+
+/**
+ * Replacements for the parts createServices() would otherwise build from the
+ * configuration, e.g. the in-memory fakes from src/testing.
+ */
+export interface ServiceOverrides {
+  auth?: AuthManager;
+  googleApis?: { classroom: classroom_v1.Classroom; drive: drive_v3.Drive; };
+  storage?: StorageProvider;
+  legacyNotesPath?: string | null; // student-notes.json to seed new storage from; null for none
+  downloadsDirectory?: string;
+  mistral?: MistralClientApi;
+  langchain?: LangChainMistralClientApi;
+  bria?: BriaClientApi;
+  pdfExport?: PDFExportServiceApi;
+  embedder?: Embedder;
+  vectorStore?: VectorStore;
+}
+
+/**
+ * Stands in for a provider that has no credentials, so the server still starts
+ * and only the features that need the provider fail, naming the setting to add.
+ */
+function unconfiguredProvider<T extends object>(provider: string, setting: string): T {
+  return new Proxy({} as T, {
+    get: (_target, property) => property === "then"
+      ? undefined // Not a promise, so the stand-in can be awaited and returned like a client
+      : async () => { throw new Error(`${provider} is not configured. Set ${setting} to use this feature.`); }
+  });
+}
+
+/**
+ * The composition root: builds every service from the configuration and the
+ * given overrides, with each dependency passed in explicitly.
+ */
+export function createServices(overrides: ServiceOverrides = {}): Services {
+  const storage = overrides.storage || getStorageBackend;
+
+  const mistralKey = config.MISTRAL_API_KEY;
+  const mistral = overrides.mistral
+    || (mistralKey ? new MistralClient(mistralKey) : unconfiguredProvider<MistralClientApi>("Mistral", "MISTRAL_API_KEY"));
+  const langchain = overrides.langchain
+    || (mistralKey ? new LangChainMistralClient(mistralKey) : unconfiguredProvider<LangChainMistralClientApi>("Mistral", "MISTRAL_API_KEY"));
+  const bria = overrides.bria
+    || (config.BRIA_API_KEY ? new BriaClient({ apiKey: config.BRIA_API_KEY }) : unconfiguredProvider<BriaClientApi>("Bria", "BRIA_API_KEY"));
+  const pdfExport = overrides.pdfExport || new PDFExportService();
+
+  const auth = overrides.auth || new AuthManager();
+  const classroomClient = new ClassroomClient(auth);
+  if (overrides.googleApis) {
+    classroomClient.setApiClients(overrides.googleApis.classroom, overrides.googleApis.drive);
+  }
+
+  const worksheetStorage = new WorksheetStorageManager(storage);
+  const studentProfiles = new StudentProfileManager(storage, overrides.legacyNotesPath);
+  const gradingHistory = new GradingHistoryManager(storage);
+  const gradingReview = new GradingReviewManager(storage);
+  const studentMemory = new StudentMemory(
+    // Without Mistral, memories are still recalled with the local embedder
+    overrides.embedder || createEmbedder(mistralKey || overrides.mistral ? config.MEMORY_EMBEDDER : "local", mistral),
+    overrides.vectorStore || createVectorStore(config.MEMORY_VECTOR_STORE, storage),
+    storage,
+    studentProfiles,
+    gradingHistory
+  );
+  const studentNotes = new StudentNotesManager(studentProfiles, studentMemory);
+
+  return {
+    auth,
+    classroomClient,
+    classroom: new ClassroomService(classroomClient, studentNotes, worksheetStorage),
+    worksheetStorage,
+    studentProfiles,
+    studentNotes,
+    gradingHistory,
+    gradingReview,
+    studentMemory,
+    mistral,
+    langchain,
+    bria,
+    pdfExport,
+    worksheets: new OptimizedWorksheetService(langchain, pdfExport, worksheetStorage),
+    grading: new GradingService(mistral, langchain, worksheetStorage, gradingHistory, studentProfiles, studentMemory),
+    studentNotesUpdater: new StudentNotesUpdater(langchain, studentNotes),
+    downloadsDirectory: overrides.downloadsDirectory || path.join(process.cwd(), "downloaded-submissions"),
+    configured: {
+      mistral: Boolean(overrides.mistral || mistralKey),
+      bria: Boolean(overrides.bria || config.BRIA_API_KEY)
+    }
+  };
+}
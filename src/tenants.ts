@@ -0,0 +1,77 @@
+import * as path from "path";
+import type { Credentials } from "google-auth-library";
+import { AuthManager } from "./classroom/auth/authManager.js";
+import { TeacherRegistry, fetchTeacherProfile, type Teacher, type TeacherProfile } from "./classroom/auth/teacherRegistry.js";
+import { getStorageBackend, getStorageDirectory, namespacedStorage } from "./classroom/storage/storage.js";
+import { createServices, type ServiceOverrides, type Services } from "./services.js";
+
+export interface TenantOptions {
+  registry?: TeacherRegistry; // Default: kept in the shared storage
+  // Replacements for a teacher's services, e.g. the fakes from src/testing
+  overrides?: (teacherId: string) => ServiceOverrides;
+  // Finds the Google account the tokens belong to. Default: the Classroom user profile
+  identify?: (tokens: Credentials) => Promise<TeacherProfile>;
+}
+
+export interface ConnectedTeacher {
+  teacher: Teacher;
+  accessKey: string; // Shown to the teacher once; only its hash is stored
+}
+
+/**
+ * The teachers of a multi-teacher deployment. Every teacher has their own
+ * Google tokens and storage namespace (teachers/<teacherId> in STORAGE_DIR),
+ * so their services never see another teacher's classes, notes or worksheets.
+ */
+export class Tenants {
+  readonly registry: TeacherRegistry;
+  private services = new Map<string, Services>(); // By teacher ID
+
+  constructor(private options: TenantOptions = {}) {
+    this.registry = options.registry || new TeacherRegistry(() => getStorageBackend());
+  }
+
+  /**
+   * The teacher's services, built on first use and kept for later sessions.
+   */
+  servicesFor(teacherId: string): Services {
+    let services = this.services.get(teacherId);
+    if (!services) {
+      const directory = getStorageDirectory(teacherId);
+      services = createServices({
+        auth: new AuthManager({ tokenPath: path.join(directory, "tokens.json"), useEnvTokens: false }),
+        storage: namespacedStorage(teacherId),
+        legacyNotesPath: null, // The process-wide notes belong to no particular teacher
+        downloadsDirectory: path.join(directory, "downloaded-submissions"),
+        ...this.options.overrides?.(teacherId)
+      });
+      this.services.set(teacherId, services);
+    }
+    return services;
+  }
+
+  async authenticate(accessKey: string): Promise<Teacher | null> {
+    return accessKey ? this.registry.findByAccessKey(accessKey) : null;
+  }
+
+  /**
+   * Registers the teacher the Google tokens belong to, stores the tokens in
+   * their namespace and issues their access key.
+   */
+  async connect(tokens: Credentials): Promise<ConnectedTeacher> {
+    const profile = await (this.options.identify || fetchTeacherProfile)(tokens);
+
+    await this.servicesFor(profile.teacherId).auth.saveTokens(tokens);
+    return this.registry.register(profile);
+  }
+
+  /**
+   * Deletes the teacher's Google tokens and access key. Their notes and
+   * worksheets stay in their namespace for when they connect again.
+   */
+  async disconnect(teacherId: string): Promise<void> {
+    await this.servicesFor(teacherId).auth.clearCredentials();
+    await this.registry.removeTeacher(teacherId);
+    this.services.delete(teacherId);
+  }
+}
@@ -1,8 +1,10 @@
 import { listCourses, getCourseDetails, getAssignments } from "./classroom/tools/index.js";
-import { ClassroomService } from "./classroom/services/classroomService.js";
+import { createServices } from "./services.js";
 import fs from "fs/promises";
 import path from "path";
 
+const services = createServices();
+
 const colors = {
   reset: "\x1b[0m",
   green: "\x1b[32m",
@@ -33,7 +35,7 @@ async function runTests() {
 
   try {
     await test("List all courses", async () => {
-      const result = await listCourses();
+      const result = await listCourses(services);
 
       if (!result.content || result.content.length === 0) {
         throw new Error("Expected content array in response");
@@ -67,7 +69,7 @@ async function runTests() {
   if (courseId) {
     try {
       await test("Get course details", async () => {
-        const result = await getCourseDetails({ courseId: courseId! });
+        const result = await getCourseDetails({ courseId: courseId! }, services);
 
         if (!result.content || result.content.length === 0) {
           throw new Error("Expected content array in response");
@@ -103,7 +105,7 @@ async function runTests() {
         const result = await getAssignments({
           courseId: courseId!,
           includeSubmissions: false
-        });
+        }, services);
 
         if (!result.content || result.content.length === 0) {
           throw new Error("Expected content array in response");
@@ -138,7 +140,7 @@ async function runTests() {
         const result = await getAssignments({
           courseId: courseId!,
           includeSubmissions: true
-        });
+        }, services);
 
         if (!result.content || result.content.length === 0) {
           throw new Error("Expected content array in response");
@@ -170,7 +172,7 @@ async function runTests() {
     // Test download assignment functionality
     try {
       await test("Download single assignment", async () => {
-        const service = ClassroomService.getInstance();
+        const service = services.classroom;
 
         // First get assignments to have an ID
         const assignments = await service.getAllAssignments(courseId!);
@@ -203,7 +205,7 @@ async function runTests() {
     if (assignmentId) {
       try {
         await test("Download submission", async () => {
-          const service = ClassroomService.getInstance();
+          const service = services.classroom;
 
           // Get submissions for the assignment
           const submissions = await service.getStudentSubmissions(courseId!, assignmentId!);
@@ -235,7 +237,7 @@ async function runTests() {
 
       try {
         await test("Download all submissions for assignment", async () => {
-          const service = ClassroomService.getInstance();
+          const service = services.classroom;
 
           const result = await service.downloadAllSubmissions(courseId!, assignmentId!, './test-downloads');
 
@@ -266,7 +268,7 @@ async function runTests() {
     // Test download all course submissions
     try {
       await test("Download all course submissions", async () => {
-        const service = ClassroomService.getInstance();
+        const service = services.classroom;
 
         const { results, allDownloadedFiles } = await service.downloadAllCourseSubmissions(courseId!, './test-downloads');
 
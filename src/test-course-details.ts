@@ -1,10 +1,11 @@
 import { getCourseDetails } from "./classroom/tools/index.js";
+import { createServices } from "./services.js";
 
 async function testCourseDetails() {
   console.log("Testing getCourseDetails with courseId: 806194193413\n");
 
   try {
-    const result = await getCourseDetails({ courseId: "806194193413" });
+    const result = await getCourseDetails({ courseId: "806194193413" }, createServices());
 
     console.log("Raw result:", JSON.stringify(result, null, 2));
 
@@ -1,7 +1,9 @@
-import { optimizedWorksheetService } from "./worksheets/optimized-service.js";
+import { createServices } from "./services.js";
 import * as fs from "fs/promises";
 import * as path from "path";
 
+const services = createServices();
+
 async function testOptimizedWorksheetGeneration() {
   console.log("Testing optimized worksheet generation with PDF...\n");
 
@@ -18,7 +20,7 @@ async function testOptimizedWorksheetGeneration() {
 
     try {
       // Test basic generation first
-      const worksheet = await optimizedWorksheetService.generateWorksheet(prompt);
+      const worksheet = await services.worksheets.generateWorksheet(prompt);
       console.log(`✅ HTML Generated: ${worksheet.html.length} characters`);
       console.log(`   Title: ${worksheet.title}`);
       console.log(`   Subject: ${worksheet.subject}`);
@@ -33,7 +35,7 @@ async function testOptimizedWorksheetGeneration() {
 
       // Now test PDF generation with S3 upload
       console.log("\nGenerating PDF with S3 upload...");
-      const pdfResult = await optimizedWorksheetService.generateWorksheetWithPDF(prompt, true);
+      const pdfResult = await services.worksheets.generateWorksheetWithPDF(prompt, { includeAnswerKey: true });
       console.timeEnd("Generation time");
 
       console.log(`\n📄 PDF Generation Results:`);
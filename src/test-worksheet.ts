@@ -1,6 +1,10 @@
-import { generateWorksheetWithPDF, worksheetService } from "./worksheets/index.js";
+import { generateWorksheetWithPDF, WorksheetService } from "./worksheets/index.js";
+import { createServices } from "./services.js";
 import { promises as fs } from "fs";
 
+const services = createServices();
+const worksheetService = new WorksheetService(services.mistral);
+
 async function testWorksheetGeneration() {
   console.log("🚀 Testing Worksheet Generation System\n");
 
@@ -66,6 +70,7 @@ async function testWorksheetGeneration() {
     console.log("📝 Test 5: Testing PDF export (requires Docker container)...");
     try {
       const worksheetWithPDF = await generateWorksheetWithPDF(
+        { worksheetService, pdfExportService: services.pdfExport },
         "Create a simple vocabulary worksheet for grade 2 students about animals.",
         {
           ageGroup: "6 - 7",
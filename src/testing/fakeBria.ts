@@ -0,0 +1,32 @@
+import type { BriaClientApi } from "../bria/client.js";
+import type { BriaImageGenerationOptions } from "../bria/types.js";
+
+// 1x1 transparent PNG
+const PIXEL_PNG_BASE64 = "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+/**
+ * Offline stand-in for BriaClient. Every generated image is the same tiny
+ * PNG as a data: URL, which the tools can download without a network.
+ */
+export class FakeBriaClient implements BriaClientApi {
+  readonly requests: BriaImageGenerationOptions[] = [];
+
+  async generateImage(options: BriaImageGenerationOptions): Promise<string[]> {
+    this.requests.push(options);
+    return Array.from({ length: options.num_results || 1 }, () => `data:image/png;base64,${PIXEL_PNG_BASE64}`);
+  }
+
+  async generateSingleImage(prompt: string, aspectRatio?: BriaImageGenerationOptions["aspect_ratio"]): Promise<string> {
+    const [url] = await this.generateImage({ prompt, num_results: 1, aspect_ratio: aspectRatio, sync: true });
+    return url;
+  }
+
+  async generateMotivationalImage(prompt: string, style: "photography" | "art" = "art"): Promise<string> {
+    const [url] = await this.generateImage({ prompt, num_results: 1, aspect_ratio: "16:9", medium: style, sync: true });
+    return url;
+  }
+
+  async enhancePrompt(prompt: string): Promise<string> {
+    return prompt;
+  }
+}
@@ -0,0 +1,383 @@
+import { Readable } from "stream";
+import type { classroom_v1, drive_v3 } from "googleapis";
+
+export interface FakeDriveFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  content: Buffer;
+  parents?: string[];
+  shared: boolean; // Set by permissions.create
+}
+
+export interface FakeStudentSeed {
+  userId: string;
+  fullName: string;
+  emailAddress?: string;
+}
+
+export interface FakeSubmissionSeed {
+  userId: string;
+  state?: classroom_v1.Schema$StudentSubmission["state"];
+  // Attached file, uploaded to the fake Drive
+  attachment?: { name: string; content: Buffer; mimeType?: string; };
+  late?: boolean;
+}
+
+// Error shaped like the ones googleapis throws, with the HTTP status in `code` and `response.status`
+class GoogleApiError extends Error {
+  readonly response: { status: number; };
+
+  constructor(public code: number, message: string) {
+    super(message);
+    this.name = "GoogleApiError";
+    this.response = { status: code };
+  }
+}
+
+function notFound(what: string): GoogleApiError {
+  return new GoogleApiError(404, `Requested entity was not found: ${what}`);
+}
+
+async function readBody(body: unknown): Promise<Buffer> {
+  if (Buffer.isBuffer(body)) return body;
+  if (typeof body === "string") return Buffer.from(body);
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of body as AsyncIterable<Buffer | string>) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+function asResponseType(content: Buffer, responseType?: string): unknown {
+  if (responseType === "stream") return Readable.from([content]);
+  if (responseType === "arraybuffer") return content.buffer.slice(content.byteOffset, content.byteOffset + content.length);
+  return content.toString("utf-8");
+}
+
+function applyUpdateMask<T extends object>(target: T, updates: Partial<T>, updateMask?: string): void {
+  const fields = updateMask ? updateMask.split(",").map(field => field.trim()) : Object.keys(updates);
+  for (const field of fields) {
+    (target as Record<string, unknown>)[field] = (updates as Record<string, unknown>)[field];
+  }
+}
+
+/**
+ * In-memory Google Classroom and Drive. `classroom` and `drive` mimic the
+ * parts of the googleapis clients that ClassroomClient and the tools use, and
+ * are installed with ClassroomClient.setApiClients. Tests seed courses,
+ * rosters, coursework and submissions with the add* methods and inspect
+ * what the server changed through the public state.
+ */
+export class FakeGoogleWorkspace {
+  readonly courses: classroom_v1.Schema$Course[] = [];
+  readonly students = new Map<string, classroom_v1.Schema$Student[]>(); // By course ID
+  readonly teachers = new Map<string, classroom_v1.Schema$Teacher[]>(); // By course ID
+  readonly courseWork = new Map<string, classroom_v1.Schema$CourseWork[]>(); // By course ID
+  readonly submissions = new Map<string, classroom_v1.Schema$StudentSubmission[]>(); // By courseWork ID
+  readonly announcements = new Map<string, classroom_v1.Schema$Announcement[]>(); // By course ID
+  readonly invitations: classroom_v1.Schema$Invitation[] = [];
+  readonly driveFiles = new Map<string, FakeDriveFile>();
+
+  private nextId = 1;
+
+  private newId(prefix: string): string {
+    return `${prefix}-${this.nextId++}`;
+  }
+
+  private now(): string {
+    return new Date().toISOString();
+  }
+
+  // --- Seeding ---
+
+  addCourse(course: classroom_v1.Schema$Course & { id: string; name: string; }): classroom_v1.Schema$Course {
+    const stored: classroom_v1.Schema$Course = {
+      courseState: "ACTIVE",
+      alternateLink: `https://classroom.google.com/c/${course.id}`,
+      creationTime: this.now(),
+      updateTime: this.now(),
+      ...course
+    };
+    this.courses.push(stored);
+    for (const map of [this.students, this.teachers, this.courseWork, this.announcements]) {
+      map.set(course.id, []);
+    }
+    return stored;
+  }
+
+  addStudent(courseId: string, seed: FakeStudentSeed): classroom_v1.Schema$Student {
+    const student: classroom_v1.Schema$Student = {
+      courseId,
+      userId: seed.userId,
+      profile: {
+        id: seed.userId,
+        name: { fullName: seed.fullName, givenName: seed.fullName.split(" ")[0], familyName: seed.fullName.split(" ").slice(1).join(" ") },
+        emailAddress: seed.emailAddress || `${seed.userId}@school.test`
+      }
+    };
+    this.requireList(this.students, courseId).push(student);
+    return student;
+  }
+
+  addTeacher(courseId: string, seed: FakeStudentSeed): classroom_v1.Schema$Teacher {
+    const teacher: classroom_v1.Schema$Teacher = {
+      courseId,
+      userId: seed.userId,
+      profile: {
+        id: seed.userId,
+        name: { fullName: seed.fullName },
+        emailAddress: seed.emailAddress || `${seed.userId}@school.test`
+      }
+    };
+    this.requireList(this.teachers, courseId).push(teacher);
+    return teacher;
+  }
+
+  /**
+   * Adds coursework. Like Classroom, every assigned student gets an empty
+   * (CREATED) submission.
+   */
+  addCourseWork(courseId: string, courseWork: classroom_v1.Schema$CourseWork & { title: string; }): classroom_v1.Schema$CourseWork {
+    const id = courseWork.id || this.newId("coursework");
+    const stored: classroom_v1.Schema$CourseWork = {
+      ...courseWork,
+      id,
+      courseId,
+      state: courseWork.state || "PUBLISHED",
+      workType: courseWork.workType || "ASSIGNMENT",
+      assigneeMode: courseWork.assigneeMode || "ALL_STUDENTS",
+      creationTime: this.now(),
+      updateTime: this.now(),
+      alternateLink: courseWork.alternateLink || `https://classroom.google.com/c/${courseId}/a/${id}`
+    };
+    this.requireList(this.courseWork, courseId).push(stored);
+
+    const assigned = stored.assigneeMode === "INDIVIDUAL_STUDENTS"
+      ? stored.individualStudentsOptions?.studentIds || []
+      : this.requireList(this.students, courseId).map(student => student.userId!);
+    this.submissions.set(stored.id!, assigned.map(userId => this.createSubmission(courseId, stored.id!, userId)));
+    return stored;
+  }
+
+  /**
+   * Sets a student's submission for coursework, replacing the empty one.
+   * Submissions with an attachment default to TURNED_IN.
+   */
+  submit(courseId: string, courseWorkId: string, seed: FakeSubmissionSeed): classroom_v1.Schema$StudentSubmission {
+    const submissions = this.requireList(this.submissions, courseWorkId);
+    let submission = submissions.find(s => s.userId === seed.userId);
+    if (!submission) {
+      submission = this.createSubmission(courseId, courseWorkId, seed.userId);
+      submissions.push(submission);
+    }
+
+    submission.state = seed.state || (seed.attachment ? "TURNED_IN" : "CREATED");
+    submission.late = seed.late || false;
+    submission.updateTime = this.now();
+    if (seed.attachment) {
+      const file = this.addDriveFile(seed.attachment.name, seed.attachment.content, seed.attachment.mimeType);
+      submission.assignmentSubmission = {
+        attachments: [{ driveFile: { id: file.id, title: file.name, alternateLink: `https://drive.google.com/file/d/${file.id}/view` } }]
+      };
+    }
+    return submission;
+  }
+
+  addDriveFile(name: string, content: Buffer, mimeType = "application/pdf"): FakeDriveFile {
+    const file: FakeDriveFile = { id: this.newId("file"), name, mimeType, content, shared: false };
+    this.driveFiles.set(file.id, file);
+    return file;
+  }
+
+  private createSubmission(courseId: string, courseWorkId: string, userId: string): classroom_v1.Schema$StudentSubmission {
+    return {
+      id: this.newId("submission"),
+      courseId,
+      courseWorkId,
+      userId,
+      state: "CREATED",
+      creationTime: this.now(),
+      updateTime: this.now(),
+      assignmentSubmission: { attachments: [] }
+    };
+  }
+
+  private requireList<T>(map: Map<string, T[]>, key: string): T[] {
+    const list = map.get(key);
+    if (!list) throw notFound(key);
+    return list;
+  }
+
+  private requireCourse(courseId: string): classroom_v1.Schema$Course {
+    const course = this.courses.find(c => c.id === courseId);
+    if (!course) throw notFound(`course ${courseId}`);
+    return course;
+  }
+
+  private requireCourseWork(courseId: string, courseWorkId: string): classroom_v1.Schema$CourseWork {
+    const courseWork = this.requireList(this.courseWork, courseId).find(cw => cw.id === courseWorkId);
+    if (!courseWork) throw notFound(`courseWork ${courseWorkId}`);
+    return courseWork;
+  }
+
+  private requireSubmission(courseWorkId: string, submissionId: string): classroom_v1.Schema$StudentSubmission {
+    const submission = this.requireList(this.submissions, courseWorkId).find(s => s.id === submissionId);
+    if (!submission) throw notFound(`studentSubmission ${submissionId}`);
+    return submission;
+  }
+
+  private requireFile(fileId: string): FakeDriveFile {
+    const file = this.driveFiles.get(fileId);
+    if (!file) throw notFound(`file ${fileId}`);
+    return file;
+  }
+
+  // --- googleapis surface ---
+
+  readonly classroom = {
+    courses: {
+      list: async (params: { courseStates?: string[]; } = {}) => ({
+        data: { courses: this.courses.filter(course => !params.courseStates || params.courseStates.includes(course.courseState!)) }
+      }),
+      get: async ({ id }: { id: string; }) => ({ data: this.requireCourse(id) }),
+      announcements: {
+        list: async ({ courseId, pageSize }: { courseId: string; pageSize?: number; }) => ({
+          data: {
+            announcements: [...this.requireList(this.announcements, courseId)]
+              .sort((a, b) => b.updateTime!.localeCompare(a.updateTime!))
+              .slice(0, pageSize)
+          }
+        }),
+        create: async ({ courseId, requestBody }: { courseId: string; requestBody: classroom_v1.Schema$Announcement; }) => {
+          const announcement: classroom_v1.Schema$Announcement = {
+            ...requestBody,
+            id: this.newId("announcement"),
+            courseId,
+            creationTime: this.now(),
+            updateTime: this.now(),
+            alternateLink: `https://classroom.google.com/c/${courseId}/p/${this.nextId}`
+          };
+          this.requireList(this.announcements, courseId).push(announcement);
+          return { data: announcement };
+        }
+      },
+      courseWork: {
+        list: async ({ courseId, courseWorkStates }: { courseId: string; courseWorkStates?: string[]; }) => ({
+          data: {
+            courseWork: this.requireList(this.courseWork, courseId)
+              .filter(cw => !courseWorkStates || courseWorkStates.includes(cw.state!))
+          }
+        }),
+        get: async ({ courseId, id }: { courseId: string; id: string; }) => ({ data: this.requireCourseWork(courseId, id) }),
+        create: async ({ courseId, requestBody }: { courseId: string; requestBody: classroom_v1.Schema$CourseWork; }) => {
+          this.requireCourse(courseId);
+          // Classroom assigns the ID
+          return { data: this.addCourseWork(courseId, { ...requestBody, id: undefined, title: requestBody.title || "" }) };
+        },
+        modifyAssignees: async ({ courseId, id, requestBody }: {
+          courseId: string;
+          id: string;
+          requestBody: classroom_v1.Schema$ModifyCourseWorkAssigneesRequest;
+        }) => {
+          const courseWork = this.requireCourseWork(courseId, id);
+          courseWork.assigneeMode = requestBody.assigneeMode;
+          if (requestBody.assigneeMode === "INDIVIDUAL_STUDENTS") {
+            const current = new Set(courseWork.individualStudentsOptions?.studentIds || []);
+            requestBody.modifyIndividualStudentsOptions?.addStudentIds?.forEach(studentId => current.add(studentId));
+            requestBody.modifyIndividualStudentsOptions?.removeStudentIds?.forEach(studentId => current.delete(studentId));
+            courseWork.individualStudentsOptions = { studentIds: [...current] };
+            this.submissions.set(id, this.requireList(this.submissions, id).filter(s => current.has(s.userId!)));
+          } else {
+            courseWork.individualStudentsOptions = undefined;
+          }
+          return { data: courseWork };
+        },
+        studentSubmissions: {
+          list: async ({ courseWorkId, userId, states }: { courseId: string; courseWorkId: string; userId?: string; states?: string[]; }) => ({
+            data: {
+              studentSubmissions: this.requireList(this.submissions, courseWorkId)
+                .filter(s => (!userId || s.userId === userId) && (!states || states.includes(s.state!)))
+            }
+          }),
+          get: async ({ courseWorkId, id }: { courseId: string; courseWorkId: string; id: string; }) => ({
+            data: this.requireSubmission(courseWorkId, id)
+          }),
+          patch: async ({ courseWorkId, id, updateMask, requestBody }: {
+            courseId: string;
+            courseWorkId: string;
+            id: string;
+            updateMask?: string;
+            requestBody: classroom_v1.Schema$StudentSubmission;
+          }) => {
+            const submission = this.requireSubmission(courseWorkId, id);
+            applyUpdateMask(submission, requestBody, updateMask);
+            submission.updateTime = this.now();
+            return { data: submission };
+          },
+          return: async ({ courseWorkId, id }: { courseId: string; courseWorkId: string; id: string; }) => {
+            const submission = this.requireSubmission(courseWorkId, id);
+            submission.state = "RETURNED";
+            submission.updateTime = this.now();
+            return { data: {} };
+          }
+        }
+      },
+      students: {
+        list: async ({ courseId }: { courseId: string; }) => ({ data: { students: this.requireList(this.students, courseId) } })
+      },
+      teachers: {
+        list: async ({ courseId }: { courseId: string; }) => ({ data: { teachers: this.requireList(this.teachers, courseId) } })
+      }
+    },
+    invitations: {
+      create: async ({ requestBody }: { requestBody: classroom_v1.Schema$Invitation; }) => {
+        const invitation = { ...requestBody, id: this.newId("invitation") };
+        this.invitations.push(invitation);
+        return { data: invitation };
+      }
+    }
+  } as unknown as classroom_v1.Classroom;
+
+  readonly drive = {
+    files: {
+      get: async ({ fileId, alt }: { fileId: string; alt?: string; }, options: { responseType?: string; } = {}) => {
+        const file = this.requireFile(fileId);
+        if (alt === "media") {
+          return { data: asResponseType(file.content, options.responseType) };
+        }
+        return { data: { id: file.id, name: file.name, mimeType: file.mimeType, size: String(file.content.length) } };
+      },
+      export: async ({ fileId }: { fileId: string; mimeType: string; }, options: { responseType?: string; } = {}) => {
+        const file = this.requireFile(fileId);
+        return { data: asResponseType(file.content, options.responseType) };
+      },
+      create: async ({ requestBody, media }: { requestBody: drive_v3.Schema$File; media?: { mimeType?: string; body: unknown; }; }) => {
+        const file: FakeDriveFile = {
+          id: this.newId("file"),
+          name: requestBody.name || "Untitled",
+          mimeType: requestBody.mimeType || media?.mimeType || "application/octet-stream",
+          content: media ? await readBody(media.body) : Buffer.alloc(0),
+          parents: requestBody.parents || undefined,
+          shared: false
+        };
+        this.driveFiles.set(file.id, file);
+        return {
+          data: {
+            id: file.id,
+            name: file.name,
+            webViewLink: `https://drive.google.com/file/d/${file.id}/view`,
+            webContentLink: `https://drive.google.com/uc?id=${file.id}&export=download`
+          }
+        };
+      }
+    },
+    permissions: {
+      create: async ({ fileId }: { fileId: string; }) => {
+        this.requireFile(fileId).shared = true;
+        return { data: { id: this.newId("permission") } };
+      }
+    }
+  } as unknown as drive_v3.Drive;
+}
@@ -0,0 +1,230 @@
+import fs from "fs/promises";
+import type { z, ZodSchema } from "zod";
+import type { FileUploadResult, MistralClientApi, MistralCompletionOptions, OCRResult } from "../llm/mistral.js";
+import type { LangChainMistralClientApi } from "../llm/langchain-mistral.js";
+import { LocalHashEmbedder } from "../memory/embedders.js";
+
+export interface LlmCall {
+  method: string;
+  prompt: string;
+  systemPrompt?: string;
+  model?: string;
+}
+
+// A substring or pattern of the prompt or system prompt, or a predicate on the call
+export type LlmCallMatcher = string | RegExp | ((call: LlmCall) => boolean);
+export type LlmReply = unknown | ((call: LlmCall) => unknown);
+
+interface ScriptedReply {
+  matcher: LlmCallMatcher;
+  reply: LlmReply;
+  remaining: number; // Infinity for replies that never run out
+}
+
+const FAKE_PDF_HEADER = "%PDF-1.4\n";
+
+/**
+ * Builds a stand-in PDF: the PDF header followed by plain text. The fake OCR
+ * "reads" it by returning the text, so tests control what OCR extracts.
+ */
+export function fakePdf(text: string): Buffer {
+  return Buffer.from(FAKE_PDF_HEADER + text, "utf-8");
+}
+
+export function readFakePdf(content: Buffer): string {
+  const text = content.toString("utf-8");
+  return text.startsWith(FAKE_PDF_HEADER) ? text.slice(FAKE_PDF_HEADER.length) : text;
+}
+
+function matches(matcher: LlmCallMatcher, call: LlmCall): boolean {
+  if (typeof matcher === "function") return matcher(call);
+  const texts = [call.prompt, call.systemPrompt || ""];
+  return typeof matcher === "string"
+    ? texts.some(text => text.includes(matcher))
+    : texts.some(text => matcher.test(text));
+}
+
+/**
+ * Scripted replies shared by the fake LLM clients. The first matching reply
+ * wins; a call nothing matches fails with the start of its prompt, so a test
+ * shows which response it is missing.
+ */
+class LlmScript {
+  readonly calls: LlmCall[] = [];
+  private replies: ScriptedReply[] = [];
+
+  add(matcher: LlmCallMatcher, reply: LlmReply, times = Infinity): void {
+    this.replies.push({ matcher, reply, remaining: times });
+  }
+
+  clear(): void {
+    this.calls.length = 0;
+    this.replies = [];
+  }
+
+  async next(call: LlmCall): Promise<unknown> {
+    this.calls.push(call);
+
+    const scripted = this.replies.find(entry => entry.remaining > 0 && matches(entry.matcher, call));
+    if (!scripted) {
+      throw new Error(`No scripted ${call.method} reply for prompt: ${call.prompt.slice(0, 200)}`);
+    }
+
+    scripted.remaining--;
+    return typeof scripted.reply === "function" ? await scripted.reply(call) : scripted.reply;
+  }
+}
+
+/**
+ * Offline stand-in for MistralClient. Completions come from scripted replies,
+ * OCR returns the text of fakePdf() documents (or text scripted per URL), and
+ * embeddings use the local hashing embedder.
+ */
+export class FakeMistralClient implements MistralClientApi {
+  private script = new LlmScript();
+  private ocrTexts: Array<{ url: string | RegExp; text: string; }> = [];
+  private uploads = new Map<string, FileUploadResult>();
+  private embedder = new LocalHashEmbedder();
+
+  get calls(): LlmCall[] {
+    return this.script.calls;
+  }
+
+  /**
+   * Replies to complete, completeWithJSON and streamComplete calls whose prompt matches.
+   * Pass `times` for a reply that is used up after that many calls.
+   */
+  reply(matcher: LlmCallMatcher, reply: LlmReply, times?: number): this {
+    this.script.add(matcher, reply, times);
+    return this;
+  }
+
+  /**
+   * Text that processOCR returns for a document URL. data: URLs are read without this.
+   */
+  ocrText(url: string | RegExp, text: string): this {
+    this.ocrTexts.push({ url, text });
+    return this;
+  }
+
+  reset(): void {
+    this.script.clear();
+    this.ocrTexts = [];
+    this.uploads.clear();
+  }
+
+  async complete(prompt: string, options: MistralCompletionOptions = {}): Promise<string> {
+    const reply = await this.script.next({ method: "complete", prompt, systemPrompt: options.systemPrompt, model: options.model });
+    return typeof reply === "string" ? reply : JSON.stringify(reply);
+  }
+
+  async completeWithJSON<T>(prompt: string, schema: z.ZodSchema<T>, options: MistralCompletionOptions = {}): Promise<T> {
+    const reply = await this.script.next({ method: "completeWithJSON", prompt, systemPrompt: options.systemPrompt, model: options.model });
+    return schema.parse(typeof reply === "string" ? JSON.parse(reply) : reply);
+  }
+
+  async streamComplete(prompt: string, options: MistralCompletionOptions = {}, onChunk: (chunk: string) => void): Promise<void> {
+    const reply = await this.script.next({ method: "streamComplete", prompt, systemPrompt: options.systemPrompt, model: options.model });
+    onChunk(typeof reply === "string" ? reply : JSON.stringify(reply));
+  }
+
+  async processOCR(documentUrl: string): Promise<OCRResult> {
+    this.script.calls.push({ method: "processOCR", prompt: documentUrl });
+
+    const dataUrl = documentUrl.match(/^data:[^;,]*;base64,(.*)$/);
+    if (dataUrl) {
+      return { content: readFakePdf(Buffer.from(dataUrl[1], "base64")) };
+    }
+
+    const scripted = this.ocrTexts.find(entry =>
+      typeof entry.url === "string" ? entry.url === documentUrl : entry.url.test(documentUrl)
+    );
+    if (!scripted) {
+      throw new Error(`No OCR text scripted for ${documentUrl}`);
+    }
+    return { content: scripted.text };
+  }
+
+  async processOCRFromBase64(base64Pdf: string): Promise<OCRResult> {
+    this.script.calls.push({ method: "processOCRFromBase64", prompt: base64Pdf.slice(0, 100) });
+    return { content: readFakePdf(Buffer.from(base64Pdf, "base64")) };
+  }
+
+  async processOCRFromFile(filePath: string): Promise<OCRResult> {
+    this.script.calls.push({ method: "processOCRFromFile", prompt: filePath });
+    return { content: readFakePdf(await fs.readFile(filePath)) };
+  }
+
+  async embed(inputs: string[]): Promise<number[][]> {
+    return this.embedder.embed(inputs);
+  }
+
+  async uploadPDF(filePath: string, fileName?: string): Promise<FileUploadResult> {
+    const content = await fs.readFile(filePath);
+    const upload: FileUploadResult = {
+      id: `fake-file-${this.uploads.size + 1}`,
+      object: "file",
+      bytes: content.length,
+      createdAt: Math.floor(Date.now() / 1000),
+      filename: fileName || filePath.split("/").pop() || "document.pdf",
+      purpose: "ocr"
+    };
+    this.uploads.set(upload.id, upload);
+    return upload;
+  }
+
+  async retrieveFile(fileId: string): Promise<FileUploadResult> {
+    const upload = this.uploads.get(fileId);
+    if (!upload) throw new Error(`File ${fileId} not found`);
+    return upload;
+  }
+
+  async getSignedUrl(fileId: string): Promise<string> {
+    await this.retrieveFile(fileId);
+    return `https://files.mistral.test/${fileId}`;
+  }
+}
+
+type GenerationOptions = Parameters<LangChainMistralClientApi["generateText"]>[1];
+
+/**
+ * Offline stand-in for LangChainMistralClient. Structured replies are
+ * validated against the requested schema, so a fixture that drifts from the
+ * schema fails the test instead of reaching the code under test.
+ */
+export class FakeLangChainMistralClient implements LangChainMistralClientApi {
+  private script = new LlmScript();
+
+  get calls(): LlmCall[] {
+    return this.script.calls;
+  }
+
+  /**
+   * Replies to calls whose prompt or system prompt matches. A function reply
+   * receives the call, e.g. to echo question numbers from the prompt.
+   * Pass `times` for a reply that is used up after that many calls.
+   */
+  reply(matcher: LlmCallMatcher, reply: LlmReply, times?: number): this {
+    this.script.add(matcher, reply, times);
+    return this;
+  }
+
+  reset(): void {
+    this.script.clear();
+  }
+
+  async generateWithStructuredOutput<T extends ZodSchema>(prompt: string, schema: T, options?: GenerationOptions): Promise<z.infer<T>> {
+    const reply = await this.script.next({
+      method: "generateWithStructuredOutput",
+      prompt,
+      systemPrompt: options?.systemPrompt,
+      model: options?.model
+    });
+    return schema.parse(reply);
+  }
+
+  async generateText(prompt: string, options?: GenerationOptions): Promise<string> {
+    const reply = await this.script.next({ method: "generateText", prompt, systemPrompt: options?.systemPrompt, model: options?.model });
+    return String(reply);
+  }
+}
@@ -0,0 +1,53 @@
+import { randomUUID } from "crypto";
+import type { PDFExportOptions, PDFExportResult, PDFExportServiceApi } from "../worksheets/pdf.js";
+import { fakePdf } from "./fakeMistral.js";
+
+export interface FakeExportedPdf {
+  title: string;
+  html: string;
+  fileName: string;
+  options: PDFExportOptions;
+}
+
+/**
+ * Offline stand-in for PDFExportService. "PDFs" are fakePdf() documents with
+ * the title and file name, and S3 uploads return data: URLs, so the tools
+ * can download them again without a network.
+ */
+export class FakePDFExportService implements PDFExportServiceApi {
+  readonly exported: FakeExportedPdf[] = [];
+  readonly uploads: Array<{ fileName: string; url: string; metadata?: Record<string, string>; }> = [];
+
+  async exportToPDF(html: string, title: string, options: PDFExportOptions = {}): Promise<PDFExportResult> {
+    const fileName = `worksheet_${randomUUID()}.pdf`;
+    this.exported.push({ title, html, fileName, options });
+    return { pdfBuffer: fakePdf(`${title}\n${fileName}`), fileName };
+  }
+
+  async uploadToS3(pdfBuffer: Buffer, fileName: string, metadata?: Record<string, string>): Promise<string> {
+    const url = `data:application/pdf;base64,${pdfBuffer.toString("base64")}`;
+    this.uploads.push({ fileName, url, metadata });
+    return url;
+  }
+
+  async saveWorksheetAsPDF(
+    worksheetHTML: string,
+    title: string,
+    options: PDFExportOptions = {},
+    uploadToS3 = false,
+    metadata?: Record<string, string>
+  ): Promise<PDFExportResult> {
+    const result = await this.exportToPDF(worksheetHTML, title, options);
+    return uploadToS3
+      ? { ...result, s3Url: await this.uploadToS3(result.pdfBuffer, result.fileName, metadata) }
+      : result;
+  }
+
+  async exportAnswerKeyToPDF(answerKeyHTML: string, originalTitle: string): Promise<PDFExportResult> {
+    return this.exportToPDF(answerKeyHTML, `Answer Key - ${originalTitle}`);
+  }
+
+  async generateCombinedPDF(worksheetHTML: string, answerKeyHTML: string, title: string): Promise<PDFExportResult> {
+    return this.exportToPDF(`${worksheetHTML}\n${answerKeyHTML}`, title);
+  }
+}
@@ -0,0 +1,71 @@
+import type { classroom_v1 } from "googleapis";
+import { buildAnswerKey, type AnswerKey, type WorksheetDocument } from "../worksheets/model.js";
+import type { FakeGoogleWorkspace } from "./fakeGoogle.js";
+
+export interface SeededClassroom {
+  course: classroom_v1.Schema$Course;
+  teacher: classroom_v1.Schema$Teacher;
+  students: classroom_v1.Schema$Student[];
+  courseWork: classroom_v1.Schema$CourseWork;
+}
+
+/**
+ * Seeds a course with a teacher, three students and one published assignment
+ * due in two days. Ids are fixed so tests can refer to them directly.
+ */
+export function seedClassroom(google: FakeGoogleWorkspace): SeededClassroom {
+  const course = google.addCourse({ id: "course-1", name: "Year 4 Maths", section: "4B" });
+  const teacher = google.addTeacher(course.id!, { userId: "teacher-1", fullName: "Sam Rivera", emailAddress: "sam.rivera@school.test" });
+  const students = [
+    google.addStudent(course.id!, { userId: "student-1", fullName: "Ada Lovelace", emailAddress: "ada@school.test" }),
+    google.addStudent(course.id!, { userId: "student-2", fullName: "Alan Turing", emailAddress: "alan@school.test" }),
+    google.addStudent(course.id!, { userId: "student-3", fullName: "Grace Hopper", emailAddress: "grace@school.test" })
+  ];
+
+  const due = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000);
+  const courseWork = google.addCourseWork(course.id!, {
+    id: "coursework-1",
+    title: "Fractions practice",
+    maxPoints: 10,
+    dueDate: { year: due.getUTCFullYear(), month: due.getUTCMonth() + 1, day: due.getUTCDate() },
+    dueTime: { hours: 23, minutes: 59 }
+  });
+
+  return { course, teacher, students, courseWork };
+}
+
+/**
+ * A two-question worksheet with its answer key: one multiple-choice question
+ * the auto-scorer grades and one short answer the grading model scores.
+ */
+export function sampleWorksheet(): { document: WorksheetDocument; answerKey: AnswerKey; } {
+  const document: WorksheetDocument = {
+    title: "Fractions practice",
+    subject: "Math",
+    grade: "4th Grade",
+    summary: "Students compare and explain simple fractions.",
+    sections: [
+      {
+        title: "Section 1: Comparing fractions",
+        instructions: "Circle the correct answer.",
+        questions: [
+          { number: 1, type: "multiple-choice", prompt: "Which fraction is larger?", options: ["1/4", "1/2", "1/8"], points: 4 }
+        ]
+      },
+      {
+        title: "Section 2: Explaining",
+        instructions: "Answer in a full sentence.",
+        questions: [
+          { number: 2, type: "short-answer", prompt: "Why is 1/2 larger than 1/4?", answerLines: 2, points: 6 }
+        ]
+      }
+    ]
+  };
+
+  const answerKey = buildAnswerKey(document, [
+    { questionNumber: 1, answer: "B", acceptedAnswers: [] },
+    { questionNumber: 2, answer: "Halves are bigger pieces than quarters of the same whole.", acceptedAnswers: [] }
+  ]);
+
+  return { document, answerKey };
+}
@@ -0,0 +1,54 @@
+import { createServices, type ServiceOverrides, type Services } from "../services.js";
+import { FakeGoogleWorkspace } from "./fakeGoogle.js";
+import { FakeMistralClient, FakeLangChainMistralClient } from "./fakeMistral.js";
+import { FakeBriaClient } from "./fakeBria.js";
+import { FakePDFExportService } from "./fakePdfExport.js";
+
+export { FakeGoogleWorkspace } from "./fakeGoogle.js";
+export type { FakeDriveFile, FakeStudentSeed, FakeSubmissionSeed } from "./fakeGoogle.js";
+export { FakeMistralClient, FakeLangChainMistralClient, fakePdf, readFakePdf } from "./fakeMistral.js";
+export type { LlmCall, LlmCallMatcher, LlmReply } from "./fakeMistral.js";
+export { FakeBriaClient } from "./fakeBria.js";
+export { FakePDFExportService } from "./fakePdfExport.js";
+export { TestMcpClient } from "./mcpClient.js";
+export type { ToolCallResult } from "./mcpClient.js";
+export { seedClassroom, sampleWorksheet } from "./fixtures.js";
+export type { SeededClassroom } from "./fixtures.js";
+
+export interface FakeBackends {
+  google: FakeGoogleWorkspace;
+  mistral: FakeMistralClient;
+  langchain: FakeLangChainMistralClient;
+  bria: FakeBriaClient;
+  pdf: FakePDFExportService;
+}
+
+export interface FakeServices {
+  fakes: FakeBackends;
+  services: Services;
+}
+
+/**
+ * Builds services on fresh in-memory fakes of Google Classroom and Drive,
+ * Mistral, Bria and the PDF export service, and returns the fakes for seeding
+ * and assertions. Storage is the configured backend unless overridden.
+ */
+export function createFakeServices(overrides: ServiceOverrides = {}): FakeServices {
+  const fakes: FakeBackends = {
+    google: new FakeGoogleWorkspace(),
+    mistral: new FakeMistralClient(),
+    langchain: new FakeLangChainMistralClient(),
+    bria: new FakeBriaClient(),
+    pdf: new FakePDFExportService()
+  };
+
+  const services = createServices({
+    googleApis: { classroom: fakes.google.classroom, drive: fakes.google.drive },
+    mistral: fakes.mistral,
+    langchain: fakes.langchain,
+    bria: fakes.bria,
+    pdfExport: fakes.pdf,
+    ...overrides
+  });
+  return { fakes, services };
+}
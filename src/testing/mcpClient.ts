@@ -0,0 +1,59 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { getServer } from "../server.js";
+import type { Services } from "../services.js";
+
+export interface ToolCallResult {
+  text: string; // All text content, joined
+  isError: boolean;
+}
+
+/**
+ * MCP client connected to a fresh server on the given services over an
+ * in-memory transport, so tests call tools exactly like an MCP client would.
+ */
+export class TestMcpClient {
+  private constructor(private client: Client) {}
+
+  static async connect(services: Services): Promise<TestMcpClient> {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await getServer(services).connect(serverTransport);
+
+    const client = new Client({ name: "eduadapt-tests", version: "0.1.0" });
+    await client.connect(clientTransport);
+    return new TestMcpClient(client);
+  }
+
+  /**
+   * Connects over HTTP to a running app, e.g. one from createApp(), sending
+   * the given headers (such as a teacher's access key) with every request.
+   */
+  static async connectHttp(url: URL, headers: Record<string, string> = {}): Promise<TestMcpClient> {
+    const client = new Client({ name: "eduadapt-tests", version: "0.1.0" });
+    await client.connect(new StreamableHTTPClientTransport(url, { requestInit: { headers } }));
+    return new TestMcpClient(client);
+  }
+
+  get sessionId(): string | undefined {
+    return this.client.transport?.sessionId;
+  }
+
+  async listTools(): Promise<string[]> {
+    const { tools } = await this.client.listTools();
+    return tools.map(tool => tool.name);
+  }
+
+  async callTool(name: string, args: Record<string, unknown> = {}): Promise<ToolCallResult> {
+    const result = await this.client.callTool({ name, arguments: args }) as CallToolResult;
+    return {
+      text: result.content.map(item => item.type === "text" ? item.text : "").join("\n"),
+      isError: result.isError === true
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.client.close();
+  }
+}
@@ -2,13 +2,17 @@ export * from "./types.js";
 export * from "./service.js";
 export * from "./pdf.js";
 export * from "./optimized-service.js";
+export * from "./model.js";
+export * from "./renderer.js";
+export * from "./language.js";
+export * from "./source.js";
 
-import { worksheetService } from "./service.js";
-import { optimizedWorksheetService } from "./optimized-service.js";
-import { pdfExportService } from "./pdf.js";
+import type { WorksheetService } from "./service.js";
+import type { PDFExportServiceApi } from "./pdf.js";
 import type { WorksheetGenerationRequest, WorksheetSettings } from "./types.js";
 
 export async function generateWorksheetWithPDF(
+  { worksheetService, pdfExportService }: { worksheetService: WorksheetService; pdfExportService: PDFExportServiceApi; },
   prompt: string,
   settings?: Partial<WorksheetSettings>,
   uploadToS3 = false
@@ -59,6 +63,4 @@ export async function generateWorksheetWithPDF(
     answerKeyPdfBuffer: answerKeyPdf?.pdfBuffer,
     answerKeyPdfUrl: answerKeyPdf?.s3Url
   };
-}
-
-export { worksheetService, optimizedWorksheetService, pdfExportService };
\ No newline at end of file
+}
\ No newline at end of file
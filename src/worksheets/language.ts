@@ -0,0 +1,97 @@
+export type TextDirection = "ltr" | "rtl";
+
+export interface LanguageInfo {
+  code: string; // BCP 47 tag for the lang attribute
+  direction: TextDirection;
+}
+
+// Languages written right to left, by primary language subtag
+const RTL_LANGUAGES = new Set(["ar", "he", "fa", "ur", "ps", "yi", "sd", "ug", "dv", "ckb"]);
+
+const LANGUAGE_CODES: Record<string, string> = {
+  "english": "en",
+  "spanish": "es",
+  "french": "fr",
+  "german": "de",
+  "italian": "it",
+  "portuguese": "pt",
+  "dutch": "nl",
+  "polish": "pl",
+  "romanian": "ro",
+  "russian": "ru",
+  "ukrainian": "uk",
+  "greek": "el",
+  "turkish": "tr",
+  "arabic": "ar",
+  "hebrew": "he",
+  "persian": "fa",
+  "farsi": "fa",
+  "dari": "fa-AF",
+  "urdu": "ur",
+  "pashto": "ps",
+  "yiddish": "yi",
+  "kurdish": "ku",
+  "sorani": "ckb",
+  "hindi": "hi",
+  "bengali": "bn",
+  "punjabi": "pa",
+  "gujarati": "gu",
+  "tamil": "ta",
+  "telugu": "te",
+  "nepali": "ne",
+  "chinese": "zh",
+  "mandarin": "zh",
+  "cantonese": "yue",
+  "japanese": "ja",
+  "korean": "ko",
+  "vietnamese": "vi",
+  "thai": "th",
+  "tagalog": "tl",
+  "filipino": "fil",
+  "indonesian": "id",
+  "malay": "ms",
+  "swahili": "sw",
+  "somali": "so",
+  "amharic": "am",
+  "tigrinya": "ti",
+  "haitian creole": "ht",
+  "hmong": "hmn",
+  "navajo": "nv"
+};
+
+const REGION_CODES: Record<string, string> = {
+  "us": "US",
+  "uk": "GB",
+  "united kingdom": "GB",
+  "canada": "CA",
+  "mexico": "MX",
+  "spain": "ES",
+  "france": "FR",
+  "brazil": "BR",
+  "portugal": "PT",
+  "australia": "AU",
+  "simplified": "Hans",
+  "traditional": "Hant"
+};
+
+/**
+ * Resolves a language setting such as "Spanish", "French (Canada)", "Arabic"
+ * or a BCP 47 tag such as "es-MX" to the lang and dir attributes of the
+ * rendered worksheet. Unknown names fall back to the undetermined tag "und".
+ */
+export function resolveLanguage(language: string): LanguageInfo {
+  const trimmed = language.trim();
+  let code: string;
+
+  if (/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/i.test(trimmed) && !LANGUAGE_CODES[trimmed.toLowerCase()]) {
+    code = trimmed;
+  } else {
+    const match = trimmed.toLowerCase().match(/^([^(]+?)\s*(?:\(([^)]+)\))?$/);
+    const base = LANGUAGE_CODES[match?.[1]?.trim() || ""];
+    const region = match?.[2] ? REGION_CODES[match[2].trim().toLowerCase()] : undefined;
+    code = base ? (region ? `${base}-${region}` : base) : "und";
+  }
+
+  const primary = code.split("-")[0].toLowerCase();
+  return { code, direction: RTL_LANGUAGES.has(primary) ? "rtl" : "ltr" };
+}
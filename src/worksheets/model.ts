@@ -0,0 +1,316 @@
+import { z } from "zod";
+import { ActivityTypeSchema } from "./types.js";
+import type { ActivityType } from "./types.js";
+
+/**
+ * Marker used inside question prompts to indicate a blank the student fills in.
+ */
+export const BLANK_MARKER = "___";
+
+const buildQuestionSchema = (typeSchema: z.ZodType<ActivityType>) => z.object({
+  number: z.number().int().positive().describe("Question number, counting up across the whole worksheet starting at 1"),
+  type: typeSchema.describe("The activity type of this question"),
+  prompt: z.string().describe(`The question text. For fill-blanks, mark every blank with ${BLANK_MARKER}. For vocabulary, this is the word or term to define`),
+  options: z.array(z.string()).optional().describe("multiple-choice: the answer options (without letters). matching: the right-hand column (without letters)"),
+  items: z.array(z.string()).optional().describe("matching: the left-hand column items. sequencing: the items to put in order, listed in SCRAMBLED order"),
+  table: z.object({
+    headers: z.array(z.string()).describe("Column headers"),
+    rows: z.array(z.array(z.string())).describe("Table rows. Use an empty string for cells the student must fill in")
+  }).optional().describe("tables: the table to complete or analyze"),
+  answerLines: z.number().int().min(1).max(5).optional().describe("short-answer: number of answer lines (2, 3 or 5)"),
+  lineRef: z.string().optional().describe("Reading worksheets: the passage lines the question refers to, e.g. '12' or '12-15'"),
+  points: z.number().int().positive().describe("Points this question is worth")
+});
+
+const buildSectionSchema = (typeSchema: z.ZodType<ActivityType>) => z.object({
+  title: z.string().describe("Section heading, e.g. 'Section 1: Basic Multiplication'"),
+  instructions: z.string().describe("Short instructions for the section"),
+  translatedInstructions: z.string().optional().describe("Bilingual worksheets only: the section instructions translated into the student's home language"),
+  questions: z.array(buildQuestionSchema(typeSchema)).min(1).describe("Questions in this section")
+});
+
+/**
+ * Builds the worksheet document schema. When activity types are given, the
+ * question type is restricted to exactly those types so the model cannot drift.
+ */
+export function buildWorksheetDocumentSchema(activityTypes?: ActivityType[]) {
+  const typeSchema = activityTypes && activityTypes.length > 0
+    ? z.enum(activityTypes as [ActivityType, ...ActivityType[]])
+    : ActivityTypeSchema;
+
+  return z.object({
+    title: z.string().describe("The title of the worksheet"),
+    subject: z.string().describe("The subject area (e.g., Math, Science, English)"),
+    grade: z.string().describe("The grade level (e.g., 3rd Grade, High School)"),
+    summary: z.string().describe("A 2-3 sentence summary of the worksheet content and learning objectives"),
+    labels: z.object({
+      showYourWork: z.string().describe("Translation of 'Show your work:'"),
+      true: z.string().describe("One-letter or short word for 'True'"),
+      false: z.string().describe("One-letter or short word for 'False'")
+    }).optional().describe("Worksheets not in English only: the printed labels in the worksheet language"),
+    sections: z.array(buildSectionSchema(typeSchema)).min(1).describe("The worksheet sections")
+  });
+}
+
+export const WorksheetDocumentSchema = buildWorksheetDocumentSchema();
+
+/**
+ * Source text of a reading worksheet. It is never generated by the model;
+ * the lines are numbered continuously across paragraphs so questions and
+ * answer keys can cite line ranges.
+ */
+export interface ReadingPassage {
+  title?: string;
+  source?: string; // URL the text was loaded from
+  paragraphs: string[][]; // Printed lines per paragraph
+}
+
+export type WorksheetDocument = z.infer<typeof WorksheetDocumentSchema> & {
+  passage?: ReadingPassage;
+};
+export type WorksheetSection = WorksheetDocument["sections"][number];
+export type WorksheetQuestion = WorksheetSection["questions"][number];
+
+/**
+ * Field requirements for each activity type, shown to the model so it fills in
+ * the fields the renderer needs.
+ */
+export const ACTIVITY_TYPE_FIELD_GUIDE: Record<ActivityType, string> = {
+  "fill-blanks": `prompt with one or more ${BLANK_MARKER} blanks, e.g. "The capital of France is ${BLANK_MARKER}."`,
+  "short-answer": "prompt with the question; answerLines 2-3 (5 for longer responses)",
+  "multiple-choice": "prompt with the question; options with 3-4 choices (no letters)",
+  "true-false": "prompt with a statement that is either true or false",
+  "matching": "prompt with the instruction; items with 3-6 left-column entries; options with the matching right-column entries in shuffled order",
+  "vocabulary": "prompt with the single word or term the student must define",
+  "calculations": "prompt with the math problem, e.g. \"234 × 56 = ?\"",
+  "sequencing": "prompt with the instruction; items with 3-6 steps listed in scrambled order",
+  "essay": "prompt with an extended-response question",
+  "tables": "prompt with the instruction; table with headers and rows, using empty strings for cells to fill in",
+  "word-problems": "prompt with a real-world problem description"
+};
+
+/**
+ * Renumbers questions sequentially and downgrades questions that are missing
+ * the fields their activity type needs, so the renderer never emits broken markup.
+ */
+export function normalizeWorksheetDocument(document: WorksheetDocument): WorksheetDocument {
+  let questionNumber = 0;
+
+  return {
+    ...document,
+    sections: document.sections.map(section => ({
+      ...section,
+      questions: section.questions.map(question => {
+        questionNumber++;
+        const normalized: WorksheetQuestion = { ...question, number: questionNumber };
+
+        const hasOptions = (normalized.options?.length || 0) >= 2;
+        const hasItems = (normalized.items?.length || 0) >= 2;
+
+        if (
+          (normalized.type === "multiple-choice" && !hasOptions) ||
+          (normalized.type === "matching" && (!hasItems || !hasOptions)) ||
+          (normalized.type === "sequencing" && !hasItems) ||
+          (normalized.type === "tables" && !normalized.table?.headers.length)
+        ) {
+          console.warn(`Question ${questionNumber} is missing fields for type "${normalized.type}", rendering as short answer`);
+          normalized.type = "short-answer";
+        }
+
+        if (normalized.type === "fill-blanks" && !normalized.prompt.includes(BLANK_MARKER)) {
+          normalized.prompt = `${normalized.prompt} ${BLANK_MARKER}`;
+        }
+
+        return normalized;
+      })
+    }))
+  };
+}
+
+/**
+ * Sum of points per section, in the shape stored with worksheet records.
+ */
+export function getSectionPoints(document: WorksheetDocument): Array<{ section: string; points: number; }> {
+  return document.sections.map(section => ({
+    section: section.title,
+    points: section.questions.reduce((sum, question) => sum + question.points, 0)
+  }));
+}
+
+export function getTotalPoints(document: WorksheetDocument): number {
+  return getSectionPoints(document).reduce((sum, section) => sum + section.points, 0);
+}
+
+export function getAllQuestions(document: WorksheetDocument): WorksheetQuestion[] {
+  return document.sections.flatMap(section => section.questions);
+}
+
+/**
+ * The passage as numbered lines ("1| ..."), with a blank line between
+ * paragraphs, for prompts that need to cite line ranges.
+ */
+export function formatNumberedPassage(passage: ReadingPassage): string {
+  let lineNumber = 0;
+  return passage.paragraphs
+    .map(lines => lines.map(line => `${++lineNumber}| ${line}`).join("\n"))
+    .join("\n\n");
+}
+
+/**
+ * Lists the differences in layout between two worksheets: section count,
+ * questions per section and each question's activity type. Parallel forms
+ * must have none. Point values are not compared; see alignPoints.
+ */
+export function compareWorksheetStructure(base: WorksheetDocument, form: WorksheetDocument): string[] {
+  const problems: string[] = [];
+
+  if (base.sections.length !== form.sections.length) {
+    problems.push(`Expected ${base.sections.length} sections, got ${form.sections.length}`);
+    return problems;
+  }
+
+  base.sections.forEach((section, sectionIndex) => {
+    const formQuestions = form.sections[sectionIndex].questions;
+    if (section.questions.length !== formQuestions.length) {
+      problems.push(`Section ${sectionIndex + 1} should have ${section.questions.length} questions, got ${formQuestions.length}`);
+      return;
+    }
+    section.questions.forEach((question, questionIndex) => {
+      if (question.type !== formQuestions[questionIndex].type) {
+        problems.push(`Question ${question.number} should be "${question.type}", got "${formQuestions[questionIndex].type}"`);
+      }
+    });
+  });
+
+  return problems;
+}
+
+/**
+ * Copies point values from a worksheet onto another worksheet with the same
+ * structure, so both have the same point breakdown.
+ */
+export function alignPoints(base: WorksheetDocument, form: WorksheetDocument): WorksheetDocument {
+  return {
+    ...form,
+    sections: form.sections.map((section, sectionIndex) => ({
+      ...section,
+      questions: section.questions.map((question, questionIndex) => ({
+        ...question,
+        points: base.sections[sectionIndex]?.questions[questionIndex]?.points ?? question.points
+      }))
+    }))
+  };
+}
+
+/**
+ * How the answer for each activity type is written in the answer key. The
+ * grader relies on these formats when comparing student answers.
+ */
+export const ANSWER_FORMAT_GUIDE: Record<ActivityType, string> = {
+  "fill-blanks": "the word(s) for each blank in order, separated by \" | \" when there is more than one blank",
+  "short-answer": "a model answer",
+  "multiple-choice": "the letter of the correct option, e.g. \"B\"",
+  "true-false": "\"True\" or \"False\"",
+  "matching": "the letter matching each left-column item in order, e.g. \"C, A, B\"",
+  "vocabulary": "a concise definition",
+  "calculations": "the final numeric result, e.g. \"13104\"",
+  "sequencing": "the position of each listed item in the correct order, in the order the items are listed, e.g. \"3, 1, 2\"",
+  "essay": "the key points a strong answer covers",
+  "tables": "the values for the blank cells, left to right and top to bottom, separated by \" | \"",
+  "word-problems": "the final answer with units, e.g. \"12 apples\""
+};
+
+export const AnswerKeyEntrySchema = z.object({
+  questionNumber: z.number().int().positive().describe("The number of the question this answer belongs to"),
+  answer: z.string().describe("The correct answer, in the format required for the question's activity type"),
+  acceptedAnswers: z.array(z.string()).describe("Other answers that should also receive full credit (synonyms, equivalent forms, alternative spellings). Empty if none"),
+  explanation: z.string().optional().describe("A brief worked solution or justification (1 sentence)")
+});
+
+export const AnswerKeyResponseSchema = z.object({
+  answers: z.array(AnswerKeyEntrySchema).describe("One answer for every question on the worksheet")
+});
+
+export type AnswerKeyEntry = z.infer<typeof AnswerKeyEntrySchema>;
+
+export interface AnswerKeyItem extends AnswerKeyEntry {
+  sectionIndex: number; // Position of the section in the worksheet; titles may repeat
+  sectionTitle: string;
+  type: ActivityType;
+  points: number;
+}
+
+export interface AnswerKey {
+  items: AnswerKeyItem[];
+  totalPoints: number;
+  gradingBreakdown: Array<{ section: string; points: number; }>;
+}
+
+/**
+ * Combines the model's answers with the point values from the worksheet itself,
+ * so the key can never disagree with the worksheet about what is worth what.
+ */
+export function buildAnswerKey(document: WorksheetDocument, entries: AnswerKeyEntry[]): AnswerKey {
+  const entriesByNumber = new Map(entries.map(entry => [entry.questionNumber, entry]));
+
+  const items: AnswerKeyItem[] = document.sections.flatMap((section, sectionIndex) =>
+    section.questions
+      .filter(question => entriesByNumber.has(question.number))
+      .map(question => {
+        const entry = entriesByNumber.get(question.number)!;
+        return {
+          questionNumber: question.number,
+          answer: entry.answer.trim(),
+          acceptedAnswers: entry.acceptedAnswers.map(answer => answer.trim()).filter(Boolean),
+          explanation: entry.explanation,
+          sectionIndex,
+          sectionTitle: section.title,
+          type: question.type,
+          points: question.points
+        };
+      })
+  );
+
+  return {
+    items,
+    totalPoints: items.reduce((sum, item) => sum + item.points, 0),
+    gradingBreakdown: getSectionPoints(document)
+  };
+}
+
+/**
+ * Lists the problems that make an answer key unusable for grading: unanswered
+ * questions and malformed objective answers. Questions and point values come
+ * from the worksheet itself (see buildAnswerKey), so they need no check.
+ */
+export function validateAnswerKey(document: WorksheetDocument, answerKey: AnswerKey): string[] {
+  const problems: string[] = [];
+  const questions = getAllQuestions(document);
+  const itemsByNumber = new Map(answerKey.items.map(item => [item.questionNumber, item]));
+
+  for (const question of questions) {
+    const item = itemsByNumber.get(question.number);
+    if (!item) {
+      problems.push(`Question ${question.number} has no answer`);
+      continue;
+    }
+    if (!item.answer) {
+      problems.push(`Question ${item.questionNumber} has an empty answer`);
+    }
+    if (question.type === "multiple-choice") {
+      const letterIndex = item.answer.toUpperCase().charCodeAt(0) - 65;
+      if (!/^[A-Z]\)?$/i.test(item.answer) || letterIndex >= (question.options?.length || 0)) {
+        problems.push(`Question ${item.questionNumber} needs an option letter as its answer, got "${item.answer}"`);
+      }
+    }
+    if (question.type === "true-false" && !/^(true|false)$/i.test(item.answer)) {
+      problems.push(`Question ${item.questionNumber} needs "True" or "False" as its answer, got "${item.answer}"`);
+    }
+    if ((question.type === "matching" || question.type === "sequencing")
+      && item.answer.split(/[,\s]+/).filter(Boolean).length !== (question.items?.length || 0)) {
+      problems.push(`Question ${item.questionNumber} needs one answer per item (${question.items?.length || 0}), got "${item.answer}"`);
+    }
+  }
+
+  return problems;
+}
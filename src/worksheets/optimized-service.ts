@@ -1,157 +1,243 @@
-import { z } from "zod";
-import { getLangchainMistralClient } from "../llm/langchain-mistral.js";
-import { WORKSHEET_TEMPLATE, CSS_CLASS_REFERENCE } from "./template.js";
-import { pdfExportService } from "./pdf.js";
-import { WorksheetStorageManager } from "../classroom/storage/worksheetStorageManager.js";
-
-const WorksheetOutputSchema = z.object({
-  title: z.string().describe("The title of the worksheet"),
-  subject: z.string().describe("The subject area (e.g., Math, Science, English)"),
-  grade: z.string().describe("The grade level (e.g., 3rd Grade, High School)"),
-  html: z.string().describe("The HTML body content using only predefined CSS classes"),
-  summary: z.string().describe("A 2-3 sentence summary of the worksheet content and learning objectives")
-});
+import type { LangChainMistralClientApi } from "../llm/langchain-mistral.js";
+import {
+  ACTIVITY_TYPE_FIELD_GUIDE,
+  ANSWER_FORMAT_GUIDE,
+  AnswerKeyResponseSchema,
+  alignPoints,
+  BLANK_MARKER,
+  buildAnswerKey,
+  buildWorksheetDocumentSchema,
+  compareWorksheetStructure,
+  formatNumberedPassage,
+  getAllQuestions,
+  normalizeWorksheetDocument,
+  validateAnswerKey
+} from "./model.js";
+import type { AnswerKey, AnswerKeyEntry, ReadingPassage, WorksheetDocument, WorksheetQuestion } from "./model.js";
+import { renderAnswerKeyHtml, renderWorksheetHtml } from "./renderer.js";
+import {
+  ActivityTypeDescriptions,
+  AgeGroupMappings,
+  ComplexityLabels,
+  DifferentiationTierDescriptions,
+  WorksheetSettingsSchema,
+  resolveActivityTypes,
+  resolveSectionRange
+} from "./types.js";
+import type { ActivityType, DifferentiationTier, WorksheetSettings } from "./types.js";
+import type { PDFExportServiceApi } from "./pdf.js";
+import type { CourseMaterial } from "./source.js";
+import type { WorksheetStorageManager, WorksheetVariantInfo } from "../classroom/storage/worksheetStorageManager.js";
+import { formatProfileForPrompt } from "../classroom/storage/studentProfileManager.js";
+import type { StudentProfile } from "../classroom/storage/studentProfileManager.js";
+
+type GeneratedWorksheet = {
+  html: string;
+  title: string;
+  subject: string;
+  grade: string;
+  summary: string;
+  settings: WorksheetSettings;
+  document: WorksheetDocument;
+};
+
+type GenerationOptions = {
+  learnerProfiles?: StudentProfile[];
+  passage?: ReadingPassage; // Builds a reading comprehension worksheet around this text
+  materials?: CourseMaterial[]; // Lesson materials the questions must stay within
+};
+
+// Activity types for reading worksheets when the activity types are automatic
+const READING_ACTIVITY_TYPES: ActivityType[] = ["vocabulary", "multiple-choice", "short-answer", "true-false", "sequencing"];
+
+type ExportedWorksheet = GeneratedWorksheet & {
+  pdfUrl: string;
+  answerKeyPdfUrl?: string;
+  totalPoints?: number;
+  gradingBreakdown?: Array<{ section: string; points: number; }>;
+  answerKey?: AnswerKey;
+};
 
 export class OptimizedWorksheetService {
-  private worksheetStorage = WorksheetStorageManager.getInstance();
-  private buildSystemPrompt(): string {
-    return `You are an expert educational worksheet creator. Generate ONLY the HTML body content for a worksheet using predefined CSS classes.
+  constructor(
+    private langchain: LangChainMistralClientApi,
+    private pdfExportService: PDFExportServiceApi,
+    private worksheetStorage: WorksheetStorageManager
+  ) {}
+
+  private resolveSettings(settings: Partial<WorksheetSettings> = {}): WorksheetSettings {
+    return WorksheetSettingsSchema.parse(settings);
+  }
+
+  private buildSpecifications(settings: WorksheetSettings): string {
+    const ageMapping = AgeGroupMappings[settings.ageGroup] || AgeGroupMappings["auto"];
+    const complexity = ComplexityLabels[settings.complexity] || "automatic";
+    const { min, max } = resolveSectionRange(settings.sectionCount);
+    const activityTypes = resolveActivityTypes(settings.activityTypes, settings.ageGroup);
+
+    return `WORKSHEET SPECIFICATIONS:
+- Target Age: ${settings.ageGroup === "auto" ? "infer from the request" : `${settings.ageGroup} (${ageMapping.gradeLevel})`}
+- Complexity: ${complexity === "automatic" ? "match the request and age group" : complexity}
+- Language: ${settings.language} (ALL worksheet text, including instructions, must be in this language)
+- Number of Sections: ${min === max ? `exactly ${min}` : `between ${min} and ${max}`}
+- Characteristics: ${ageMapping.characteristics}
+- Activity types: ${activityTypes.map(type => ActivityTypeDescriptions[type]).join("; ")}${this.buildLanguageSpecifications(settings)}`;
+  }
+
+  private buildLanguageSpecifications(settings: WorksheetSettings): string {
+    let text = "";
+    if (!/^en(glish)?\b/i.test(settings.language.trim())) {
+      text += `\n- Labels: fill in "labels" with the printed labels translated into ${settings.language}`;
+    }
+    if (settings.homeLanguage) {
+      text += `\n- Bilingual: for English learners, also write every section's instructions in ${settings.homeLanguage} in "translatedInstructions". Titles, questions and options stay in ${settings.language} only`;
+    }
+    return text;
+  }
+
+  private buildActivityTypeGuide(settings: WorksheetSettings): string {
+    const activityTypes = resolveActivityTypes(settings.activityTypes, settings.ageGroup);
+
+    return activityTypes
+      .map(type => `- "${type}": ${ACTIVITY_TYPE_FIELD_GUIDE[type]}`)
+      .join("\n");
+  }
+
+  private buildSystemPrompt(settings: WorksheetSettings, questionCount: string = "15-25"): string {
+    return `You are an expert educational worksheet creator. Describe the worksheet as a structured JSON document; it is rendered to a printable layout automatically.
 
 CRITICAL RULES:
-1. Output ONLY a JSON object with: title, subject, grade, html, summary
-2. The html field contains ONLY section content - NO titles, NO h1, NO worksheet name
-3. Start DIRECTLY with <div class="ws-section"> elements
-4. Use ONLY predefined CSS classes - NO inline styles
-5. The title/subject/grade go in JSON fields, NOT in the HTML
-
-AVAILABLE CSS CLASSES:
-
-STRUCTURE (DO NOT use ws-title or ws-subtitle - those are added automatically):
-- ws-section: Section wrapper
-- ws-section-title: Section heading
-- ws-instructions: Instructions text
-- q-item: Question container
-- q-num: Question number (e.g., <span class="q-num">1.</span>)
-- q-text: Question text
-
-ACTIVITY TYPES:
-
-Fill in the Blanks:
-<p class="q-text">The capital is <span class="fill-blank"></span></p>
-
-Short Answer (2 lines):
-<div class="q-item">
-  <span class="q-num">1.</span>
-  <span class="q-text">Question here?</span>
-  <div class="answer-lines-2">
-    <div class="answer-line"></div>
-    <div class="answer-line"></div>
-  </div>
-</div>
-
-Multiple Choice:
-<div class="q-item">
-  <span class="q-num">2.</span>
-  <span class="q-text">Question?</span>
-  <div class="mc-options">
-    <div class="mc-option"><span class="mc-circle"></span><span class="mc-letter">A)</span> Option 1</div>
-    <div class="mc-option"><span class="mc-circle"></span><span class="mc-letter">B)</span> Option 2</div>
-  </div>
-</div>
-
-True/False:
-<div class="q-item">
-  <span class="q-num">3.</span>
-  <span class="q-text">Statement here</span>
-  <span class="tf-options">
-    <span class="tf-circle"></span> T
-    <span class="tf-circle"></span> F
-  </span>
-</div>
-
-Math Problem:
-<div class="q-item">
-  <span class="q-num">4.</span>
-  <span class="q-text">234 × 56 = ?</span>
-  <div class="math-box">
-    <span class="show-work-label">Show your work:</span>
-  </div>
-</div>
-
-Table:
-<table class="ws-table">
-  <tr><th>Header 1</th><th>Header 2</th></tr>
-  <tr><td>Data</td><td class="blank"></td></tr>
-</table>
-
-Matching:
-<div class="match-container">
-  <div class="match-column">
-    <div class="match-item match-left">Item 1</div>
-  </div>
-  <div class="match-column">
-    <div class="match-item match-right" data-letter="A">Match A</div>
-  </div>
-</div>
-
-Essay:
-<div class="q-item">
-  <span class="q-num">5.</span>
-  <span class="q-text">Essay question?</span>
-  <div class="essay-box">
-    <div class="essay-lines"></div>
-  </div>
-</div>
-
-Word Problem:
-<div class="word-problem">
-  <span class="q-num">6.</span>
-  <div class="word-problem-text">Problem description...</div>
-  <div class="solution-space"></div>
-</div>
-
-CORRECT EXAMPLE OF EXPECTED JSON OUTPUT:
+1. Output ONLY the structured document: title, subject, grade, summary and sections
+2. Each section has a title, short instructions and a list of questions
+3. Each question has a number, an activity type, a prompt, a point value and the fields its type needs
+4. Do NOT write HTML, markdown or answer keys anywhere in the document
+5. Number questions sequentially across the whole worksheet, starting at 1
+
+${this.buildSpecifications(settings)}
+
+ACTIVITY TYPES (use ONLY these activity types - do not add any others):
+${this.buildActivityTypeGuide(settings)}
+
+POINT VALUES:
+- 1-2 points for quick objective items (fill-blanks, true-false, multiple-choice, vocabulary)
+- 1 point per pair/step for matching and sequencing
+- 2-5 points for short answers, calculations, tables and word problems
+- 5-10 points for essays
+
+CORRECT EXAMPLE OF EXPECTED OUTPUT:
 {
   "title": "3rd Grade Multiplication Practice",
   "subject": "Math",
   "grade": "3rd Grade",
-  "html": "<div class=\"ws-section\">\n  <h2 class=\"ws-section-title\">Section 1: Basic Multiplication</h2>\n  <p class=\"ws-instructions\">Solve these multiplication problems.</p>\n  <div class=\"q-item\">\n    <span class=\"q-num\">1.</span>\n    <span class=\"q-text\">2 × 3 = <span class=\"fill-blank\"></span></span>\n  </div>\n  <div class=\"q-item\">\n    <span class=\"q-num\">2.</span>\n    <span class=\"q-text\">4 × 5 = <span class=\"fill-blank\"></span></span>\n  </div>\n</div>\n<div class=\"ws-section\">\n  <h2 class=\"ws-section-title\">Section 2: Word Problems</h2>\n  <p class=\"ws-instructions\">Read and solve.</p>\n  <div class=\"word-problem\">\n    <span class=\"q-num\">3.</span>\n    <div class=\"word-problem-text\">If you have 3 bags with 4 apples each, how many apples total?</div>\n    <div class=\"solution-space\"></div>\n  </div>\n</div>",
-  "summary": "This worksheet helps 3rd graders practice basic multiplication facts and word problems. Students will solve 20 problems to build multiplication fluency."
+  "summary": "This worksheet helps 3rd graders practice basic multiplication facts and word problems. Students will solve 20 problems to build multiplication fluency.",
+  "sections": [
+    {
+      "title": "Section 1: Basic Multiplication",
+      "instructions": "Solve these multiplication problems.",
+      "questions": [
+        { "number": 1, "type": "fill-blanks", "prompt": "2 × 3 = ${BLANK_MARKER}", "points": 1 },
+        { "number": 2, "type": "multiple-choice", "prompt": "What is 4 × 5?", "options": ["9", "20", "25", "45"], "points": 1 }
+      ]
+    },
+    {
+      "title": "Section 2: Word Problems",
+      "instructions": "Read and solve.",
+      "questions": [
+        { "number": 3, "type": "word-problems", "prompt": "If you have 3 bags with 4 apples each, how many apples do you have in total?", "points": 3 }
+      ]
+    }
+  ]
 }
 
-CRITICAL RULES FOR THE HTML FIELD:
-1. Must start with <div class="ws-section"> - NO <h1>, NO title tags before it
-2. The html field contains ONLY section divs with questions inside
-3. Title goes in the "title" field, NOT in the HTML
-4. NO markdown backticks or code blocks in the output
-5. Include 15-25 questions across multiple sections`;
+Include ${questionCount} questions across the sections.`;
   }
 
-  async generateWorksheet(prompt: string): Promise<{
-    html: string;
-    title: string;
-    subject: string;
-    grade: string;
-    summary: string;
-  }> {
-    const systemPrompt = this.buildSystemPrompt();
+  private buildLearnerProfileGuide(learnerProfiles: StudentProfile[]): string {
+    if (learnerProfiles.length === 0) return "";
+
+    return `
+
+LEARNER PROFILES:
+The worksheet is for the following student(s). Adapt it to them while keeping the requested topic:
+- Match the reading level and simplify wording for students still learning the language of instruction
+- Keep instructions and layout compatible with the listed accommodations
+- Include questions that surface the known misconceptions
+- Use the students' interests in examples and word problems where it fits naturally
+- Prefer their preferred activity types when the activity types are automatic
+
+${learnerProfiles.map(profile => formatProfileForPrompt(profile)).join("\n\n")}`;
+  }
+
+  private buildReadingGuide(passage: ReadingPassage): string {
+    return `
+
+READING PASSAGE (numbered lines; it is printed above the questions, do NOT copy it into the document):
+${formatNumberedPassage(passage)}
+
+This is a reading comprehension worksheet about the passage above:
+- Include a vocabulary section with words from the passage, an inference section and an evidence section
+- Vocabulary: use words as they appear in the passage, not generic words
+- Inference: ask what the text implies, not only what it states
+- Evidence: ask students to quote or cite the lines that support an answer
+- Set "lineRef" on every question that is about specific lines, e.g. "12" or "12-15", using the line numbers above`;
+  }
+
+  private buildMaterialsGuide(materials: CourseMaterial[]): string {
+    if (materials.length === 0) return "";
+
+    return `
+
+LESSON MATERIALS (what was actually taught; do NOT copy them into the document):
+${materials.map(material => `--- ${material.title} ---\n${material.text}`).join("\n\n")}
+
+This is a practice worksheet for the lesson materials above:
+- Only ask about content, vocabulary, methods and notation that appear in the materials
+- Use the materials' own terms, definitions and worked-example styles
+- Cover the materials' main points roughly in proportion to how much space they get
+- Do not reference slide or page numbers; the students will not have the materials in front of them`;
+  }
+
+  /**
+   * Describes an existing worksheet for rewriting prompts. A reading passage
+   * is shown with its line numbers instead of as raw JSON, and is kept as is
+   * in the rewritten worksheet.
+   */
+  private describeWorksheet(document: WorksheetDocument): string {
+    const { passage, ...rest } = document;
+    const json = JSON.stringify(rest, null, 2);
+    return passage
+      ? `${json}\n\nREADING PASSAGE (numbered lines, printed above the questions; keep lineRef values pointing at these lines):\n${formatNumberedPassage(passage)}`
+      : json;
+  }
+
+  async generateWorksheet(
+    prompt: string,
+    worksheetSettings?: Partial<WorksheetSettings>,
+    options: GenerationOptions = {}
+  ): Promise<GeneratedWorksheet> {
+    const { passage } = options;
+    const settings = this.resolveSettings(
+      passage && (worksheetSettings?.activityTypes ?? "automatic") === "automatic"
+        ? { ...worksheetSettings, activityTypes: READING_ACTIVITY_TYPES }
+        : worksheetSettings
+    );
+    const systemPrompt = this.buildSystemPrompt(settings);
+    const activityTypes = resolveActivityTypes(settings.activityTypes, settings.ageGroup);
 
     const userPrompt = `Create a comprehensive educational worksheet based on this request:
 
 ${prompt}
 
 FOLLOW THE EXAMPLE FORMAT EXACTLY:
-- Return a JSON object with fields: title, subject, grade, html, summary
-- The 'html' field must start with <div class="ws-section">
-- DO NOT put any <h1> or title tags in the HTML - put the title in the 'title' field instead
-- Look at the example provided in the system prompt and follow that exact structure
-- The HTML should be ONLY section divs with questions inside them
-- Include 15-25 varied questions/activities across multiple sections`;
+- Return the structured worksheet document: title, subject, grade, summary and sections
+- Give every question an activity type, a prompt, a point value and the fields its type needs
+- Include 15-25 varied questions/activities across multiple sections
+- Honor the worksheet specifications from the system prompt (language, age, complexity, section count and activity types)${passage ? this.buildReadingGuide(passage) : ""}${this.buildMaterialsGuide(options.materials || [])}${this.buildLearnerProfileGuide(options.learnerProfiles || [])}`;
 
     try {
-      const response = await getLangchainMistralClient().generateWithStructuredOutput(
+      const response = await this.langchain.generateWithStructuredOutput(
         userPrompt,
-        WorksheetOutputSchema,
+        buildWorksheetDocumentSchema(activityTypes),
         {
           systemPrompt,
           model: "mistral-small-latest",
@@ -160,35 +246,16 @@ FOLLOW THE EXAMPLE FORMAT EXACTLY:
         }
       );
 
-      // Aggressively clean the HTML to remove any title tags that shouldn't be there
-      let cleanedHtml = response.html;
-
-      // Remove any h1 tags (with or without classes)
-      cleanedHtml = cleanedHtml.replace(/<h1[^>]*>.*?<\/h1>\s*/gi, '');
-      // Remove any paragraphs with ws-subtitle class
-      cleanedHtml = cleanedHtml.replace(/<p[^>]*class="ws-subtitle"[^>]*>.*?<\/p>\s*/gi, '');
-      // Also check for any title element at the start
-      if (cleanedHtml.trim().startsWith('<h1') || cleanedHtml.trim().startsWith('<p class="ws-subtitle"')) {
-        // Find the first ws-section and start from there
-        const sectionIndex = cleanedHtml.indexOf('<div class="ws-section">');
-        if (sectionIndex > -1) {
-          cleanedHtml = cleanedHtml.substring(sectionIndex);
-        }
-      }
-      // Trim any leading/trailing whitespace
-      cleanedHtml = cleanedHtml.trim();
-
-      // Inject the cleaned HTML into the template with title and subtitle
-      let fullHtml = WORKSHEET_TEMPLATE.replace('__WORKSHEET_TITLE__', response.title);
-      fullHtml = fullHtml.replace('__WORKSHEET_SUBTITLE__', `${response.subject} | ${response.grade}`);
-      fullHtml = fullHtml.replace('__WORKSHEET_CONTENT__', cleanedHtml);
+      const document = { ...normalizeWorksheetDocument(response), passage };
 
       return {
-        html: fullHtml,
-        title: response.title,
-        subject: response.subject,
-        grade: response.grade,
-        summary: response.summary
+        html: renderWorksheetHtml(document, settings),
+        title: document.title,
+        subject: document.subject,
+        grade: document.grade,
+        summary: document.summary,
+        settings,
+        document
       };
     } catch (error) {
       console.error("Worksheet generation error:", error);
@@ -196,22 +263,267 @@ FOLLOW THE EXAMPLE FORMAT EXACTLY:
     }
   }
 
-  async generateWorksheetWithPDF(prompt: string, generateAnswerKey: boolean = true): Promise<{
-    html: string;
-    title: string;
-    subject: string;
-    grade: string;
-    summary: string;
-    pdfUrl: string;
-    answerKeyPdfUrl?: string;
-    totalPoints?: number;
-    gradingBreakdown?: Array<{ section: string; points: number; }>;
-  }> {
+  async generateWorksheetWithPDF(
+    prompt: string,
+    worksheetSettings?: Partial<WorksheetSettings>,
+    options: GenerationOptions = {}
+  ): Promise<ExportedWorksheet> {
     // Generate the worksheet
-    const worksheet = await this.generateWorksheet(prompt);
+    const worksheet = await this.generateWorksheet(prompt, worksheetSettings, options);
+    return this.exportWorksheet(worksheet);
+  }
+
+  /**
+   * Rewrites an existing worksheet for one differentiation tier, keeping its
+   * topic, language and settings. Learner profiles and focus areas describe
+   * the students the variant is for.
+   */
+  async generateWorksheetVariant(
+    base: WorksheetDocument,
+    tier: DifferentiationTier,
+    options: {
+      settings?: Partial<WorksheetSettings>;
+      learnerProfiles?: StudentProfile[];
+      focusAreas?: string[];
+    } = {}
+  ): Promise<GeneratedWorksheet> {
+    // Variants are assigned and graded like any worksheet, so they always get an answer key
+    const settings = this.resolveSettings({ ...options.settings, includeAnswerKey: true });
+    const activityTypes = resolveActivityTypes(settings.activityTypes, settings.ageGroup);
+    const focusAreas = options.focusAreas || [];
+
+    const userPrompt = `Rewrite the worksheet below as the ${tier.toUpperCase()} tier of a differentiated set.
+
+TIER: ${DifferentiationTierDescriptions[tier]}
+
+BASE WORKSHEET:
+${this.describeWorksheet(base)}
+${focusAreas.length > 0 ? `\nFOCUS AREAS (from recent grading):\n${focusAreas.map(area => `- ${area}`).join("\n")}\n` : ""}
+RULES:
+- Keep the same topic, learning goals, title and language as the base worksheet
+- Do not mention the tier, "support" or "extension" anywhere students can see it
+- Adjust wording, scaffolding, difficulty and number of questions to the tier; keep 10-25 questions
+- Give every question an activity type, a prompt, a point value and the fields its type needs${this.buildLearnerProfileGuide(options.learnerProfiles || [])}`;
+
+    try {
+      const response = await this.langchain.generateWithStructuredOutput(
+        userPrompt,
+        buildWorksheetDocumentSchema(activityTypes),
+        {
+          systemPrompt: this.buildSystemPrompt(settings, "10-25"),
+          model: "mistral-small-latest",
+          temperature: 0.5,
+          maxTokens: 4000
+        }
+      );
+
+      const document = { ...normalizeWorksheetDocument(response), passage: base.passage };
+
+      return {
+        html: renderWorksheetHtml(document, settings),
+        title: document.title,
+        subject: document.subject,
+        grade: document.grade,
+        summary: document.summary,
+        settings,
+        document
+      };
+    } catch (error) {
+      console.error(`Worksheet variant generation error (${tier}):`, error);
+      throw new Error(`Failed to generate ${tier} worksheet: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
+  async generateWorksheetVariantWithPDF(
+    base: WorksheetDocument,
+    tier: DifferentiationTier,
+    options: {
+      settings?: Partial<WorksheetSettings>;
+      learnerProfiles?: StudentProfile[];
+      focusAreas?: string[];
+      baseWorksheetPdfUrl?: string;
+    } = {}
+  ): Promise<ExportedWorksheet> {
+    const worksheet = await this.generateWorksheetVariant(base, tier, options);
+    return this.exportWorksheet(
+      worksheet,
+      options.baseWorksheetPdfUrl ? { baseWorksheetPdfUrl: options.baseWorksheetPdfUrl, tier } : undefined
+    );
+  }
+
+  /**
+   * Generates a short remediation worksheet on specific concepts, with a
+   * worked example per section and easier items than a regular worksheet.
+   * The source worksheet, when given, anchors the topic and difficulty.
+   */
+  async generateRemediationWorksheet(
+    concepts: string[],
+    options: {
+      settings?: Partial<WorksheetSettings>;
+      learnerProfiles?: StudentProfile[];
+      sourceDocument?: WorksheetDocument;
+    } = {}
+  ): Promise<GeneratedWorksheet> {
+    const settings = this.resolveSettings({
+      ...options.settings,
+      complexity: 1,
+      sectionCount: concepts.length > 1 ? `2-${Math.min(concepts.length + 1, 4)}` : "2",
+      includeAnswerKey: true
+    });
+    const activityTypes = resolveActivityTypes(settings.activityTypes, settings.ageGroup);
+    const source = options.sourceDocument;
+
+    const userPrompt = `Create a short follow-up practice worksheet for students who struggled with these concepts:
+${concepts.map(concept => `- ${concept}`).join("\n")}
+${source ? `\nThe students just completed "${source.title}" (${source.subject}, ${source.grade}). Stay on the same topic and reuse its vocabulary.\n` : ""}${source?.passage ? `\nThe worksheet is about this passage (printed above the questions); set "lineRef" on questions about specific lines:\n${formatNumberedPassage(source.passage)}\n` : ""}
+RULES:
+- Only practice the concepts listed above
+- Start every section's instructions with one short worked example that shows each step
+- Begin with the easiest items and build up slowly; avoid trick questions
+- Include 6-12 questions in total
+- Use an encouraging title that does not mention remediation or struggling${this.buildLearnerProfileGuide(options.learnerProfiles || [])}`;
+
+    try {
+      const response = await this.langchain.generateWithStructuredOutput(
+        userPrompt,
+        buildWorksheetDocumentSchema(activityTypes),
+        {
+          systemPrompt: this.buildSystemPrompt(settings, "6-12"),
+          model: "mistral-small-latest",
+          temperature: 0.5,
+          maxTokens: 3000
+        }
+      );
+
+      const document = { ...normalizeWorksheetDocument(response), passage: source?.passage };
+
+      return {
+        html: renderWorksheetHtml(document, settings),
+        title: document.title,
+        subject: document.subject,
+        grade: document.grade,
+        summary: document.summary,
+        settings,
+        document
+      };
+    } catch (error) {
+      console.error("Remediation worksheet generation error:", error);
+      throw new Error(`Failed to generate remediation worksheet: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
+  async generateRemediationWorksheetWithPDF(
+    concepts: string[],
+    options: {
+      settings?: Partial<WorksheetSettings>;
+      learnerProfiles?: StudentProfile[];
+      sourceDocument?: WorksheetDocument;
+    } = {}
+  ): Promise<ExportedWorksheet> {
+    const worksheet = await this.generateRemediationWorksheet(concepts, options);
+    return this.exportWorksheet(worksheet);
+  }
 
+  /**
+   * Generates a parallel form of a worksheet: the same sections, activity
+   * types and point values, with different numbers, examples and scenarios.
+   * Retries once when the model changes the layout.
+   */
+  async generateAlternativeVersion(
+    base: WorksheetDocument,
+    options: {
+      settings?: Partial<WorksheetSettings>;
+      formLabel: string;
+    }
+  ): Promise<GeneratedWorksheet> {
+    const settings = this.resolveSettings({ ...options.settings, includeAnswerKey: true });
+    const activityTypes = resolveActivityTypes(settings.activityTypes, settings.ageGroup);
+    const layout = base.sections
+      .map((section, index) => `- Section ${index + 1}: ${section.questions.map(question => `${question.type} (${question.points} pts)`).join(", ")}`)
+      .join("\n");
+
+    const userPrompt = `Create Form ${options.formLabel} of the worksheet below: a parallel form that tests exactly the same skills at the same difficulty.
+
+ORIGINAL WORKSHEET:
+${this.describeWorksheet(base)}
+
+REQUIRED LAYOUT (same number of sections, and per section the same questions in the same order):
+${layout}
+
+RULES:
+- Keep every question's activity type and point value
+- Change the numbers, names, examples, scenarios and answer options so answers cannot be copied between forms
+- Keep the language, difficulty and section instructions equivalent to the original`;
+
+    let lastProblems: string[] = [];
+
+    for (let attempt = 1; attempt <= 2; attempt++) {
+      try {
+        const response = await this.langchain.generateWithStructuredOutput(
+          lastProblems.length > 0
+            ? `${userPrompt}\n\nYOUR PREVIOUS ATTEMPT DID NOT MATCH THE LAYOUT:\n${lastProblems.map(problem => `- ${problem}`).join("\n")}`
+            : userPrompt,
+          buildWorksheetDocumentSchema(activityTypes),
+          {
+            systemPrompt: this.buildSystemPrompt(settings, `exactly ${getAllQuestions(base).length}`),
+            model: "mistral-small-latest",
+            temperature: 0.7,
+            maxTokens: 4000
+          }
+        );
+
+        const generated = normalizeWorksheetDocument(response);
+        lastProblems = compareWorksheetStructure(base, generated);
+        if (lastProblems.length > 0) {
+          console.warn(`Form ${options.formLabel} does not match the original layout (attempt ${attempt}):`, lastProblems);
+          continue;
+        }
+
+        const document = { ...alignPoints(base, generated), title: `${base.title} - Form ${options.formLabel}`, passage: base.passage };
+
+        return {
+          html: renderWorksheetHtml(document, settings),
+          title: document.title,
+          subject: document.subject,
+          grade: document.grade,
+          summary: document.summary,
+          settings,
+          document
+        };
+      } catch (error) {
+        console.error(`Parallel form generation error (Form ${options.formLabel}):`, error);
+        throw new Error(`Failed to generate Form ${options.formLabel}: ${error instanceof Error ? error.message : "Unknown error"}`);
+      }
+    }
+
+    throw new Error(`Form ${options.formLabel} does not match the original worksheet: ${lastProblems.join("; ")}`);
+  }
+
+  async generateAlternativeVersionWithPDF(
+    base: WorksheetDocument,
+    options: {
+      settings?: Partial<WorksheetSettings>;
+      formLabel: string;
+      baseWorksheetPdfUrl?: string;
+    }
+  ): Promise<ExportedWorksheet> {
+    const worksheet = await this.generateAlternativeVersion(base, options);
+    return this.exportWorksheet(
+      worksheet,
+      options.baseWorksheetPdfUrl ? { baseWorksheetPdfUrl: options.baseWorksheetPdfUrl, form: options.formLabel } : undefined
+    );
+  }
+
+  /**
+   * Exports a generated worksheet and its answer key to PDF and stores both
+   * for assignment creation and grading.
+   */
+  private async exportWorksheet(
+    worksheet: GeneratedWorksheet,
+    variant?: WorksheetVariantInfo
+  ): Promise<ExportedWorksheet> {
     // Generate PDF and upload to S3
-    const pdfResult = await pdfExportService.saveWorksheetAsPDF(
+    const pdfResult = await this.pdfExportService.saveWorksheetAsPDF(
       worksheet.html,
       worksheet.title,
       { format: "Letter" },
@@ -221,19 +533,21 @@ FOLLOW THE EXAMPLE FORMAT EXACTLY:
 
     let answerKeyPdfUrl: string | undefined;
     let answerKeyHtml: string | undefined;
+    let answerKey: AnswerKey | undefined;
     let totalPoints: number | undefined;
     let gradingBreakdown: Array<{ section: string; points: number; }> | undefined;
 
-    if (generateAnswerKey) {
+    if (worksheet.settings.includeAnswerKey) {
       try {
         // Generate answer key with grading info
-        const answerKeyResult = await this.generateAnswerKey(worksheet.html, prompt);
+        const answerKeyResult = await this.generateAnswerKey(worksheet.document, worksheet.settings.language);
 
-        // Store the answer key HTML
+        // Store the answer key HTML and the structured key used for grading
         answerKeyHtml = answerKeyResult.html;
+        answerKey = answerKeyResult.answerKey;
 
         // Generate answer key PDF and upload to S3
-        const answerKeyPdfResult = await pdfExportService.saveWorksheetAsPDF(
+        const answerKeyPdfResult = await this.pdfExportService.saveWorksheetAsPDF(
           answerKeyResult.html,
           `Answer Key - ${worksheet.title}`,
           { format: "Letter" },
@@ -267,7 +581,11 @@ FOLLOW THE EXAMPLE FORMAT EXACTLY:
             summary: worksheet.summary,
             totalPoints,
             gradingBreakdown,
-            answerKeyHtml
+            answerKeyHtml,
+            answerKey,
+            settings: worksheet.settings,
+            document: worksheet.document,
+            variant
           }
         );
         console.log('Stored worksheet data for future assignment creation');
@@ -286,207 +604,77 @@ FOLLOW THE EXAMPLE FORMAT EXACTLY:
       pdfUrl: pdfResult.s3Url,
       answerKeyPdfUrl,
       totalPoints,
-      gradingBreakdown
+      gradingBreakdown,
+      answerKey,
+      settings: worksheet.settings,
+      document: worksheet.document
     };
   }
 
-  async generateAnswerKey(worksheetHtml: string, originalPrompt: string): Promise<{
+  /**
+   * Generates the answer key from the structured worksheet. The model only
+   * supplies answers; point values come from the worksheet questions.
+   */
+  async generateAnswerKey(document: WorksheetDocument, language?: string): Promise<{
     html: string;
     totalPoints: number;
     gradingBreakdown: Array<{ section: string; points: number; }>;
+    answerKey: AnswerKey;
   }> {
-    // Simplified approach - just generate the HTML answer key
-    try {
-      const prompt = `Generate an answer key for this worksheet. Output ONLY clean HTML with answers.
-
-Original worksheet request: ${originalPrompt}
-
-CRITICAL REQUIREMENTS:
-- Output ONLY HTML sections with answers, no JSON wrapper
-- Start directly with <div class="ws-section">
-- NO markdown syntax (no triple backticks, no code blocks)
-- Include answer for EVERY question
-- Use <span class="bold"> for answers
-- Add [5 pts] or similar after each question number
-
-Example format:
-<div class="ws-section">
-  <h2 class="ws-section-title">Section 1 Answers</h2>
-  <div class="q-item">
-    <span class="q-num">1. [5 pts]</span>
-    <span class="bold">Answer: 42</span>
-  </div>
-</div>`;
-
-      const response = await getLangchainMistralClient().generateText(prompt, {
-        model: "mistral-small-latest",
-        temperature: 0.3,
-        maxTokens: 3000
-      });
-
-      // Clean up the response
-      let cleanHtml = response;
-
-      // Remove any markdown artifacts
-      cleanHtml = cleanHtml.replace(/```html?\s*/gi, '');
-      cleanHtml = cleanHtml.replace(/```\s*/gi, '');
-
-      // Remove any leading text before the first <div
-      const divIndex = cleanHtml.indexOf('<div');
-      if (divIndex > 0) {
-        cleanHtml = cleanHtml.substring(divIndex);
-      }
-
-      // Trim whitespace
-      cleanHtml = cleanHtml.trim();
-
-      // Parse points from the generated HTML
-      const { totalPoints, gradingBreakdown } = this.parsePointsFromAnswerKey(cleanHtml);
-
-      // Wrap in template
-      let fullHtml = WORKSHEET_TEMPLATE.replace('__WORKSHEET_TITLE__', 'ANSWER KEY');
-      fullHtml = fullHtml.replace('__WORKSHEET_SUBTITLE__', `Complete Answer Guide - Total Points: ${totalPoints}`);
-      fullHtml = fullHtml.replace('__WORKSHEET_CONTENT__', cleanHtml);
-
-      return {
-        html: fullHtml,
-        totalPoints,
-        gradingBreakdown
-      };
-    } catch (error) {
-      console.error("Answer key generation error:", error);
-      // Return a basic fallback
-      const fallbackHtml = WORKSHEET_TEMPLATE
-        .replace('__WORKSHEET_TITLE__', 'ANSWER KEY')
-        .replace('__WORKSHEET_SUBTITLE__', 'Generation Failed')
-        .replace('__WORKSHEET_CONTENT__', '<p>Unable to generate answer key. Please create manually.</p>');
-
-      return {
-        html: fallbackHtml,
-        totalPoints: 100, // Fallback to 100 if parsing fails
-        gradingBreakdown: []
-      };
+    const questions = getAllQuestions(document);
+    const entries = await this.requestAnswers(document, questions, language);
+
+    // Ask once more for any questions the model skipped
+    const answered = new Set(entries.map(entry => entry.questionNumber));
+    const missing = questions.filter(question => !answered.has(question.number));
+    if (missing.length > 0) {
+      console.warn(`Answer key is missing questions ${missing.map(q => q.number).join(", ")}, retrying`);
+      entries.push(...await this.requestAnswers(document, missing, language));
     }
-  }
-
-  private parsePointsFromAnswerKey(html: string): {
-    totalPoints: number;
-    gradingBreakdown: Array<{ section: string; points: number; }>;
-  } {
-    try {
-      let totalPoints = 0;
-      const gradingBreakdown: Array<{ section: string; points: number; }> = [];
-
-      // Regular expression to find point values like [5 pts], [10 points], etc.
-      const pointPattern = /\[(\d+)\s*(?:pts?|points?)\]/gi;
-
-      // Find all sections
-      const sectionPattern = /<h2[^>]*class="ws-section-title"[^>]*>(.*?)<\/h2>/gi;
-      const sections = html.split(sectionPattern);
-
-      let currentSection = "General";
-
-      // Parse the HTML to find sections and their points
-      const lines = html.split('\n');
-      let sectionPoints = 0;
-
-      for (const line of lines) {
-        // Check if this is a section title
-        const sectionMatch = line.match(/<h2[^>]*class="ws-section-title"[^>]*>(.*?)<\/h2>/i);
-        if (sectionMatch) {
-          // Save previous section if it had points
-          if (sectionPoints > 0) {
-            gradingBreakdown.push({ section: currentSection, points: sectionPoints });
-          }
-          // Start new section
-          currentSection = sectionMatch[1].replace(/<[^>]*>/g, '').trim();
-          sectionPoints = 0;
-        }
-
-        // Look for point values in this line
-        let match;
-        while ((match = pointPattern.exec(line)) !== null) {
-          const points = parseInt(match[1], 10);
-          if (!isNaN(points)) {
-            totalPoints += points;
-            sectionPoints += points;
-          }
-        }
-      }
-
-      // Add the last section if it had points
-      if (sectionPoints > 0) {
-        gradingBreakdown.push({ section: currentSection, points: sectionPoints });
-      }
-
-      // If no points were found, estimate based on question count
-      if (totalPoints === 0) {
-        // Count questions by looking for q-num spans
-        const questionPattern = /<span[^>]*class="q-num"[^>]*>/gi;
-        const questionMatches = html.match(questionPattern);
-        const questionCount = questionMatches ? questionMatches.length : 0;
-
-        if (questionCount > 0) {
-          // Assume 5 points per question as default
-          const pointsPerQuestion = 5;
-          totalPoints = questionCount * pointsPerQuestion;
-
-          // Try to group by sections
-          if (gradingBreakdown.length === 0) {
-            gradingBreakdown.push({
-              section: "All Questions",
-              points: totalPoints
-            });
-          }
-        } else {
-          // Fallback to 100 points if we can't determine question count
-          totalPoints = 100;
-        }
-      }
 
-      return { totalPoints, gradingBreakdown };
-    } catch (error) {
-      console.error("Error parsing points from answer key:", error);
-      // Return fallback values
-      return {
-        totalPoints: 100,
-        gradingBreakdown: [{ section: "All Questions", points: 100 }]
-      };
+    const answerKey = buildAnswerKey(document, entries);
+    const problems = validateAnswerKey(document, answerKey);
+    if (problems.length > 0) {
+      throw new Error(`Invalid answer key:\n- ${problems.join("\n- ")}`);
     }
+
+    return {
+      html: renderAnswerKeyHtml(document, answerKey, language),
+      totalPoints: answerKey.totalPoints,
+      gradingBreakdown: answerKey.gradingBreakdown,
+      answerKey
+    };
   }
 
-  private async generateSimpleAnswerKey(worksheetHtml: string, originalPrompt: string): Promise<string> {
-    try {
-      const prompt = `Generate answer key HTML for this worksheet. Output ONLY HTML sections with answers. No markdown, no explanations.
+  private async requestAnswers(document: WorksheetDocument, questions: WorksheetQuestion[], language?: string): Promise<AnswerKeyEntry[]> {
+    const usedTypes = [...new Set(questions.map(question => question.type))];
+    const formatGuide = usedTypes
+      .map(type => `- ${type}: ${ANSWER_FORMAT_GUIDE[type]}`)
+      .join("\n");
 
-Worksheet request: ${originalPrompt}
+    const prompt = `Write the answer key for these questions from the worksheet "${document.title}" (${document.subject}, ${document.grade}).
 
-Return HTML starting with <div class="ws-section"> with answers for each question.`;
+${document.passage ? `READING PASSAGE (numbered lines):\n${formatNumberedPassage(document.passage)}\n\nBase every answer on the passage and cite the supporting line numbers in the explanation.\n\n` : ""}QUESTIONS:
+${JSON.stringify(questions.map(({ number, type, prompt, options, items, table, lineRef }) => ({ number, type, prompt, options, items, table, lineRef })), null, 2)}
 
-      const response = await getLangchainMistralClient().generateText(prompt, {
-        model: "mistral-small-latest",
-        temperature: 0.3,
-        maxTokens: 2000
-      });
+ANSWER FORMAT BY ACTIVITY TYPE:
+${formatGuide}
 
-      // Clean up any markdown artifacts
-      let cleanHtml = response.replace(/```html/g, '').replace(/```/g, '').trim();
+Multiple-choice options and matching right-column entries are lettered A, B, C... in the order given.
+Give exactly one answer per question number listed above. List alternative correct answers in acceptedAnswers.${language ? `\nWrite answers and explanations in ${language}, the language of the worksheet (multiple-choice letters and True/False stay as specified above).` : ""}`;
 
-      // Wrap in template
-      let fullHtml = WORKSHEET_TEMPLATE.replace('__WORKSHEET_TITLE__', 'ANSWER KEY');
-      fullHtml = fullHtml.replace('__WORKSHEET_SUBTITLE__', 'Grading information unavailable');
-      fullHtml = fullHtml.replace('__WORKSHEET_CONTENT__', cleanHtml);
+    const response = await this.langchain.generateWithStructuredOutput(
+      prompt,
+      AnswerKeyResponseSchema,
+      {
+        systemPrompt: "You are an experienced teacher writing precise answer keys that are used for automatic grading.",
+        model: "mistral-small-latest",
+        temperature: 0.2,
+        maxTokens: 4000
+      }
+    );
 
-      return fullHtml;
-    } catch (error) {
-      console.error("Fallback answer key generation also failed:", error);
-      const errorHtml = WORKSHEET_TEMPLATE
-        .replace('__WORKSHEET_TITLE__', 'ANSWER KEY')
-        .replace('__WORKSHEET_SUBTITLE__', 'Generation Failed')
-        .replace('__WORKSHEET_CONTENT__', '<p>Unable to generate answer key. Please create manually.</p>');
-      return errorHtml;
-    }
+    const requested = new Set(questions.map(question => question.number));
+    return response.answers.filter(entry => requested.has(entry.questionNumber));
   }
 }
-
-export const optimizedWorksheetService = new OptimizedWorksheetService();
\ No newline at end of file
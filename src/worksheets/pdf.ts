@@ -375,4 +375,5 @@ export class PDFExportService {
   }
 }
 
-export const pdfExportService = new PDFExportService();
\ No newline at end of file
+// PDF rendering and S3 upload, which an exporter without Puppeteer can provide too
+export type PDFExportServiceApi = Pick<PDFExportService, keyof PDFExportService>;
\ No newline at end of file
@@ -0,0 +1,277 @@
+import { WORKSHEET_TEMPLATE } from "./template.js";
+import { BLANK_MARKER } from "./model.js";
+import type { AnswerKey, AnswerKeyItem, ReadingPassage, WorksheetDocument, WorksheetQuestion, WorksheetSection } from "./model.js";
+import { resolveLanguage } from "./language.js";
+
+const OPTION_LETTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+type WorksheetLabels = NonNullable<WorksheetDocument["labels"]>;
+
+const DEFAULT_LABELS: WorksheetLabels = {
+  showYourWork: "Show your work:",
+  true: "T",
+  false: "F"
+};
+
+export interface RenderLanguageOptions {
+  language?: string; // Language of the worksheet, e.g. "Spanish" or "ar"
+  homeLanguage?: string; // Language of the translated section instructions
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+export function optionLetter(index: number): string {
+  return OPTION_LETTERS[index] || String(index + 1);
+}
+
+function renderBlanks(prompt: string): string {
+  return prompt
+    .split(BLANK_MARKER)
+    .map(part => escapeHtml(part.replace(/^_+|_+$/g, "")))
+    .join('<span class="fill-blank"></span>');
+}
+
+function renderLineRef(question: WorksheetQuestion): string {
+  return question.lineRef ? `<span class="line-ref">[${escapeHtml(question.lineRef)}]</span> ` : "";
+}
+
+function renderQuestionHeader(question: WorksheetQuestion, text: string = escapeHtml(question.prompt)): string {
+  return `  <span class="q-num">${question.number}.</span>
+  <span class="q-text">${renderLineRef(question)}${text}</span>`;
+}
+
+function renderAnswerLines(count: number): string {
+  const lineClass = count >= 5 ? "answer-lines-5" : count >= 3 ? "answer-lines-3" : "answer-lines-2";
+  const lines = Array.from({ length: count }, () => '    <div class="answer-line"></div>').join("\n");
+  return `  <div class="${lineClass}">\n${lines}\n  </div>`;
+}
+
+function renderQuestion(question: WorksheetQuestion, labels: WorksheetLabels): string {
+  switch (question.type) {
+    case "fill-blanks":
+      return `<div class="q-item">
+${renderQuestionHeader(question, renderBlanks(question.prompt))}
+</div>`;
+
+    case "short-answer":
+      return `<div class="q-item">
+${renderQuestionHeader(question)}
+${renderAnswerLines(question.answerLines || 2)}
+</div>`;
+
+    case "multiple-choice": {
+      const options = (question.options || [])
+        .map((option, index) => `    <div class="mc-option"><span class="mc-circle"></span><span class="mc-letter">${optionLetter(index)})</span> ${escapeHtml(option)}</div>`)
+        .join("\n");
+      return `<div class="q-item">
+${renderQuestionHeader(question)}
+  <div class="mc-options">
+${options}
+  </div>
+</div>`;
+    }
+
+    case "true-false":
+      return `<div class="q-item">
+${renderQuestionHeader(question)}
+  <span class="tf-options">
+    <span class="tf-circle"></span> ${escapeHtml(labels.true)}
+    <span class="tf-circle"></span> ${escapeHtml(labels.false)}
+  </span>
+</div>`;
+
+    case "matching": {
+      const left = (question.items || [])
+        .map(item => `      <div class="match-item match-left">${escapeHtml(item)}</div>`)
+        .join("\n");
+      const right = (question.options || [])
+        .map((option, index) => `      <div class="match-item match-right" data-letter="${optionLetter(index)}">${escapeHtml(option)}</div>`)
+        .join("\n");
+      return `<div class="q-item">
+${renderQuestionHeader(question)}
+  <div class="match-container">
+    <div class="match-column">
+${left}
+    </div>
+    <div class="match-column">
+${right}
+    </div>
+  </div>
+</div>`;
+    }
+
+    case "vocabulary":
+      return `<div class="vocab-item">
+  <span class="q-num">${question.number}.</span>
+  <span class="vocab-word">${renderLineRef(question)}${escapeHtml(question.prompt)}</span>
+  <div class="vocab-def-line"></div>
+</div>`;
+
+    case "calculations":
+      return `<div class="q-item">
+${renderQuestionHeader(question)}
+  <div class="math-box">
+    <span class="show-work-label">${escapeHtml(labels.showYourWork)}</span>
+  </div>
+</div>`;
+
+    case "sequencing": {
+      const items = (question.items || [])
+        .map(item => `    <div class="seq-item"><span class="seq-blank"></span>${escapeHtml(item)}</div>`)
+        .join("\n");
+      return `<div class="q-item">
+${renderQuestionHeader(question)}
+  <div class="seq-container">
+${items}
+  </div>
+</div>`;
+    }
+
+    case "essay":
+      return `<div class="q-item">
+${renderQuestionHeader(question)}
+  <div class="essay-box">
+    <div class="essay-lines"></div>
+  </div>
+</div>`;
+
+    case "tables": {
+      const table = question.table || { headers: [], rows: [] };
+      const headerRow = `    <tr>${table.headers.map(header => `<th>${escapeHtml(header)}</th>`).join("")}</tr>`;
+      const rows = table.rows
+        .map(row => `    <tr>${row.map(cell => cell.trim() ? `<td>${escapeHtml(cell)}</td>` : '<td class="blank"></td>').join("")}</tr>`)
+        .join("\n");
+      return `<div class="q-item">
+${renderQuestionHeader(question)}
+  <table class="ws-table">
+${headerRow}
+${rows}
+  </table>
+</div>`;
+    }
+
+    case "word-problems":
+      return `<div class="word-problem">
+  <span class="q-num">${question.number}.</span>
+  <div class="word-problem-text">${renderLineRef(question)}${escapeHtml(question.prompt)}</div>
+  <div class="solution-space"></div>
+</div>`;
+  }
+}
+
+function renderTranslatedInstructions(section: WorksheetSection, homeLanguage?: string): string {
+  if (!homeLanguage || !section.translatedInstructions) return "";
+
+  const { code, direction } = resolveLanguage(homeLanguage);
+  return `\n<p class="ws-instructions ws-translation" lang="${escapeHtml(code)}" dir="${direction}">${escapeHtml(section.translatedInstructions)}</p>`;
+}
+
+function renderSection(section: WorksheetSection, labels: WorksheetLabels, homeLanguage?: string): string {
+  const questions = section.questions.map(question => renderQuestion(question, labels)).join("\n");
+
+  return `<div class="ws-section">
+<h2 class="ws-section-title">${escapeHtml(section.title)}</h2>
+<p class="ws-instructions">${escapeHtml(section.instructions)}</p>${renderTranslatedInstructions(section, homeLanguage)}
+${questions}
+</div>`;
+}
+
+/**
+ * Renders the reading passage one printed line per row, numbering the first
+ * line and every fifth line so questions can refer to line ranges.
+ */
+function renderPassage(passage: ReadingPassage): string {
+  let lineNumber = 0;
+  const paragraphs = passage.paragraphs.map(lines => {
+    const rows = lines.map(line => {
+      lineNumber++;
+      const label = lineNumber === 1 || lineNumber % 5 === 0 ? String(lineNumber) : "";
+      return `  <div class="passage-line"><span class="passage-line-num">${label}</span>${escapeHtml(line)}</div>`;
+    }).join("\n");
+    return `<div class="passage-paragraph">\n${rows}\n</div>`;
+  }).join("\n");
+
+  return `<div class="reading-passage">
+${passage.title ? `<h2 class="ws-section-title">${escapeHtml(passage.title)}</h2>\n` : ""}${paragraphs}
+${passage.source ? `<p class="small-text italic">${escapeHtml(passage.source)}</p>\n` : ""}</div>`;
+}
+
+/**
+ * Renders the worksheet sections into the CSS class vocabulary of WORKSHEET_TEMPLATE.
+ */
+export function renderWorksheetContent(document: WorksheetDocument, homeLanguage?: string): string {
+  const labels = { ...DEFAULT_LABELS, ...document.labels };
+  const sections = document.sections.map(section => renderSection(section, labels, homeLanguage)).join("\n");
+  return document.passage ? `${renderPassage(document.passage)}\n${sections}` : sections;
+}
+
+/**
+ * Injects title, subtitle and content into the worksheet template. The
+ * language sets the lang and dir attributes, so right-to-left scripts lay out
+ * correctly.
+ */
+export function fillTemplate(title: string, subtitle: string, content: string, language: string = "English (US)"): string {
+  const { code, direction } = resolveLanguage(language);
+  let fullHtml = WORKSHEET_TEMPLATE.replace("__WORKSHEET_LANG__", escapeHtml(code));
+  fullHtml = fullHtml.replace("__WORKSHEET_DIR__", direction);
+  fullHtml = fullHtml.replace("__WORKSHEET_TITLE__", escapeHtml(title));
+  fullHtml = fullHtml.replace("__WORKSHEET_SUBTITLE__", escapeHtml(subtitle));
+  fullHtml = fullHtml.replace("__WORKSHEET_CONTENT__", () => content);
+  return fullHtml;
+}
+
+export function renderWorksheetHtml(document: WorksheetDocument, options: RenderLanguageOptions = {}): string {
+  return fillTemplate(
+    document.title,
+    `${document.subject} | ${document.grade}`,
+    renderWorksheetContent(document, options.homeLanguage),
+    options.language
+  );
+}
+
+function renderAnswerKeyItem(item: AnswerKeyItem): string {
+  const lines = [`  <span class="q-num">${item.questionNumber}. [${item.points} pts]</span>
+  <span class="bold">Answer: ${escapeHtml(item.answer)}</span>`];
+
+  if (item.acceptedAnswers.length > 0) {
+    lines.push(`  <div class="small-text indent">Also accept: ${item.acceptedAnswers.map(escapeHtml).join("; ")}</div>`);
+  }
+  if (item.explanation) {
+    lines.push(`  <div class="small-text italic indent">${escapeHtml(item.explanation)}</div>`);
+  }
+
+  return `<div class="q-item">\n${lines.join("\n")}\n</div>`;
+}
+
+/**
+ * Renders the answer key in the same section order as the worksheet, with the
+ * point value of every question and the section totals.
+ */
+export function renderAnswerKeyHtml(document: WorksheetDocument, answerKey: AnswerKey, language?: string): string {
+  const content = document.sections.map((section, sectionIndex) => {
+    const items = answerKey.items
+      .filter(item => item.sectionIndex === sectionIndex)
+      .map(renderAnswerKeyItem)
+      .join("\n");
+    const sectionPoints = answerKey.gradingBreakdown[sectionIndex]?.points ?? 0;
+
+    return `<div class="ws-section">
+<h2 class="ws-section-title">${escapeHtml(section.title)} (${sectionPoints} pts)</h2>
+${items}
+</div>`;
+  }).join("\n");
+
+  return fillTemplate(
+    "ANSWER KEY",
+    `${document.title} - Total Points: ${answerKey.totalPoints}`,
+    content,
+    language
+  );
+}
@@ -1,11 +1,15 @@
 import { z } from "zod";
-import { mistralClient } from "../llm/mistral.js";
+import type { MistralClientApi } from "../llm/mistral.js";
 import {
   WorksheetResponseSchema,
   ActivityTypeDescriptions,
-  WorksheetSettingsSchema
+  AgeGroupMappings,
+  ComplexityLabels,
+  WorksheetSettingsSchema,
+  resolveActivityTypes
 } from "./types.js";
 import type {
+  AgeGroup,
   WorksheetSettings,
   WorksheetResponse,
   WorksheetGenerationRequest,
@@ -14,72 +18,20 @@ import type {
 } from "./types.js";
 
 export class WorksheetService {
+  constructor(private mistral: MistralClientApi) {}
+
   private getAgeGroupMapping(ageGroup: string): AgeGroupMapping {
-    const mappings: Record<string, AgeGroupMapping> = {
-      "3 - 5": {
-        gradeLevel: "Pre-K to Kindergarten",
-        complexity: "very simple",
-        characteristics: "Large fonts, simple instructions, visual elements, tracing activities, minimal writing"
-      },
-      "6 - 7": {
-        gradeLevel: "1st-2nd Grade",
-        complexity: "simple",
-        characteristics: "Basic vocabulary, clear instructions, more visuals, short responses, beginning reading"
-      },
-      "8 - 9": {
-        gradeLevel: "3rd-4th Grade",
-        complexity: "elementary",
-        characteristics: "Moderate vocabulary, paragraph reading, multi-step problems, basic analysis"
-      },
-      "10 - 12": {
-        gradeLevel: "5th-6th Grade",
-        complexity: "intermediate",
-        characteristics: "Advanced vocabulary, longer texts, critical thinking, problem-solving"
-      },
-      "13 - 15": {
-        gradeLevel: "7th-9th Grade",
-        complexity: "middle school",
-        characteristics: "Complex concepts, analytical questions, extended responses, research skills"
-      },
-      "16+": {
-        gradeLevel: "10th-12th Grade",
-        complexity: "high school",
-        characteristics: "Advanced analysis, essay questions, complex problem-solving, synthesis"
-      },
-      "auto": {
-        gradeLevel: "Mixed",
-        complexity: "adaptive",
-        characteristics: "Content-appropriate complexity"
-      }
-    };
-    return mappings[ageGroup] || mappings["auto"];
+    return AgeGroupMappings[ageGroup as AgeGroup] || AgeGroupMappings["auto"];
   }
 
   private getActivityTypeDescriptions(
     activityTypes: WorksheetSettings["activityTypes"],
     ageGroup: string
   ): string {
-    if (activityTypes === "automatic") {
-      const youngAges = ["3 - 5", "6 - 7"];
-      const middleAges = ["8 - 9", "10 - 12"];
-
-      if (youngAges.includes(ageGroup)) {
-        return "Fill in the blanks, Matching, True/False, Simple vocabulary, Basic sequencing";
-      } else if (middleAges.includes(ageGroup)) {
-        return "Fill in the blanks, Short answer questions, Multiple choice, Matching, Vocabulary, Basic calculations or word problems";
-      } else {
-        return "Short answer questions, Multiple choice, Essay questions, Tables/charts analysis, Complex word problems, Critical thinking exercises";
-      }
-    }
-
-    if (Array.isArray(activityTypes)) {
-      return activityTypes
-        .map(type => ActivityTypeDescriptions[type])
-        .filter(Boolean)
-        .join(", ");
-    }
-
-    return Object.values(ActivityTypeDescriptions).join(", ");
+    return resolveActivityTypes(activityTypes, ageGroup)
+      .map(type => ActivityTypeDescriptions[type])
+      .filter(Boolean)
+      .join(", ");
   }
 
   private buildSystemPrompt(
@@ -87,8 +39,7 @@ export class WorksheetService {
     hasAttachments: boolean
   ): string {
     const ageMapping = this.getAgeGroupMapping(settings.ageGroup);
-    const complexityLabels = ["automatic", "simple", "moderate", "advanced"];
-    const complexity = complexityLabels[settings.complexity] || "automatic";
+    const complexity = ComplexityLabels[settings.complexity] || "automatic";
 
     let sectionCount = 3;
     if (typeof settings.sectionCount === "string" && settings.sectionCount.includes("-")) {
@@ -190,7 +141,7 @@ IMPORTANT:
     }
 
     try {
-      const response = await mistralClient.completeWithJSON(
+      const response = await this.mistral.completeWithJSON(
         userPrompt,
         WorksheetResponseSchema,
         {
@@ -239,7 +190,7 @@ ${worksheet.content}
 Provide clear, accurate answers for all questions. For math problems, show the work. Format the answer key in clean HTML similar to the worksheet style.`;
 
     try {
-      const answerKey = await mistralClient.complete(prompt, {
+      const answerKey = await this.mistral.complete(prompt, {
         model: "mistral-medium-latest",
         temperature: 0.3,
         maxTokens: 4000
@@ -252,6 +203,8 @@ Provide clear, accurate answers for all questions. For math problems, show the w
     }
   }
 
+  // Works on the legacy HTML worksheets. Stored worksheets use
+  // OptimizedWorksheetService.generateAlternativeVersion, which keeps the layout and points.
   async generateAlternativeVersion(
     original: WorksheetResult,
     modifications?: Partial<WorksheetSettings>
@@ -335,7 +288,7 @@ Return as JSON with this structure:
     });
 
     try {
-      return await mistralClient.completeWithJSON(prompt, GradingSchema, {
+      return await this.mistral.completeWithJSON(prompt, GradingSchema, {
         model: "mistral-medium-latest",
         temperature: 0.3,
         responseFormat: "json"
@@ -345,6 +298,4 @@ Return as JSON with this structure:
       throw new Error(`Failed to grade worksheet: ${error instanceof Error ? error.message : "Unknown error"}`);
     }
   }
-}
-
-export const worksheetService = new WorksheetService();
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,250 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import type { MistralClientApi } from "../llm/mistral.js";
+import { checkPublicUrl, fetchPublicUrl } from "../security/publicFetch.js";
+import type { ReadingPassage } from "./model.js";
+
+// Passages longer than this are cut at the last paragraph that fits
+export const MAX_SOURCE_CHARACTERS = 12000;
+
+// Larger web pages are refused instead of being read into memory
+const MAX_SOURCE_BYTES = 5_000_000;
+
+// Lesson materials are only given to the model, so they may be longer than a printed passage
+export const MAX_MATERIAL_CHARACTERS = 20000;
+
+// Printed line width; the renderer shows one passage line per row so line numbers stay valid
+const PASSAGE_LINE_WIDTH = 85;
+
+export interface SourceInput {
+  text?: string; // Pasted text
+  url?: string; // Web page, plain text or PDF (PDFs are read with Mistral OCR)
+  title?: string;
+}
+
+export interface CourseMaterial {
+  title: string;
+  text: string;
+}
+
+const OCR_EXTENSIONS = new Set([".pdf", ".png", ".jpg", ".jpeg", ".webp", ".gif"]);
+const TEXT_EXTENSIONS = new Set([".txt", ".md", ".csv"]);
+const HTML_EXTENSIONS = new Set([".html", ".htm"]);
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&nbsp;": " ",
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": "\"",
+  "&#39;": "'",
+  "&apos;": "'",
+  "&mdash;": "—",
+  "&ndash;": "–",
+  "&hellip;": "…",
+  "&rsquo;": "’",
+  "&lsquo;": "‘",
+  "&rdquo;": "”",
+  "&ldquo;": "“"
+};
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&[a-z]+;/gi, entity => HTML_ENTITIES[entity.toLowerCase()] ?? entity);
+}
+
+/**
+ * Extracts readable text from a web page, preferring the <article> or <main>
+ * element when there is one.
+ */
+function htmlToText(html: string): { title?: string; text: string } {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const body = html.match(/<article[\s\S]*?<\/article>/i)?.[0]
+    || html.match(/<main[\s\S]*?<\/main>/i)?.[0]
+    || html.match(/<body[\s\S]*?<\/body>/i)?.[0]
+    || html;
+
+  const text = body
+    .replace(/<(script|style|nav|header|footer|aside|noscript)[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br[^>]*>/gi, "\n")
+    .replace(/<\/(p|div|h[1-6]|li|blockquote)>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "");
+
+  return { title: title ? decodeEntities(title).trim() : undefined, text: decodeEntities(text) };
+}
+
+function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/[*_]{1,2}([^*_]+)[*_]{1,2}/g, "$1");
+}
+
+function normalizeParagraphs(text: string): string[] {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+}
+
+function truncateParagraphs(paragraphs: string[]): string[] {
+  const kept: string[] = [];
+  let length = 0;
+  for (const paragraph of paragraphs) {
+    if (length + paragraph.length > MAX_SOURCE_CHARACTERS && kept.length > 0) {
+      console.warn(`Source text is longer than ${MAX_SOURCE_CHARACTERS} characters, using the first ${kept.length} paragraphs`);
+      break;
+    }
+    kept.push(paragraph.slice(0, MAX_SOURCE_CHARACTERS));
+    length += paragraph.length;
+  }
+  return kept;
+}
+
+// CJK characters print about twice as wide as Latin ones
+function displayWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    width += /[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\uff00-\uff60]/.test(char) ? 2 : 1;
+  }
+  return width;
+}
+
+// Splits words wider than a line (e.g. unspaced CJK text) into line-sized pieces
+function splitLongWord(word: string): string[] {
+  if (displayWidth(word) <= PASSAGE_LINE_WIDTH) return [word];
+
+  const pieces: string[] = [];
+  let current = "";
+  for (const char of word) {
+    if (displayWidth(current + char) > PASSAGE_LINE_WIDTH) {
+      pieces.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Wraps each paragraph into lines of at most PASSAGE_LINE_WIDTH characters.
+ * Lines are numbered continuously across paragraphs.
+ */
+export function wrapPassageLines(paragraphs: string[]): string[][] {
+  return paragraphs.map(paragraph => {
+    const lines: string[] = [];
+    let current = "";
+    for (const word of paragraph.split(" ").flatMap(splitLongWord)) {
+      if (current && displayWidth(current) + displayWidth(word) + 1 > PASSAGE_LINE_WIDTH) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    }
+    if (current) lines.push(current);
+    return lines;
+  });
+}
+
+async function fetchSource(url: string, mistral: MistralClientApi): Promise<{ title?: string; text: string }> {
+  const isPdfUrl = /\.pdf$/i.test(new URL(url).pathname);
+
+  // Teachers choose the URL, so it must not reach the server's own network
+  if (isPdfUrl) {
+    await checkPublicUrl(url);
+  } else {
+    const { contentType, body } = await fetchPublicUrl(url, MAX_SOURCE_BYTES);
+    if (!contentType.includes("application/pdf")) {
+      const text = body.toString("utf-8");
+      return contentType.includes("html") ? htmlToText(text) : { text };
+    }
+  }
+
+  const ocrResult = await mistral.processOCR(url);
+  return { text: markdownToText(ocrResult.content || "") };
+}
+
+/**
+ * Loads the source text for a reading worksheet from pasted text or a URL and
+ * wraps it into numbered passage lines. PDFs are read with Mistral OCR.
+ */
+export async function loadReadingPassage(input: SourceInput, mistral: MistralClientApi): Promise<ReadingPassage> {
+  if (!input.text?.trim() && !input.url) {
+    throw new Error("Provide either source text or a source URL");
+  }
+
+  const loaded = input.text?.trim()
+    ? { text: input.text }
+    : await fetchSource(input.url!, mistral);
+
+  const paragraphs = truncateParagraphs(normalizeParagraphs(loaded.text));
+  if (paragraphs.length === 0) {
+    throw new Error(`No readable text found in ${input.url || "the source text"}`);
+  }
+
+  return {
+    title: input.title || ("title" in loaded ? loaded.title : undefined),
+    source: input.url,
+    paragraphs: wrapPassageLines(paragraphs)
+  };
+}
+
+async function readMaterialText(filePath: string, mistral: MistralClientApi): Promise<string> {
+  const extension = path.extname(filePath).toLowerCase();
+
+  if (OCR_EXTENSIONS.has(extension)) {
+    const ocrResult = await mistral.processOCRFromFile(filePath);
+    return markdownToText(ocrResult.content || "");
+  }
+  if (TEXT_EXTENSIONS.has(extension)) {
+    return readFile(filePath, "utf-8");
+  }
+  if (HTML_EXTENSIONS.has(extension)) {
+    return htmlToText(await readFile(filePath, "utf-8")).text;
+  }
+  throw new Error(`Unsupported file type "${extension || "none"}". Convert it to PDF, or to Google Docs/Slides`);
+}
+
+/**
+ * Reads downloaded lesson materials (PDFs and images with Mistral OCR, plain
+ * text and HTML directly). Files that cannot be read are reported in
+ * `skipped` instead of failing the whole set; the combined text is cut at
+ * MAX_MATERIAL_CHARACTERS.
+ */
+export async function loadCourseMaterials(files: Array<{ title: string; path: string }>, mistral: MistralClientApi): Promise<{
+  materials: CourseMaterial[];
+  skipped: Array<{ title: string; reason: string }>;
+}> {
+  const materials: CourseMaterial[] = [];
+  const skipped: Array<{ title: string; reason: string }> = [];
+  let remaining = MAX_MATERIAL_CHARACTERS;
+
+  for (const file of files) {
+    if (remaining <= 0) {
+      skipped.push({ title: file.title, reason: `the other materials already fill the ${MAX_MATERIAL_CHARACTERS} character limit` });
+      continue;
+    }
+
+    try {
+      const text = normalizeParagraphs(await readMaterialText(file.path, mistral)).join("\n\n");
+      if (!text) {
+        skipped.push({ title: file.title, reason: "no readable text found" });
+        continue;
+      }
+      if (text.length > remaining) {
+        console.warn(`Course materials are longer than ${MAX_MATERIAL_CHARACTERS} characters, cutting "${file.title}"`);
+      }
+      materials.push({ title: file.title, text: text.slice(0, remaining) });
+      remaining -= text.length;
+    } catch (error) {
+      skipped.push({ title: file.title, reason: error instanceof Error ? error.message : "Unknown error" });
+    }
+  }
+
+  return { materials, skipped };
+}
@@ -1,5 +1,5 @@
 export const WORKSHEET_TEMPLATE = `<!DOCTYPE html>
-<html lang="en">
+<html lang="__WORKSHEET_LANG__" dir="__WORKSHEET_DIR__">
 <head>
 <meta charset="UTF-8">
 <meta name="viewport" content="width=device-width, initial-scale=1.0">
@@ -7,7 +7,7 @@ export const WORKSHEET_TEMPLATE = `<!DOCTYPE html>
 /* Global Reset and Base Styles */
 * { margin: 0; padding: 0; box-sizing: border-box; }
 body {
-  font-family: 'Times New Roman', Times, serif;
+  font-family: 'Times New Roman', Times, 'Noto Serif', 'Noto Naskh Arabic', 'Noto Serif Hebrew', 'Noto Serif CJK SC', serif;
   font-size: 11pt;
   line-height: 1.4;
   color: #000;
@@ -103,18 +103,18 @@ body {
   margin: 3pt 0 3pt 24pt;
 }
 
-.answer-lines-2 { margin-left: 24pt; }
+.answer-lines-2 { margin-inline-start: 24pt; }
 .answer-lines-2 .answer-line { margin: 3pt 0; }
 
-.answer-lines-3 { margin-left: 24pt; }
+.answer-lines-3 { margin-inline-start: 24pt; }
 .answer-lines-3 .answer-line { margin: 3pt 0; }
 
-.answer-lines-5 { margin-left: 24pt; }
+.answer-lines-5 { margin-inline-start: 24pt; }
 .answer-lines-5 .answer-line { margin: 3pt 0; }
 
 /* Multiple Choice */
 .mc-options {
-  margin-left: 24pt;
+  margin-inline-start: 24pt;
   margin-top: 4pt;
 }
 
@@ -135,14 +135,14 @@ body {
   height: 12pt;
   border: 1px solid #000;
   border-radius: 50%;
-  margin-right: 6pt;
+  margin-inline-end: 6pt;
   vertical-align: middle;
 }
 
 /* True/False */
 .tf-options {
   display: inline-block;
-  margin-left: 12pt;
+  margin-inline-start: 12pt;
   font-size: 10pt;
 }
 
@@ -160,7 +160,7 @@ body {
 .match-container {
   display: flex;
   gap: 20pt;
-  margin-left: 24pt;
+  margin-inline-start: 24pt;
   margin-top: 6pt;
 }
 
@@ -175,12 +175,12 @@ body {
 }
 
 .match-left {
-  padding-right: 8pt;
+  padding-inline-end: 8pt;
 }
 
 .match-left::before {
   content: "_____ ";
-  margin-right: 4pt;
+  margin-inline-end: 4pt;
 }
 
 .match-right::before {
@@ -200,7 +200,7 @@ body {
 .ws-table td {
   border: 1px solid #000;
   padding: 3pt 6pt;
-  text-align: left;
+  text-align: start;
 }
 
 .ws-table th {
@@ -232,7 +232,7 @@ body {
 .show-work-label {
   position: absolute;
   top: 3pt;
-  left: 6pt;
+  inset-inline-start: 6pt;
   font-size: 8pt;
   color: #666;
   font-style: italic;
@@ -240,7 +240,7 @@ body {
 
 /* Essay/Extended Response */
 .essay-box {
-  margin-left: 24pt;
+  margin-inline-start: 24pt;
   margin-top: 6pt;
 }
 
@@ -266,7 +266,7 @@ body {
 /* Vocabulary */
 .vocab-item {
   margin-bottom: 8pt;
-  padding-left: 24pt;
+  padding-inline-start: 24pt;
 }
 
 .vocab-word {
@@ -282,7 +282,7 @@ body {
 
 /* Sequencing */
 .seq-container {
-  margin-left: 24pt;
+  margin-inline-start: 24pt;
   counter-reset: seq-counter;
 }
 
@@ -298,7 +298,7 @@ body {
   counter-increment: seq-counter;
   content: counter(seq-counter) ". ";
   position: absolute;
-  left: -20pt;
+  inset-inline-start: -20pt;
   font-weight: bold;
 }
 
@@ -307,7 +307,7 @@ body {
   height: 20pt;
   border: 1px solid #000;
   display: inline-block;
-  margin-right: 8pt;
+  margin-inline-end: 8pt;
   text-align: center;
   line-height: 20pt;
 }
@@ -315,7 +315,7 @@ body {
 /* Word Problems */
 .word-problem {
   margin-bottom: 12pt;
-  padding-left: 24pt;
+  padding-inline-start: 24pt;
 }
 
 .word-problem-text {
@@ -343,13 +343,27 @@ body {
 
 /* Reading Comprehension */
 .reading-passage {
-  border-left: 3px solid #666;
-  padding-left: 12pt;
+  border-inline-start: 3px solid #666;
+  padding-inline-start: 12pt;
   margin: 8pt 0;
   font-size: 10pt;
   line-height: 1.6;
 }
 
+.passage-paragraph { margin-bottom: 6pt; }
+
+.passage-line-num {
+  display: inline-block;
+  width: 24pt;
+  font-size: 8pt;
+  color: #666;
+}
+
+.line-ref {
+  font-size: 9pt;
+  color: #444;
+}
+
 /* Special Elements */
 .highlight-box {
   border: 2px solid #000;
@@ -377,7 +391,13 @@ body {
 .spacing-small { margin-bottom: 4pt; }
 .spacing-medium { margin-bottom: 8pt; }
 .spacing-large { margin-bottom: 16pt; }
-.indent { margin-left: 24pt; }
+.indent { margin-inline-start: 24pt; }
+
+/* Bilingual worksheets: instructions repeated in the student's home language */
+.ws-translation {
+  border-inline-start: 2px solid #999;
+  padding-inline-start: 6pt;
+}
 .no-wrap { white-space: nowrap; }
 </style>
 </head>
@@ -461,6 +481,9 @@ export const CSS_CLASS_REFERENCE = {
   },
   special: {
     'reading-passage': 'Reading comprehension passage',
+    'passage-line': 'One printed line of the passage',
+    'passage-line-num': 'Line number shown on the first and every fifth line',
+    'line-ref': 'Passage lines a question refers to',
     'graph-grid': 'Grid for drawing graphs',
     'highlight-box': 'Important information box',
     'reminder-box': 'Reminder or tip box'
@@ -478,4 +501,5 @@ export const CSS_CLASS_REFERENCE = {
     'no-break': 'Prevent page break',
     'page-break': 'Force page break'
   }
-};
\ No newline at end of file
+};
+
@@ -1,31 +1,52 @@
 import { z } from "zod";
 
+export const AgeGroupSchema = z.enum(["3 - 5", "6 - 7", "8 - 9", "10 - 12", "13 - 15", "16+", "auto"]);
+
+export type AgeGroup = z.infer<typeof AgeGroupSchema>;
+
+export const ActivityTypeSchema = z.enum([
+  "fill-blanks",
+  "short-answer",
+  "multiple-choice",
+  "true-false",
+  "matching",
+  "vocabulary",
+  "calculations",
+  "sequencing",
+  "essay",
+  "tables",
+  "word-problems"
+]);
+
+export type ActivityType = z.infer<typeof ActivityTypeSchema>;
+
 export const WorksheetSettingsSchema = z.object({
   language: z.string().default("English (US)"),
-  ageGroup: z.enum(["3 - 5", "6 - 7", "8 - 9", "10 - 12", "13 - 15", "16+", "auto"]).default("auto"),
+  ageGroup: AgeGroupSchema.default("auto"),
   complexity: z.number().min(0).max(3).default(0),
   sectionCount: z.union([z.string(), z.number()]).default("3-4"),
   activityTypes: z.union([
     z.literal("automatic"),
-    z.array(z.enum([
-      "fill-blanks",
-      "short-answer",
-      "multiple-choice",
-      "true-false",
-      "matching",
-      "vocabulary",
-      "calculations",
-      "sequencing",
-      "essay",
-      "tables",
-      "word-problems"
-    ]))
+    z.array(ActivityTypeSchema)
   ]).default("automatic"),
-  includeAnswerKey: z.boolean().default(true)
+  includeAnswerKey: z.boolean().default(true),
+  homeLanguage: z.string().optional() // Bilingual mode: section instructions are repeated in this language
 });
 
 export type WorksheetSettings = z.infer<typeof WorksheetSettingsSchema>;
 
+export const DifferentiationTierSchema = z.enum(["support", "core", "extension"]);
+
+export type DifferentiationTier = z.infer<typeof DifferentiationTierSchema>;
+
+export const DifferentiationTierDescriptions: Record<DifferentiationTier, string> = {
+  "support": "Scaffolded version for students who need support - simpler wording, worked examples or hints, word banks and sentence starters, smaller steps and fewer open-ended questions",
+  "core": "The worksheet as written, for students working at grade level",
+  "extension": "Accelerated version for students ready for a challenge - fewer routine items, multi-step and transfer problems, questions that ask students to explain, justify or create"
+};
+
+export const ComplexityLabels = ["automatic", "simple", "moderate", "advanced"];
+
 export const WorksheetResponseSchema = z.object({
   title: z.string().min(1, { message: "Worksheet title cannot be empty" }),
   subject: z.string(),
@@ -64,6 +85,44 @@ export interface AgeGroupMapping {
   characteristics: string;
 }
 
+export const AgeGroupMappings: Record<AgeGroup, AgeGroupMapping> = {
+  "3 - 5": {
+    gradeLevel: "Pre-K to Kindergarten",
+    complexity: "very simple",
+    characteristics: "Large fonts, simple instructions, visual elements, tracing activities, minimal writing"
+  },
+  "6 - 7": {
+    gradeLevel: "1st-2nd Grade",
+    complexity: "simple",
+    characteristics: "Basic vocabulary, clear instructions, more visuals, short responses, beginning reading"
+  },
+  "8 - 9": {
+    gradeLevel: "3rd-4th Grade",
+    complexity: "elementary",
+    characteristics: "Moderate vocabulary, paragraph reading, multi-step problems, basic analysis"
+  },
+  "10 - 12": {
+    gradeLevel: "5th-6th Grade",
+    complexity: "intermediate",
+    characteristics: "Advanced vocabulary, longer texts, critical thinking, problem-solving"
+  },
+  "13 - 15": {
+    gradeLevel: "7th-9th Grade",
+    complexity: "middle school",
+    characteristics: "Complex concepts, analytical questions, extended responses, research skills"
+  },
+  "16+": {
+    gradeLevel: "10th-12th Grade",
+    complexity: "high school",
+    characteristics: "Advanced analysis, essay questions, complex problem-solving, synthesis"
+  },
+  "auto": {
+    gradeLevel: "Mixed",
+    complexity: "adaptive",
+    characteristics: "Content-appropriate complexity"
+  }
+};
+
 export const ActivityTypeDescriptions: Record<string, string> = {
   "fill-blanks": "Fill in the blanks - Complete sentences with missing words",
   "short-answer": "Short answer questions - 1-3 sentence responses",
@@ -76,4 +135,41 @@ export const ActivityTypeDescriptions: Record<string, string> = {
   "essay": "Extended response questions",
   "tables": "Complete or analyze tables/charts",
   "word-problems": "Real-world application problems"
-};
\ No newline at end of file
+};
+
+/**
+ * Resolves the "automatic" activity type setting to a concrete list based on the age group.
+ */
+export function resolveActivityTypes(
+  activityTypes: WorksheetSettings["activityTypes"],
+  ageGroup: string
+): ActivityType[] {
+  if (Array.isArray(activityTypes) && activityTypes.length > 0) {
+    return activityTypes;
+  }
+
+  const youngAges = ["3 - 5", "6 - 7"];
+  const middleAges = ["8 - 9", "10 - 12"];
+
+  if (youngAges.includes(ageGroup)) {
+    return ["fill-blanks", "matching", "true-false", "vocabulary", "sequencing"];
+  } else if (middleAges.includes(ageGroup)) {
+    return ["fill-blanks", "short-answer", "multiple-choice", "matching", "vocabulary", "word-problems"];
+  }
+  return ["short-answer", "multiple-choice", "essay", "tables", "word-problems"];
+}
+
+/**
+ * Turns the sectionCount setting ("3-4" or 3) into a min/max range.
+ */
+export function resolveSectionRange(sectionCount: WorksheetSettings["sectionCount"]): { min: number; max: number } {
+  if (typeof sectionCount === "number") {
+    return { min: sectionCount, max: sectionCount };
+  }
+
+  const [min, max] = sectionCount.split("-").map(n => parseInt(n.trim(), 10));
+  if (isNaN(min)) {
+    return { min: 3, max: 4 };
+  }
+  return { min, max: isNaN(max) ? min : max };
+}
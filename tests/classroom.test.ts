@@ -0,0 +1,78 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Services } from "../src/services.js";
+import { createFakeServices, seedClassroom, TestMcpClient, type FakeBackends } from "../src/testing/index.js";
+
+describe("classroom tools", () => {
+  let fakes: FakeBackends;
+  let services: Services;
+  let client: TestMcpClient;
+
+  beforeAll(async () => {
+    const created = createFakeServices();
+    fakes = created.fakes;
+    services = created.services;
+    seedClassroom(fakes.google);
+    client = await TestMcpClient.connect(created.services);
+  });
+
+  it("registers the classroom tools", async () => {
+    const tools = await client.listTools();
+    expect(tools).toContain("google-classroom-courses");
+    expect(tools).toContain("google-classroom-grade-all-submissions");
+  });
+
+  it("lists the seeded courses", async () => {
+    const result = await client.callTool("google-classroom-courses");
+    expect(result.isError).toBe(false);
+    expect(result.text).toContain("Year 4 Maths");
+    expect(result.text).toContain("course-1");
+  });
+
+  it("shows course details with teachers", async () => {
+    const result = await client.callTool("google-classroom-course-details", { courseId: "course-1" });
+    expect(result.isError).toBe(false);
+    expect(result.text).toContain("Sam Rivera");
+  });
+
+  it("lists assignments with their submissions", async () => {
+    const result = await client.callTool("google-classroom-assignments", { courseId: "course-1" });
+    expect(result.isError).toBe(false);
+    expect(result.text).toContain("Fractions practice");
+  });
+
+  it("keeps teacher notes for roster students, by name", async () => {
+    const set = await client.callTool("google-classroom-set-student-note", {
+      courseId: "course-1",
+      student: "Ada Lovelace",
+      note: "Confident with halves, unsure about eighths."
+    });
+    expect(set.isError).toBe(false);
+
+    const note = await client.callTool("google-classroom-get-student-note", { courseId: "course-1", student: "student-1" });
+    expect(note.text).toContain("unsure about eighths");
+  });
+
+  it("keeps a deleted note in the note history", async () => {
+    const deleted = await client.callTool("google-classroom-delete-student-note", { courseId: "course-1", student: "Ada Lovelace" });
+    expect(deleted.text).toContain("Deleted the note");
+
+    expect((await services.studentNotes.getNote("course-1", "student-1"))?.note).toBe("");
+    const history = await services.studentNotes.getNoteHistory("course-1", "student-1");
+    expect(history.map(version => version.note)).toEqual(["Confident with halves, unsure about eighths."]);
+  });
+
+  it("nudges only the students with pending work", async () => {
+    fakes.google.submit("course-1", "coursework-1", { userId: "student-2", state: "TURNED_IN" });
+
+    const result = await client.callTool("google-classroom-nudge-students", { courseId: "course-1" });
+    expect(result.isError).toBe(false);
+
+    expect(result.text).toContain("Ada Lovelace");
+    expect(result.text).toContain("Grace Hopper");
+    expect(result.text).not.toContain("Alan Turing");
+
+    const announcements = fakes.google.announcements.get("course-1") || [];
+    expect(announcements).toHaveLength(1);
+    expect(announcements[0].text).toContain("Fractions practice");
+  });
+});
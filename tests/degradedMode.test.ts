@@ -0,0 +1,41 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { createServices } from "../src/services.js";
+import { FakeGoogleWorkspace, FakePDFExportService, seedClassroom, TestMcpClient } from "../src/testing/index.js";
+
+// Before the config is read: run without Mistral and Bria keys
+vi.hoisted(() => {
+  process.env.MISTRAL_API_KEY = "";
+  process.env.BRIA_API_KEY = "";
+});
+
+describe("without optional providers", () => {
+  let client: TestMcpClient;
+
+  beforeAll(async () => {
+    const google = new FakeGoogleWorkspace();
+    seedClassroom(google);
+    const services = createServices({
+      googleApis: { classroom: google.classroom, drive: google.drive },
+      pdfExport: new FakePDFExportService()
+    });
+    expect(services.configured).toEqual({ mistral: false, bria: false });
+
+    client = await TestMcpClient.connect(services);
+  });
+
+  it("still serves the classroom tools", async () => {
+    const result = await client.callTool("google-classroom-courses");
+    expect(result.isError).toBe(false);
+    expect(result.text).toContain("Year 4 Maths");
+  });
+
+  it("names the missing setting when a feature needs it", async () => {
+    const worksheet = await client.callTool("generate-worksheet", { prompt: "A worksheet on fractions" });
+    expect(worksheet.isError).toBe(true);
+    expect(worksheet.text).toContain("Set MISTRAL_API_KEY");
+
+    const image = await client.callTool("generate-image", { prompt: "A classroom garden" });
+    expect(image.isError).toBe(true);
+    expect(image.text).toContain("BRIA_API_KEY");
+  });
+});
@@ -0,0 +1,56 @@
+import fs from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+import { describe, expect, it } from "vitest";
+import { Encryption } from "../src/security/encryption.js";
+import { readEncryptedFile, resealFile, writeEncryptedFile } from "../src/security/encryptedFiles.js";
+import { JsonFileBackend } from "../src/classroom/storage/jsonFileBackend.js";
+import type { StorageDocument } from "../src/classroom/storage/storageBackend.js";
+import { createFakeServices } from "../src/testing/index.js";
+
+const NOTES: StorageDocument<{ version?: number; notes: string[]; }> = {
+  name: "rotation-notes",
+  version: 1,
+  create: () => ({ notes: [] })
+};
+
+describe("encryption at rest", () => {
+  it("stores student data encrypted", async () => {
+    const { services } = createFakeServices();
+    await services.studentProfiles.setNote("course-1", "student-1", "Ada Lovelace", "Needs extra time on reading tasks");
+
+    const stored = fs.readFileSync(path.join(process.env.STORAGE_DIR!, "student-profiles.json"));
+    expect(Encryption.isSealed(stored)).toBe(true);
+    expect(stored.toString("utf-8")).not.toContain("Ada Lovelace");
+    expect((await services.studentProfiles.getProfile("course-1", "student-1"))?.note).toContain("extra time");
+  });
+
+  it("rotates documents and files to a new key", async () => {
+    const oldKey = randomBytes(32);
+    const newKey = randomBytes(32);
+    const directory = fs.mkdtempSync(path.join(process.env.STORAGE_DIR!, "rotation-"));
+    const download = path.join(directory, "submission.pdf");
+
+    await new JsonFileBackend(directory, new Encryption(oldKey)).update(NOTES, data => { data.notes.push("quiet seat"); });
+    await writeEncryptedFile(download, "%PDF-1.4 student work", new Encryption(oldKey));
+
+    // The new key alone cannot read data sealed with the old one
+    await expect(new JsonFileBackend(directory, new Encryption(newKey)).read(NOTES)).rejects.toThrow("ENCRYPTION_PREVIOUS_KEYS");
+
+    const rotating = new Encryption(newKey, [oldKey]);
+    expect(await new JsonFileBackend(directory, rotating).reseal()).toEqual(["rotation-notes"]);
+    expect(await resealFile(download, rotating)).toBe(true);
+    expect(await resealFile(download, rotating)).toBe(false);
+
+    const rotated = new Encryption(newKey);
+    expect((await new JsonFileBackend(directory, rotated).read(NOTES)).notes).toEqual(["quiet seat"]);
+    expect((await readEncryptedFile(download, rotated)).toString("utf-8")).toBe("%PDF-1.4 student work");
+  });
+
+  it("fails the rotation of a document it cannot decrypt", async () => {
+    const directory = fs.mkdtempSync(path.join(process.env.STORAGE_DIR!, "rotation-"));
+    await new JsonFileBackend(directory, new Encryption(randomBytes(32))).update(NOTES, data => { data.notes.push("quiet seat"); });
+
+    await expect(new JsonFileBackend(directory, new Encryption(randomBytes(32))).reseal()).rejects.toThrow("ENCRYPTION_PREVIOUS_KEYS");
+  });
+});
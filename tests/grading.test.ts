@@ -0,0 +1,216 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Services } from "../src/services.js";
+import {
+  createFakeServices,
+  fakePdf,
+  sampleWorksheet,
+  seedClassroom,
+  TestMcpClient,
+  type FakeBackends,
+  type LlmCall
+} from "../src/testing/index.js";
+import { scoreObjectiveAnswer } from "../src/grading/autoScorer.js";
+import { buildAnswerKey, type AnswerKeyItem, type WorksheetDocument } from "../src/worksheets/model.js";
+
+// Echoes the "N. answer" lines of the OCR text, as the transcription model would
+function transcribe(call: LlmCall) {
+  const work = call.prompt.split("STUDENT'S SUBMITTED WORK (OCR extracted):")[1] || "";
+  const answers = [...work.matchAll(/^(\d+)\. (.*)$/gm)].map(([, number, answer]) => ({
+    questionNumber: Number(number),
+    answer
+  }));
+  return { answers };
+}
+
+// Full marks for the explanation question when the student compares pizza slices
+function grade(call: LlmCall) {
+  const explained = /pizza/i.test(call.prompt);
+  return {
+    questionResults: [{
+      questionNumber: 2,
+      studentAnswer: explained ? "Half a pizza is more than a quarter of it" : "",
+      pointsAwarded: explained ? 6 : 0,
+      isCorrect: explained,
+      rationale: explained ? "Clear explanation." : "The explanation is missing."
+    }],
+    sectionFeedback: [{ sectionName: "Section 2: Explaining", feedback: explained ? "Well explained." : "Try explaining with pictures." }],
+    overallFeedback: explained ? "Great work on fractions." : "Keep practising comparing fractions.",
+    learningRecommendations: {
+      needsScaffolding: !explained,
+      scaffoldingAreas: explained ? [] : ["comparing unit fractions"],
+      readyForAcceleration: explained,
+      accelerationAreas: explained ? ["equivalent fractions"] : [],
+      generalRecommendation: explained ? "Move on to equivalent fractions." : "Use fraction strips to compare sizes."
+    }
+  };
+}
+
+describe("grading workflow", () => {
+  let fakes: FakeBackends;
+  let services: Services;
+  let client: TestMcpClient;
+
+  beforeAll(async () => {
+    ({ fakes, services } = createFakeServices());
+    seedClassroom(fakes.google);
+
+    const { document, answerKey } = sampleWorksheet();
+    const storage = services.worksheetStorage;
+    await storage.addWorksheet("https://files.test/fractions.pdf", "https://files.test/fractions-key.pdf", document.title, {
+      subject: document.subject,
+      grade: document.grade,
+      totalPoints: answerKey.totalPoints,
+      gradingBreakdown: answerKey.gradingBreakdown,
+      answerKey,
+      document
+    });
+    await storage.linkWorksheetToAssignment("https://files.test/fractions.pdf", "coursework-1", "course-1", "Year 4 Maths");
+
+    fakes.google.submit("course-1", "coursework-1", {
+      userId: "student-1",
+      attachment: { name: "ada.pdf", content: fakePdf("1. B\n2. Half a pizza is more than a quarter of it") }
+    });
+    fakes.google.submit("course-1", "coursework-1", {
+      userId: "student-2",
+      attachment: { name: "alan.pdf", content: fakePdf("1. A\n2.") }
+    });
+
+    fakes.langchain
+      .reply("You transcribe handwritten and typed student answers exactly as written.", transcribe)
+      .reply("You are an experienced educator grading student worksheets.", grade);
+
+    client = await TestMcpClient.connect(services);
+  });
+
+  it("grades every turned-in PDF and queues the results for review", async () => {
+    const result = await client.callTool("google-classroom-grade-all-submissions", {
+      courseId: "course-1",
+      assignmentId: "coursework-1"
+    });
+    expect(result.isError).toBe(false);
+    expect(result.text).toContain("Ada Lovelace");
+    expect(result.text).toContain("Alan Turing");
+
+    const pending = await client.callTool("google-classroom-list-pending-grades", { courseId: "course-1", assignmentId: "coursework-1" });
+    expect(pending.text).toContain("Ada Lovelace");
+    expect(pending.text).toContain("Alan Turing");
+
+    // Nothing reaches Classroom before the teacher approves and publishes
+    const submissions = fakes.google.submissions.get("coursework-1") || [];
+    expect(submissions.every(submission => submission.draftGrade === undefined)).toBe(true);
+  });
+
+  it("publishes approved grades as drafts", async () => {
+    const approved = await client.callTool("google-classroom-approve-grades", { courseId: "course-1", assignmentId: "coursework-1" });
+    expect(approved.isError).toBe(false);
+
+    const published = await client.callTool("google-classroom-publish-grades", { courseId: "course-1", assignmentId: "coursework-1" });
+    expect(published.isError).toBe(false);
+
+    const submissions = fakes.google.submissions.get("coursework-1") || [];
+    const grades = Object.fromEntries(submissions.map(submission => [submission.userId, submission.draftGrade]));
+    expect(grades).toMatchObject({ "student-1": 10, "student-2": 0 });
+
+    // Students see neither the grade nor the feedback until it is assigned
+    const states = Object.fromEntries(submissions.map(submission => [submission.userId, submission.state]));
+    expect(states).toMatchObject({ "student-1": "TURNED_IN", "student-2": "TURNED_IN" });
+    expect(fakes.google.announcements.get("course-1") || []).toEqual([]);
+  });
+
+  it("returns draft grades to students when publishing as assigned", async () => {
+    const published = await client.callTool("google-classroom-publish-grades", {
+      courseId: "course-1",
+      assignmentId: "coursework-1",
+      mode: "assigned"
+    });
+    expect(published.isError).toBe(false);
+    expect(published.text).toContain("Published 2/2");
+
+    const submissions = fakes.google.submissions.get("coursework-1") || [];
+    const grades = Object.fromEntries(submissions.map(submission => [submission.userId, submission.assignedGrade]));
+    expect(grades).toMatchObject({ "student-1": 10, "student-2": 0 });
+    const states = Object.fromEntries(submissions.map(submission => [submission.userId, submission.state]));
+    expect(states).toMatchObject({ "student-1": "RETURNED", "student-2": "RETURNED" });
+    expect((fakes.google.announcements.get("course-1") || []).map(announcement => announcement.individualStudentsOptions?.studentIds))
+      .toEqual([["student-1"], ["student-2"]]);
+
+    const entries = await services.gradingReview.listEntries({ courseId: "course-1", assignmentId: "coursework-1" });
+    expect(entries.map(entry => entry.publishedAs)).toEqual(["assigned", "assigned"]);
+  });
+
+  it("remembers the grading recommendations", async () => {
+    const matches = await services.studentMemory.recall("comparing unit fractions", { courseId: "course-1" });
+    expect(matches[0]?.observation.studentId).toBe("student-2");
+  });
+});
+
+describe("multiple-choice scoring", () => {
+  const { document, answerKey } = sampleWorksheet();
+  const question = document.sections[0].questions[0];
+  const score = (answer: string) => scoreObjectiveAnswer(answerKey.items[0], answer, question)?.isCorrect ?? null;
+
+  it("reads a letter on its own or followed by its option", () => {
+    expect(score("B")).toBe(true);
+    expect(score("(b)")).toBe(true);
+    expect(score("B) 1/2")).toBe(true);
+    expect(score("A.")).toBe(false);
+    expect(score("1/2")).toBe(true);
+  });
+
+  it("leaves answers that only start with a letter to the grader", () => {
+    expect(score("A half is larger")).toBeNull();
+    expect(score("I think B")).toBeNull();
+    expect(score("A) 1/2")).toBeNull();
+  });
+});
+
+describe("numeric scoring", () => {
+  const item = (type: AnswerKeyItem["type"], answer: string): AnswerKeyItem =>
+    ({ questionNumber: 1, answer, acceptedAnswers: [], sectionIndex: 0, sectionTitle: "Practice", type, points: 2 });
+
+  it("scores plain numbers by rule", () => {
+    expect(scoreObjectiveAnswer(item("calculations", "13104"), "13,104")?.isCorrect).toBe(true);
+    expect(scoreObjectiveAnswer(item("calculations", "13104"), "12104")?.isCorrect).toBe(false);
+    expect(scoreObjectiveAnswer(item("fill-blanks", "12 | 3/4"), "12 | 0.75")?.isCorrect).toBe(true);
+    expect(scoreObjectiveAnswer(item("fill-blanks", "12 | 3/4"), "12 | 0.5")?.pointsAwarded).toBe(1);
+  });
+
+  it("leaves worked-out answers to the grader", () => {
+    expect(scoreObjectiveAnswer(item("calculations", "13104"), "234 × 56 = 13104")).toBeNull();
+    expect(scoreObjectiveAnswer(item("calculations", "13104"), "234 × 56 = 13004")).toBeNull();
+    expect(scoreObjectiveAnswer(item("fill-blanks", "12 | 3/4"), "12 | 6/8 = 3/4")).toBeNull();
+  });
+});
+
+describe("section scores", () => {
+  it("keeps sections with the same title apart", async () => {
+    const { fakes, services } = createFakeServices();
+    const { document } = sampleWorksheet();
+    const repeated: WorksheetDocument = { ...document, sections: document.sections.map(section => ({ ...section, title: "Practice" })) };
+    const answerKey = buildAnswerKey(repeated, [
+      { questionNumber: 1, answer: "B", acceptedAnswers: [] },
+      { questionNumber: 2, answer: "Halves are bigger pieces than quarters of the same whole.", acceptedAnswers: [] }
+    ]);
+    await services.worksheetStorage.addWorksheet("https://files.test/practice.pdf", "https://files.test/practice-key.pdf", repeated.title, {
+      totalPoints: answerKey.totalPoints,
+      gradingBreakdown: answerKey.gradingBreakdown,
+      answerKey,
+      document: repeated
+    });
+    await services.worksheetStorage.linkWorksheetToAssignment("https://files.test/practice.pdf", "coursework-9", "course-1");
+    fakes.langchain
+      .reply("You transcribe handwritten and typed student answers exactly as written.", transcribe)
+      .reply("You are an experienced educator grading student worksheets.", grade);
+
+    const result = await services.grading.gradeStudentSubmission({
+      assignmentId: "coursework-9",
+      courseId: "course-1",
+      userName: "Ada Lovelace",
+      userId: "student-1",
+      pdfUrl: `data:application/pdf;base64,${fakePdf("1. A\n2. Half a pizza is more than a quarter of it").toString("base64")}`
+    });
+
+    expect(result.sectionScores.map(({ sectionName, pointsEarned, pointsPossible }) => [sectionName, pointsEarned, pointsPossible]))
+      .toEqual([["Practice", 0, 4], ["Practice", 6, 6]]);
+  });
+});
@@ -0,0 +1,146 @@
+import fs from "fs";
+import path from "path";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createApp } from "../src/app.js";
+import { Tenants } from "../src/tenants.js";
+import type { OAuthFlow } from "../src/classroom/auth/oauthFlow.js";
+import { FakeGoogleWorkspace, createFakeServices, seedClassroom, TestMcpClient } from "../src/testing/index.js";
+
+// Google's side of the sign-in: the consent page redirects straight back with a code
+const revokedTokens: string[] = [];
+const fakeOAuth: OAuthFlow = {
+  async authUrl(state) {
+    return `https://accounts.example.com/consent?state=${state}`;
+  },
+  async exchangeCode(code) {
+    return { access_token: `access-${code}`, refresh_token: `refresh-${code}`, expiry_date: Date.now() + 3600_000 };
+  },
+  async revokeToken(token) {
+    revokedTokens.push(token);
+  }
+};
+
+async function listen(app: ReturnType<typeof createApp>): Promise<{ server: Server; baseUrl: string; }> {
+  const server = app.listen(0);
+  await new Promise(resolve => server.once("listening", resolve));
+  return { server, baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+}
+
+// Follows the redirect to Google and back in one browser, and returns the callback page
+async function signIn(baseUrl: string, code: string, startQuery = ""): Promise<Response> {
+  const start = await fetch(`${baseUrl}/auth/google/start${startQuery}`, { redirect: "manual" });
+  expect(start.status).toBe(302);
+  const state = new URL(start.headers.get("location")!).searchParams.get("state")!;
+  const cookie = start.headers.get("set-cookie")!.split(";")[0];
+  return fetch(`${baseUrl}/auth/google/callback?code=${code}&state=${state}`, { headers: { Cookie: cookie } });
+}
+
+describe("web sign-in for teachers", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const tenants = new Tenants({
+      identify: async () => ({ teacherId: "teacher-7", name: "Alex <Ng>", email: "alex@school.example" }),
+      overrides: () => {
+        const google = new FakeGoogleWorkspace();
+        seedClassroom(google);
+        return { googleApis: { classroom: google.classroom, drive: google.drive } };
+      }
+    });
+
+    ({ server, baseUrl } = await listen(createApp({ tenants, oauth: fakeOAuth })));
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("connects a teacher and stores their tokens encrypted", async () => {
+    const page = await signIn(baseUrl, "first");
+    expect(page.status).toBe(200);
+    const html = await page.text();
+    expect(html).toContain("Alex &#60;Ng&#62;");
+    const accessKey = html.match(/<code id="access-key">([^<]+)<\/code>/)![1];
+
+    const tokenFile = fs.readFileSync(path.join(process.env.STORAGE_DIR!, "teachers", "teacher-7", "tokens.json"));
+    expect(tokenFile.toString("utf-8")).not.toContain("refresh-first");
+
+    const status = await fetch(`${baseUrl}/auth/google/status`, { headers: { Authorization: `Bearer ${accessKey}` } });
+    const body = await status.json();
+    expect(body.teacher).toMatchObject({ teacherId: "teacher-7", email: "alex@school.example" });
+    expect(body.teacher.accessKeyHash).toBeUndefined();
+    expect(body.tokens).toMatchObject({ connected: true, source: "file", encrypted: true, hasRefreshToken: true });
+
+    const client = await TestMcpClient.connectHttp(new URL(`${baseUrl}/mcp`), { Authorization: `Bearer ${accessKey}` });
+    expect((await client.callTool("google-classroom-courses", {})).isError).toBe(false);
+    await client.close();
+  });
+
+  it("rejects callbacks without a pending sign-in", async () => {
+    const page = await fetch(`${baseUrl}/auth/google/callback?code=forged&state=unknown`);
+    expect(page.status).toBe(400);
+  });
+
+  it("rejects callbacks from another browser than the one that started the sign-in", async () => {
+    const start = await fetch(`${baseUrl}/auth/google/start`, { redirect: "manual" });
+    const state = new URL(start.headers.get("location")!).searchParams.get("state")!;
+
+    const page = await fetch(`${baseUrl}/auth/google/callback?code=forged&state=${state}`);
+    expect(page.status).toBe(400);
+  });
+
+  it("revokes the tokens and the access key", async () => {
+    const html = await (await signIn(baseUrl, "second")).text();
+    const accessKey = html.match(/<code id="access-key">([^<]+)<\/code>/)![1];
+    const headers = { Authorization: `Bearer ${accessKey}` };
+
+    const revoke = await fetch(`${baseUrl}/auth/google/revoke`, { method: "POST", headers });
+    expect(revoke.status).toBe(200);
+    expect(revokedTokens).toContain("refresh-second");
+    expect(fs.existsSync(path.join(process.env.STORAGE_DIR!, "teachers", "teacher-7", "tokens.json"))).toBe(false);
+
+    expect((await fetch(`${baseUrl}/auth/google/status`, { headers })).status).toBe(401);
+  });
+});
+
+describe("web sign-in for the shared account", () => {
+  const adminToken = "test-admin-token";
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const { services } = createFakeServices();
+    ({ server, baseUrl } = await listen(createApp({ services, oauth: fakeOAuth, adminToken })));
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("needs the admin token to connect, inspect or revoke the account", async () => {
+    expect((await fetch(`${baseUrl}/auth/google/start`, { redirect: "manual" })).status).toBe(401);
+    expect((await fetch(`${baseUrl}/auth/google/status`)).status).toBe(401);
+    expect((await fetch(`${baseUrl}/auth/google/revoke`, { method: "POST" })).status).toBe(401);
+
+    const page = await signIn(baseUrl, "shared", `?token=${adminToken}`);
+    expect(page.status).toBe(200);
+
+    const headers = { Authorization: `Bearer ${adminToken}` };
+    const status = await (await fetch(`${baseUrl}/auth/google/status`, { headers })).json();
+    expect(status.tokens).toMatchObject({ connected: true, encrypted: true });
+  });
+
+  it("rejects revoke requests from other sites", async () => {
+    const response = await fetch(`${baseUrl}/auth/google/revoke`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${adminToken}`, Origin: "https://attacker.example" }
+    });
+    expect(response.status).toBe(403);
+
+    const status = await (await fetch(`${baseUrl}/auth/google/status`, { headers: { Authorization: `Bearer ${adminToken}` } })).json();
+    expect(status.tokens.connected).toBe(true);
+  });
+});
@@ -0,0 +1,15 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll } from "vitest";
+
+// Storage files and downloaded submissions go to a throwaway directory per test file
+const originalDir = process.cwd();
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "eduadapt-test-"));
+process.env.STORAGE_DIR = workDir;
+process.chdir(workDir);
+
+afterAll(() => {
+  process.chdir(originalDir);
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
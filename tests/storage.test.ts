@@ -0,0 +1,117 @@
+import fs from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+import { createRequire } from "module";
+import { describe, expect, it } from "vitest";
+import { Encryption } from "../src/security/encryption.js";
+import { JsonFileBackend } from "../src/classroom/storage/jsonFileBackend.js";
+import { SqliteBackend } from "../src/classroom/storage/sqliteBackend.js";
+import type { StorageDocument } from "../src/classroom/storage/storageBackend.js";
+import { WorksheetStorageManager } from "../src/classroom/storage/worksheetStorageManager.js";
+
+const ASSIGNMENTS: StorageDocument<{ version?: number; assignments: string[]; }> = {
+  name: "assignments",
+  version: 1,
+  create: () => ({ assignments: [] })
+};
+
+// node:sqlite needs Node.js 22.5 or newer
+const hasSqlite = (() => {
+  try {
+    createRequire(import.meta.url)("node:sqlite");
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+function storageDirectory(): string {
+  return fs.mkdtempSync(path.join(process.env.STORAGE_DIR!, "storage-"));
+}
+
+describe.skipIf(!hasSqlite)("SQLite import of JSON files", () => {
+  it("imports an existing JSON document", async () => {
+    const directory = storageDirectory();
+    fs.writeFileSync(path.join(directory, "assignments.json"), JSON.stringify({ version: 1, assignments: ["fractions"] }));
+
+    const backend = await SqliteBackend.open(path.join(directory, "eduadapt.db"), directory, null);
+    expect((await backend.read(ASSIGNMENTS)).assignments).toEqual(["fractions"]);
+    await backend.close();
+  });
+
+  it("fails instead of creating an empty document when the JSON file is corrupt", async () => {
+    const directory = storageDirectory();
+    fs.writeFileSync(path.join(directory, "assignments.json"), "{ \"version\": 1, \"assignments\": [");
+
+    const backend = await SqliteBackend.open(path.join(directory, "eduadapt.db"), directory, null);
+    await expect(backend.read(ASSIGNMENTS)).rejects.toThrow("Cannot import");
+    await backend.close();
+  });
+
+  it("fails instead of creating an empty document when the JSON file has another key", async () => {
+    const directory = storageDirectory();
+    await new JsonFileBackend(directory, new Encryption(randomBytes(32))).update(ASSIGNMENTS, data => { data.assignments.push("fractions"); });
+
+    const backend = await SqliteBackend.open(path.join(directory, "eduadapt.db"), directory, new Encryption(randomBytes(32)));
+    await expect(backend.read(ASSIGNMENTS)).rejects.toThrow("ENCRYPTION_PREVIOUS_KEYS");
+    await backend.close();
+
+    // The original data is still there for the right key
+    expect(fs.existsSync(path.join(directory, "assignments.json"))).toBe(true);
+  });
+
+  it("reseals JSON files that are not imported yet", async () => {
+    const oldKey = randomBytes(32);
+    const newKey = randomBytes(32);
+    const directory = storageDirectory();
+    await new JsonFileBackend(directory, new Encryption(oldKey)).update(ASSIGNMENTS, data => { data.assignments.push("fractions"); });
+
+    const rotating = await SqliteBackend.open(path.join(directory, "eduadapt.db"), directory, new Encryption(newKey, [oldKey]));
+    expect(await rotating.reseal()).toEqual(["assignments"]);
+    await rotating.close();
+
+    const stored = fs.readFileSync(path.join(directory, "assignments.json"));
+    expect(new Encryption(newKey).isCurrent(stored)).toBe(true);
+  });
+});
+
+describe("JSON storage", () => {
+  it("fails instead of creating an empty document when the file is corrupt", async () => {
+    const directory = storageDirectory();
+    fs.writeFileSync(path.join(directory, "assignments.json"), "not json");
+
+    await expect(new JsonFileBackend(directory, null).read(ASSIGNMENTS)).rejects.toThrow("is not valid JSON");
+    expect(fs.readFileSync(path.join(directory, "assignments.json"), "utf-8")).toBe("not json");
+  });
+});
+
+describe("worksheet storage migration", () => {
+  it("moves the single assignment of records from before version 1 into their assignment list", async () => {
+    const directory = storageDirectory();
+    const record = { answerKeyPdfUrl: "https://example.com/key.pdf", createdAt: "2025-03-01T09:00:00.000Z" };
+    fs.writeFileSync(path.join(directory, "worksheet-assignments.json"), JSON.stringify({
+      worksheets: {
+        "https://example.com/assigned.pdf": {
+          ...record, worksheetPdfUrl: "https://example.com/assigned.pdf", title: "Assigned", assignmentId: "coursework-1", courseId: "course-1", courseName: "Year 4 Maths"
+        },
+        "https://example.com/unassigned.pdf": { ...record, worksheetPdfUrl: "https://example.com/unassigned.pdf", title: "Unassigned" }
+      },
+      assignmentMapping: { "coursework-1": "https://example.com/assigned.pdf" }
+    }));
+    const backend = new JsonFileBackend(directory, null);
+    const storage = new WorksheetStorageManager(async () => backend);
+
+    const assigned = await storage.getWorksheetByAssignment("coursework-1");
+    expect(assigned).toMatchObject({
+      title: "Assigned",
+      assignments: [{ assignmentId: "coursework-1", courseId: "course-1", courseName: "Year 4 Maths", linkedAt: record.createdAt }]
+    });
+    expect(assigned).not.toHaveProperty("assignmentId");
+    expect((await storage.getWorksheetByPdfUrl("https://example.com/unassigned.pdf"))?.assignments).toEqual([]);
+    expect((await storage.getWorksheetsByCourse("course-1")).map(worksheet => worksheet.title)).toEqual(["Assigned"]);
+
+    // The migrated document is written back at version 1 on the next change
+    await storage.linkWorksheetToAssignment("https://example.com/unassigned.pdf", "coursework-2", "course-1");
+    expect(JSON.parse(fs.readFileSync(path.join(directory, "worksheet-assignments.json"), "utf-8")).version).toBe(1);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { LocalHashEmbedder } from "../src/memory/embedders.js";
+import { InMemoryVectorStore } from "../src/memory/vectorStores.js";
+import { createFakeServices } from "../src/testing/index.js";
+
+describe("StudentMemory", () => {
+  const { studentMemory: memory, studentNotes } = createFakeServices({
+    embedder: new LocalHashEmbedder(),
+    vectorStore: new InMemoryVectorStore()
+  }).services;
+
+  it("recalls observations by meaning and filters by student", async () => {
+    await memory.rememberNote("course-1", "student-1", "Ada Lovelace", "Struggles to compare fractions with different denominators.");
+    await memory.rememberRemark("course-1", "student-2", "Alan Turing", "Reads far above grade level and enjoys long novels.");
+
+    const [best] = await memory.recall("comparing fractions");
+    expect(best.observation.studentId).toBe("student-1");
+
+    const alan = await memory.recall("fractions", { courseId: "course-1", studentId: "student-2" });
+    expect(alan.every(match => match.observation.studentId === "student-2")).toBe(true);
+  });
+
+  it("forgets observations together with their vectors", async () => {
+    expect(await memory.forget({ studentId: "student-1" })).toBe(1);
+    expect(await memory.getObservations({ studentId: "student-1" })).toEqual([]);
+    expect(await memory.recall("comparing fractions", { studentId: "student-1" })).toEqual([]);
+  });
+
+  it("does not remember empty placeholder notes", async () => {
+    await studentNotes.addNote("course-1", "student-3", "Grace Hopper", "");
+    await memory.rememberNote("course-1", "student-3", "Grace Hopper", "  ");
+
+    expect(await memory.getObservations({ studentId: "student-3" })).toEqual([]);
+  });
+});
@@ -0,0 +1,86 @@
+import fs from "fs";
+import path from "path";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createApp } from "../src/app.js";
+import { Tenants } from "../src/tenants.js";
+import { FakeGoogleWorkspace, seedClassroom, TestMcpClient } from "../src/testing/index.js";
+
+describe("multi-teacher server", () => {
+  let server: Server;
+  let url: URL;
+  const keys: Record<string, string> = {};
+
+  beforeAll(async () => {
+    // Both teachers see the same seeded classroom, so only the namespaces keep their data apart
+    const tenants = new Tenants({
+      overrides: () => {
+        const google = new FakeGoogleWorkspace();
+        seedClassroom(google);
+        return { googleApis: { classroom: google.classroom, drive: google.drive } };
+      }
+    });
+    keys.sam = (await tenants.registry.register({ teacherId: "teacher-1", name: "Sam Rivera" })).accessKey;
+    keys.kim = (await tenants.registry.register({ teacherId: "teacher-2", name: "Kim Park" })).accessKey;
+
+    server = createApp({ tenants }).listen(0);
+    await new Promise(resolve => server.once("listening", resolve));
+    url = new URL(`http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`);
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("rejects requests without a valid access key", async () => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: "Bearer not-a-key" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" })
+    });
+    expect(response.status).toBe(401);
+  });
+
+  it("keeps each teacher's notes in their own namespace", async () => {
+    const sam = await TestMcpClient.connectHttp(url, { Authorization: `Bearer ${keys.sam}` });
+    const kim = await TestMcpClient.connectHttp(url, { Authorization: `Bearer ${keys.kim}` });
+
+    const set = await sam.callTool("google-classroom-set-student-note", {
+      courseId: "course-1",
+      student: "Ada Lovelace",
+      note: "Needs a quiet seat during tests."
+    });
+    expect(set.isError).toBe(false);
+
+    expect((await sam.callTool("google-classroom-get-student-note", { courseId: "course-1", student: "Ada Lovelace" })).text)
+      .toContain("quiet seat");
+    expect((await kim.callTool("google-classroom-get-student-note", { courseId: "course-1", student: "Ada Lovelace" })).text)
+      .not.toContain("quiet seat");
+
+    const storageDir = process.env.STORAGE_DIR!;
+    expect(fs.existsSync(path.join(storageDir, "teachers", "teacher-1", "student-profiles.json"))).toBe(true);
+    expect(fs.existsSync(path.join(storageDir, "student-profiles.json"))).toBe(false);
+
+    await sam.close();
+    await kim.close();
+  });
+
+  it("does not let a teacher use another teacher's session", async () => {
+    const sam = await TestMcpClient.connectHttp(url, { Authorization: `Bearer ${keys.sam}` });
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        Authorization: `Bearer ${keys.kim}`,
+        "Mcp-Session-Id": sam.sessionId!
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" })
+    });
+    expect(response.status).toBe(403);
+
+    await sam.close();
+  });
+});
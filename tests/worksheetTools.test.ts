@@ -0,0 +1,261 @@
+import fs from "fs/promises";
+import path from "path";
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Services } from "../src/services.js";
+import type { GradingResult } from "../src/grading/gradingService.js";
+import { createFakeServices, fakePdf, sampleWorksheet, seedClassroom, TestMcpClient, type FakeBackends } from "../src/testing/index.js";
+
+const ANSWER_KEY_PROMPT = "You are an experienced teacher writing precise answer keys";
+
+// The sample worksheet's answers, as the answer key model returns them
+function sampleAnswers() {
+  return {
+    answers: sampleWorksheet().answerKey.items.map(({ questionNumber, answer, acceptedAnswers }) => ({ questionNumber, answer, acceptedAnswers }))
+  };
+}
+
+// Stores the sample worksheet as generate-worksheet does and returns its PDF URL
+async function storeWorksheet(services: Services, title: string): Promise<string> {
+  const { document, answerKey } = sampleWorksheet();
+  const pdfUrl = `data:application/pdf;base64,${fakePdf(title).toString("base64")}`;
+  await services.worksheetStorage.addWorksheet(pdfUrl, `data:application/pdf;base64,${fakePdf(`Answer Key - ${title}`).toString("base64")}`, title, {
+    subject: document.subject,
+    grade: document.grade,
+    totalPoints: answerKey.totalPoints,
+    gradingBreakdown: answerKey.gradingBreakdown,
+    answerKey,
+    document: { ...document, title }
+  });
+  return pdfUrl;
+}
+
+describe("differentiated worksheets", () => {
+  let fakes: FakeBackends;
+  let services: Services;
+  let client: TestMcpClient;
+
+  beforeAll(async () => {
+    ({ fakes, services } = createFakeServices());
+    seedClassroom(fakes.google);
+    client = await TestMcpClient.connect(services);
+  });
+
+  it("reports a tier whose answer key could not be generated as failed", async () => {
+    const worksheetPdfUrl = await storeWorksheet(services, "Fractions tiers");
+    fakes.langchain
+      .reply("Rewrite the worksheet below as the SUPPORT tier", { ...sampleWorksheet().document, title: "Fractions tiers (support)" })
+      .reply(ANSWER_KEY_PROMPT, () => { throw new Error("The model returned no answers"); });
+
+    const result = await client.callTool("google-classroom-differentiate-worksheet", {
+      courseId: "course-1",
+      worksheetPdfUrl,
+      tierOverrides: [{ studentId: "student-1", tier: "support" }]
+    });
+    expect(result.isError).toBe(false);
+    expect(result.text).toMatch(/\*\*support\*\* ❌ .*without an answer key/);
+    expect(result.text).toContain("**core** → 2 student(s)");
+
+    // Only the core tier was assigned
+    const created = (fakes.google.courseWork.get("course-1") || []).filter(courseWork => courseWork.title === "Fractions tiers");
+    expect(created.map(courseWork => courseWork.individualStudentsOptions?.studentIds)).toEqual([["student-2", "student-3"]]);
+  });
+});
+
+describe("follow-up practice", () => {
+  let fakes: FakeBackends;
+  let services: Services;
+  let client: TestMcpClient;
+
+  function result(userId: string, userName: string, scaffoldingAreas: string[]): GradingResult {
+    return {
+      userName,
+      userId,
+      assignmentId: "coursework-1",
+      submittedPdfUrl: "Drive file",
+      gradedAt: new Date().toISOString(),
+      model: "test",
+      overallScore: 4,
+      totalPossiblePoints: 10,
+      percentageScore: 40,
+      sectionScores: [],
+      questionResults: [],
+      overallFeedback: "",
+      learningRecommendations: {
+        needsScaffolding: scaffoldingAreas.length > 0,
+        scaffoldingAreas,
+        readyForAcceleration: false,
+        accelerationAreas: [],
+        generalRecommendation: ""
+      }
+    };
+  }
+
+  beforeAll(async () => {
+    ({ fakes, services } = createFakeServices());
+    seedClassroom(fakes.google);
+    client = await TestMcpClient.connect(services);
+  });
+
+  it("groups students by the scaffolding areas they share", async () => {
+    await services.gradingHistory.recordRun([
+      result("student-1", "Ada Lovelace", ["comparing unit fractions", "Equivalent fractions."]),
+      result("student-2", "Alan Turing", ["Comparing unit fractions"]),
+      result("student-3", "Grace Hopper", ["equivalent fractions"])
+    ], { courseId: "course-1", assignmentTitle: "Fractions practice" });
+    fakes.langchain
+      .reply("Create a short follow-up practice worksheet", { ...sampleWorksheet().document, title: "More fractions" })
+      .reply(ANSWER_KEY_PROMPT, sampleAnswers());
+
+    const practice = await client.callTool("google-classroom-generate-remediation", { courseId: "course-1", assignmentId: "coursework-1" });
+    expect(practice.isError).toBe(false);
+
+    const assigned = (fakes.google.courseWork.get("course-1") || [])
+      .filter(courseWork => courseWork.title?.startsWith("Follow-up practice"))
+      .map(courseWork => [courseWork.title, courseWork.individualStudentsOptions?.studentIds?.sort()]);
+    expect(assigned).toEqual([
+      ["Follow-up practice: comparing unit fractions", ["student-1", "student-2"]],
+      ["Follow-up practice: Equivalent fractions.", ["student-1", "student-3"]]
+    ]);
+
+    // Every group is asked to practice only its own concepts
+    const prompts = fakes.langchain.calls.filter(call => call.prompt.startsWith("Create a short follow-up practice worksheet"));
+    expect(prompts[0].prompt).toContain("- comparing unit fractions\n");
+    expect(prompts[1].prompt).not.toContain("comparing unit fractions");
+  });
+});
+
+describe("parallel forms", () => {
+  let fakes: FakeBackends;
+  let services: Services;
+  let client: TestMcpClient;
+
+  beforeAll(async () => {
+    ({ fakes, services } = createFakeServices());
+    seedClassroom(fakes.google);
+    client = await TestMcpClient.connect(services);
+  });
+
+  it("assigns every form as its own assignment graded with its own answer key", async () => {
+    const worksheetPdfUrl = await storeWorksheet(services, "Fractions forms");
+    const formB = sampleAnswers();
+    formB.answers[0].answer = "C";
+    fakes.langchain
+      .reply("Create Form B of the worksheet below", { ...sampleWorksheet().document, title: "Fractions forms (B)" })
+      .reply(ANSWER_KEY_PROMPT, formB);
+
+    const forms = await client.callTool("google-classroom-create-parallel-forms", { worksheetPdfUrl, courseId: "course-1", title: "Fractions forms" });
+    expect(forms.isError).toBe(false);
+
+    // Students are dealt out in name order: Ada, Alan, Grace
+    const assignments = (fakes.google.courseWork.get("course-1") || []).filter(courseWork => courseWork.title === "Fractions forms");
+    expect(assignments.map(courseWork => courseWork.individualStudentsOptions?.studentIds)).toEqual([["student-1", "student-3"], ["student-2"]]);
+
+    const [formA, formBWorksheet] = await Promise.all(assignments.map(courseWork => services.worksheetStorage.getWorksheetByAssignment(courseWork.id!)));
+    expect(formA?.worksheetPdfUrl).toBe(worksheetPdfUrl);
+    expect(formBWorksheet?.variant).toMatchObject({ form: "B", baseWorksheetPdfUrl: worksheetPdfUrl });
+    expect(formA?.answerKey?.items[0].answer).toBe("B");
+    expect(formBWorksheet?.answerKey?.items[0].answer).toBe("C");
+  });
+});
+
+describe("worksheets from course materials", () => {
+  it("reads the Drive materials in the teacher's own downloads and removes them afterwards", async () => {
+    const downloadsDirectory = path.join(process.cwd(), "teacher-1", "downloaded-submissions");
+    const { fakes, services } = createFakeServices({ downloadsDirectory });
+    seedClassroom(fakes.google);
+    const slides = fakes.google.addDriveFile("Fractions slides.pdf", fakePdf("A unit fraction has a numerator of one."));
+    fakes.google.addCourseWork("course-1", {
+      id: "coursework-lesson",
+      title: "Unit fractions lesson",
+      materials: [{ driveFile: { driveFile: { id: slides.id, title: slides.name } } }]
+    });
+    fakes.langchain
+      .reply("You are an expert educational worksheet creator.", { ...sampleWorksheet().document, title: "Unit fractions review" })
+      .reply(ANSWER_KEY_PROMPT, sampleAnswers());
+    const client = await TestMcpClient.connect(services);
+
+    const result = await client.callTool("google-classroom-worksheet-from-materials", { courseId: "course-1", courseWorkId: "coursework-lesson" });
+    await client.close();
+    expect(result.isError).toBe(false);
+    expect(result.text).toContain("**Based On:** Unit fractions lesson (Fractions slides.pdf)");
+
+    const ocr = fakes.mistral.calls.filter(call => call.method === "processOCRFromFile");
+    expect(ocr).toHaveLength(1);
+    expect(path.relative(downloadsDirectory, ocr[0].prompt)).toMatch(/^materials-[^/]+\/assignments\//);
+    expect(fakes.langchain.calls[0].prompt).toContain("A unit fraction has a numerator of one.");
+    expect(await fs.readdir(downloadsDirectory)).toEqual([]);
+  });
+});
+
+describe("worksheet library", () => {
+  let fakes: FakeBackends;
+  let services: Services;
+  let client: TestMcpClient;
+
+  beforeAll(async () => {
+    ({ fakes, services } = createFakeServices());
+    seedClassroom(fakes.google);
+    client = await TestMcpClient.connect(services);
+  });
+
+  it("finds, reassigns and deletes stored worksheets", async () => {
+    const fractions = await storeWorksheet(services, "Fractions library");
+    const decimals = await storeWorksheet(services, "Decimals library");
+
+    const found = await client.callTool("google-classroom-search-worksheets", { query: "DECIMALS LIB" });
+    expect(found.text).toContain("**1 worksheet(s) match");
+    expect(found.text).toContain(decimals);
+
+    // Reassigning reuses the stored answer key instead of generating a new one
+    const assigned = await client.callTool("google-classroom-assign-library-worksheet", { worksheetPdfUrl: fractions, courseId: "course-1" });
+    expect(assigned.isError).toBe(false);
+    expect(fakes.langchain.calls).toHaveLength(0);
+    const courseWork = (fakes.google.courseWork.get("course-1") || []).find(item => item.title === "Fractions library");
+    expect(courseWork?.maxPoints).toBe(10);
+    expect((await services.worksheetStorage.getWorksheetByAssignment(courseWork!.id!))?.worksheetPdfUrl).toBe(fractions);
+
+    const inCourse = await client.callTool("google-classroom-search-worksheets", { query: "library", courseId: "course-1" });
+    expect(inCourse.text).toContain("**1 worksheet(s) match");
+    expect(inCourse.text).toContain("**Fractions library**");
+
+    const deleted = await client.callTool("google-classroom-delete-worksheet", { worksheetPdfUrl: decimals });
+    expect(deleted.text).toContain("Deleted \"Decimals library\"");
+    const missing = await client.callTool("google-classroom-get-worksheet", { worksheetPdfUrl: decimals });
+    expect(missing.isError).toBe(true);
+    expect((await client.callTool("google-classroom-get-worksheet", { worksheetPdfUrl: fractions })).text).toContain(`${courseWork!.id} in Year 4 Maths`);
+  });
+});
+
+describe("worksheets assigned more than once", () => {
+  let fakes: FakeBackends;
+  let services: Services;
+  let client: TestMcpClient;
+
+  beforeAll(async () => {
+    ({ fakes, services } = createFakeServices());
+    seedClassroom(fakes.google);
+    client = await TestMcpClient.connect(services);
+  });
+
+  it("grades every assignment of a worksheet with its answer key", async () => {
+    const worksheetPdfUrl = await storeWorksheet(services, "Fractions twice");
+    for (const title of ["Fractions (class A)", "Fractions (class B)"]) {
+      expect((await client.callTool("google-classroom-assign-library-worksheet", { worksheetPdfUrl, courseId: "course-1", title })).isError).toBe(false);
+    }
+
+    const assignmentIds = (fakes.google.courseWork.get("course-1") || [])
+      .filter(courseWork => courseWork.title?.startsWith("Fractions (class"))
+      .map(courseWork => courseWork.id!);
+    expect(assignmentIds).toHaveLength(2);
+    for (const assignmentId of assignmentIds) {
+      expect((await services.worksheetStorage.getAnswerKey(assignmentId))?.items[0].answer).toBe("B");
+    }
+    expect((await services.worksheetStorage.getWorksheetByPdfUrl(worksheetPdfUrl))?.assignments.map(link => link.assignmentId)).toEqual(assignmentIds);
+
+    // Re-pointing one assignment at another worksheet leaves the other link alone
+    const replacement = await storeWorksheet(services, "Fractions replacement");
+    await services.worksheetStorage.linkWorksheetToAssignment(replacement, assignmentIds[1], "course-1", "Year 4 Maths");
+    expect((await services.worksheetStorage.getWorksheetByPdfUrl(worksheetPdfUrl))?.assignments.map(link => link.assignmentId)).toEqual([assignmentIds[0]]);
+    expect((await services.worksheetStorage.getWorksheetByAssignment(assignmentIds[1]))?.title).toBe("Fractions replacement");
+  });
+});
@@ -0,0 +1,162 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Services } from "../src/services.js";
+import { createFakeServices, sampleWorksheet, seedClassroom, TestMcpClient, type FakeBackends } from "../src/testing/index.js";
+import { buildAnswerKey, type WorksheetDocument } from "../src/worksheets/model.js";
+import { renderAnswerKeyHtml } from "../src/worksheets/renderer.js";
+import { loadReadingPassage } from "../src/worksheets/source.js";
+import { isPrivateAddress } from "../src/security/publicFetch.js";
+
+describe("worksheet and announcement tools", () => {
+  let fakes: FakeBackends;
+  let services: Services;
+  let client: TestMcpClient;
+
+  beforeAll(async () => {
+    ({ fakes, services } = createFakeServices());
+    seedClassroom(fakes.google);
+
+    const { document, answerKey } = sampleWorksheet();
+    fakes.langchain
+      .reply("You are an expert educational worksheet creator.", document)
+      .reply("You are an experienced teacher writing precise answer keys", {
+        answers: answerKey.items.map(({ questionNumber, answer, acceptedAnswers }) => ({ questionNumber, answer, acceptedAnswers }))
+      });
+
+    client = await TestMcpClient.connect(services);
+  });
+
+  it("generates a worksheet, assigns it and links it for grading", async () => {
+    const generated = await client.callTool("generate-worksheet", { prompt: "A 4th grade worksheet on comparing fractions" });
+    expect(generated.isError).toBe(false);
+    expect(generated.text).toContain("Fractions practice");
+    expect(generated.text).toContain("Total Points: 10");
+
+    // Worksheet and answer key were both rendered to PDF
+    expect(fakes.pdf.exported.map(pdf => pdf.title)).toEqual(["Fractions practice", "Answer Key - Fractions practice"]);
+
+    const worksheetPdfUrl = generated.text.match(/Worksheet PDF: (\S+)/)?.[1];
+    expect(worksheetPdfUrl).toBeDefined();
+
+    const assigned = await client.callTool("google-classroom-create-worksheet-assignment", {
+      courseId: "course-1",
+      worksheetPdfUrl,
+      title: "Comparing fractions",
+      maxPoints: 10
+    });
+    expect(assigned.isError).toBe(false);
+
+    const created = (fakes.google.courseWork.get("course-1") || []).find(cw => cw.title === "Comparing fractions");
+    expect(created?.materials?.[0]?.driveFile?.driveFile?.id).toBeDefined();
+    expect(fakes.google.driveFiles.get(created!.materials![0].driveFile!.driveFile!.id!)?.content.subarray(0, 4).toString()).toBe("%PDF");
+
+    const linked = await services.worksheetStorage.getWorksheetByAssignment(created!.id!);
+    expect(linked?.answerKey?.totalPoints).toBe(10);
+  });
+
+  it("attaches a generated image to an announcement", async () => {
+    const result = await client.callTool("google-classroom-create-announcement", {
+      courseId: "course-1",
+      text: "Fraction week starts on Monday!",
+      imagePrompt: "Pizza slices showing halves and quarters"
+    });
+    expect(result.isError).toBe(false);
+
+    expect(fakes.bria.requests[0]?.prompt).toContain("Pizza slices");
+    const [announcement] = fakes.google.announcements.get("course-1") || [];
+    expect(announcement.text).toBe("Fraction week starts on Monday!");
+    const imageId = announcement.materials?.[0]?.driveFile?.driveFile?.id;
+    expect(fakes.google.driveFiles.get(imageId!)?.mimeType).toBe("image/png");
+  });
+});
+
+describe("answer key rendering", () => {
+  it("keeps the answers of sections with the same title apart", () => {
+    const { document } = sampleWorksheet();
+    const repeated: WorksheetDocument = {
+      ...document,
+      sections: document.sections.map(section => ({ ...section, title: "Practice" }))
+    };
+    const answerKey = buildAnswerKey(repeated, [
+      { questionNumber: 1, answer: "B", acceptedAnswers: [] },
+      { questionNumber: 2, answer: "Halves are bigger pieces.", acceptedAnswers: [] }
+    ]);
+
+    const sections = renderAnswerKeyHtml(repeated, answerKey).split("<h2 class=\"ws-section-title\">").slice(1);
+    expect(sections).toHaveLength(2);
+    expect(sections[0]).toContain("Practice (4 pts)");
+    expect(sections[0]).not.toContain("Halves are bigger pieces.");
+    expect(sections[1]).toContain("Practice (6 pts)");
+    expect(sections[1]).toContain("Halves are bigger pieces.");
+  });
+});
+
+describe("reading worksheets", () => {
+  it("numbers the passage lines and keeps the questions' line references", async () => {
+    const { fakes, services } = createFakeServices();
+    const { document, answerKey } = sampleWorksheet();
+    const reading: WorksheetDocument = {
+      ...document,
+      title: "The fox and the grapes",
+      sections: document.sections.map((section, index) => ({
+        ...section,
+        questions: section.questions.map(question => index === 1 ? { ...question, lineRef: "lines 2-3" } : question)
+      }))
+    };
+    fakes.langchain
+      .reply("You are an expert educational worksheet creator.", reading)
+      .reply("You are an experienced teacher writing precise answer keys", {
+        answers: answerKey.items.map(({ questionNumber, answer, acceptedAnswers }) => ({ questionNumber, answer, acceptedAnswers }))
+      });
+    const client = await TestMcpClient.connect(services);
+
+    const sourceText = ["A hungry fox saw some grapes.", "They hung high on a vine.", "He jumped and jumped.", "He could not reach them.", "He walked away.", "\"They were sour anyway,\" he said."].join("\n\n");
+    const generated = await client.callTool("generate-worksheet", { prompt: "A reading worksheet", sourceText, sourceTitle: "The Fox and the Grapes" });
+    expect(generated.isError).toBe(false);
+    await client.close();
+
+    // The model sees numbered lines, so its line references match the printed ones
+    const [generation, answering] = fakes.langchain.calls;
+    expect(generation.prompt).toContain("2| They hung high on a vine.\n\n3| He jumped and jumped.");
+    expect(answering.prompt).toContain("READING PASSAGE (numbered lines):\n1| A hungry fox saw some grapes.");
+
+    // The first and every fifth printed line carry their number
+    const html = fakes.pdf.exported.find(pdf => pdf.title === "The fox and the grapes")!.html;
+    const numbers = [...html.matchAll(/<span class="passage-line-num">(\d*)<\/span>/g)].map(match => match[1]);
+    expect(numbers).toEqual(["1", "", "", "", "5", ""]);
+    expect(html).toContain("<span class=\"line-ref\">[lines 2-3]</span>");
+  });
+});
+
+describe("reading source URLs", () => {
+  const { mistral } = createFakeServices().services;
+
+  it("refuses URLs on the server's own network", async () => {
+    let requests = 0;
+    const server = http.createServer((req, res) => {
+      requests++;
+      res.end("internal secrets");
+    }).listen(0, "127.0.0.1");
+    await new Promise(resolve => server.once("listening", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      for (const url of [`http://localhost:${port}/`, `http://127.0.0.1:${port}/`, "http://169.254.169.254/latest/meta-data/", "http://[::1]/"]) {
+        await expect(loadReadingPassage({ url }, mistral)).rejects.toThrow("local or private network address");
+      }
+      await expect(loadReadingPassage({ url: "file:///etc/passwd" }, mistral)).rejects.toThrow("Only http and https");
+      expect(requests).toBe(0);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it("tells public from private addresses", () => {
+    expect(isPrivateAddress("93.184.215.14")).toBe(false);
+    expect(isPrivateAddress("2606:4700::1111")).toBe(false);
+    expect(isPrivateAddress("10.1.2.3")).toBe(true);
+    expect(isPrivateAddress("::ffff:192.168.0.1")).toBe(true);
+    expect(isPrivateAddress("fe80::1")).toBe(true);
+  });
+});
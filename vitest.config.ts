@@ -0,0 +1,20 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["tests/**/*.test.ts"],
+    setupFiles: ["tests/setup.ts"],
+    // Every test file gets its own process: the setup changes the working directory
+    // and the server modules keep singletons
+    pool: "forks",
+    testTimeout: 30000,
+    env: {
+      MISTRAL_API_KEY: "test",
+      BRIA_API_KEY: "test",
+      ENCRYPTION_KEY: "dGVzdC1lbmNyeXB0aW9uLWtleS0zMi1ieXRlcy1vayE=",
+      STORAGE_BACKEND: "json",
+      MEMORY_EMBEDDER: "local",
+      MEMORY_VECTOR_STORE: "storage"
+    }
+  }
+});